@@ -0,0 +1,294 @@
+// 命令实现：读取逐个 readContract（Anvil 默认没有 Multicall3），写操作先模拟、检查滑点，再发送并等待确认
+import { getAddress, isAddress, type Address, type Hash, type PublicClient, type WalletClient } from 'viem';
+import type { PrivateKeyAccount } from 'viem/accounts';
+import { ACCESS_CONTROL_ABI, ERC20_ABI, VAULT_ABI } from '../../src/config/abis';
+import { depositBlockReason } from '../../src/utils/accessControl';
+import { approvalAmount, needsApproval, realizedAssets, realizedShares, type AllowanceMode } from '../../src/utils/depositFlow';
+import type { VaultDeployment } from '../../src/utils/deployments';
+import { formatToken } from '../../src/utils/format';
+import { checkSlippage, formatDeviation } from '../../src/utils/slippage';
+import { assetsPerShare, fetchTokenMetadata, type TokenMetadata } from '../../src/utils/tokens';
+import { parseAmountInput, sharesForPercent } from '../../src/utils/withdrawMath';
+import { progress, type CommandResult } from './output';
+
+// 与合约中的 MAX_INVEST_RATIO 一致（95%）
+const MAX_INVEST_RATIO_BPS = 9_500;
+
+export interface CliContext {
+  publicClient: PublicClient;
+  walletClient?: WalletClient;
+  account?: PrivateKeyAccount;
+  vault: VaultDeployment;
+  accessControl?: Address;
+}
+
+interface VaultTokens {
+  asset: TokenMetadata;
+  share: TokenMetadata;
+}
+
+const formatBps = (bps: bigint | number) => `${Number(bps) / 100}%`;
+
+async function vaultTokens({ publicClient, vault }: CliContext): Promise<VaultTokens> {
+  const [asset, share] = await Promise.all([
+    fetchTokenMetadata(publicClient, vault.asset),
+    fetchTokenMetadata(publicClient, vault.vaultToken),
+  ]);
+  return { asset, share };
+}
+
+function requireSigner(ctx: CliContext): { walletClient: WalletClient; account: PrivateKeyAccount } {
+  if (!ctx.walletClient || !ctx.account) {
+    throw new Error('This command sends a transaction: set VAULT_PRIVATE_KEY or pass --keystore <file>');
+  }
+  return { walletClient: ctx.walletClient, account: ctx.account };
+}
+
+async function waitForSuccess(publicClient: PublicClient, hash: Hash, label: string) {
+  progress(`${label}: ${hash}`);
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== 'success') throw new Error(`${label} reverted (${hash})`);
+  return receipt;
+}
+
+export async function statusCommand(ctx: CliContext): Promise<CommandResult> {
+  const { publicClient, vault } = ctx;
+  const contract = { address: vault.vault, abi: VAULT_ABI } as const;
+  const [{ asset, share }, totalAssets, sharePrice, idle, invested, investRatioBps, [strategy, strategyActive, , strategyAssets], owner] =
+    await Promise.all([
+      vaultTokens(ctx),
+      publicClient.readContract({ ...contract, functionName: 'totalAssets' }),
+      publicClient.readContract({ ...contract, functionName: 'sharePrice' }),
+      publicClient.readContract({ ...contract, functionName: 'totalIdleAssets' }),
+      publicClient.readContract({ ...contract, functionName: 'totalInvestedAssets' }),
+      publicClient.readContract({ ...contract, functionName: 'investRatioBps' }),
+      publicClient.readContract({ ...contract, functionName: 'getStrategyInfo' }),
+      publicClient.readContract({ ...contract, functionName: 'owner' }),
+    ]);
+  const totalSupply = await publicClient.readContract({ address: vault.vaultToken, abi: ERC20_ABI, functionName: 'totalSupply' });
+  const [paused, publicDeposits] = ctx.accessControl
+    ? await publicClient.readContract({ address: ctx.accessControl, abi: ACCESS_CONTROL_ABI, functionName: 'getAccessControlState' })
+    : [undefined, undefined];
+  const perShare = assetsPerShare(sharePrice, share.decimals);
+
+  return {
+    title: `Vault ${vault.vault}`,
+    rows: [
+      ['Asset', `${asset.symbol} (${asset.address})`],
+      ['Share token', `${share.symbol} (${share.address})`],
+      ['Total assets', formatToken(totalAssets, asset, 4)],
+      ['Total supply', formatToken(totalSupply, share, 4)],
+      ['Share price', `${formatToken(perShare, asset, 6)} per ${share.symbol}`],
+      ['Idle assets', formatToken(idle, asset, 4)],
+      ['Invested assets', formatToken(invested, asset, 4)],
+      ['Invest ratio', formatBps(investRatioBps)],
+      ['Strategy', `${strategy} (${strategyActive ? 'active' : 'inactive'})`],
+      ['Strategy assets', formatToken(strategyAssets, asset, 4)],
+      ['Owner', owner],
+      ...(paused !== undefined ? [['Paused', paused ? 'yes' : 'no'] as [string, string]] : []),
+      ...(publicDeposits !== undefined ? [['Public deposits', publicDeposits ? 'enabled' : 'whitelist only'] as [string, string]] : []),
+    ],
+    data: {
+      vault: vault.vault,
+      asset,
+      share,
+      totalAssets,
+      totalSupply,
+      sharePrice,
+      assetsPerShare: perShare,
+      totalIdleAssets: idle,
+      totalInvestedAssets: invested,
+      investRatioBps,
+      strategy: { address: strategy, active: strategyActive, totalAssets: strategyAssets },
+      owner,
+      paused,
+      publicDeposits,
+    },
+  };
+}
+
+export async function positionCommand(ctx: CliContext, user: string | undefined): Promise<CommandResult> {
+  const target = user ?? ctx.account?.address;
+  if (!target) throw new Error('Usage: vault position <address> (or set a signer to use its address)');
+  if (!isAddress(target, { strict: false })) throw new Error(`Invalid address: ${target}`);
+  const address = getAddress(target);
+
+  const { publicClient, vault } = ctx;
+  const [{ asset, share }, shares, assets, walletAssets, allowance] = await Promise.all([
+    vaultTokens(ctx),
+    publicClient.readContract({ address: vault.vaultToken, abi: ERC20_ABI, functionName: 'balanceOf', args: [address] }),
+    publicClient.readContract({ address: vault.vault, abi: VAULT_ABI, functionName: 'balanceOfAssets', args: [address] }),
+    publicClient.readContract({ address: vault.asset, abi: ERC20_ABI, functionName: 'balanceOf', args: [address] }),
+    publicClient.readContract({ address: vault.asset, abi: ERC20_ABI, functionName: 'allowance', args: [address, vault.vault] }),
+  ]);
+
+  return {
+    title: `Position of ${address}`,
+    rows: [
+      ['Shares', formatToken(shares, share, 6)],
+      ['Value', formatToken(assets, asset, 6)],
+      ['Wallet balance', formatToken(walletAssets, asset, 6)],
+      ['Vault allowance', formatToken(allowance, asset, 6)],
+    ],
+    data: { address, vault: vault.vault, shares, assets, walletAssets, allowance, asset, share },
+  };
+}
+
+export interface DepositOptions {
+  allowanceMode: AllowanceMode;
+  slippageBps: number;
+}
+
+export async function depositCommand(ctx: CliContext, amount: string | undefined, options: DepositOptions): Promise<CommandResult> {
+  if (!amount) throw new Error('Usage: vault deposit <amount>');
+  const { walletClient, account } = requireSigner(ctx);
+  const { publicClient, vault } = ctx;
+  const { asset, share } = await vaultTokens(ctx);
+
+  // 与前端相同的输入解析：按资产 decimals 换算，超出余额时报错
+  const balance = await publicClient.readContract({ address: vault.asset, abi: ERC20_ABI, functionName: 'balanceOf', args: [account.address] });
+  const parsed = parseAmountInput(amount, asset.decimals, balance);
+  if (parsed.error || parsed.value === undefined) throw new Error(parsed.error ?? 'Enter an amount');
+  const assets = parsed.value;
+
+  if (ctx.accessControl) {
+    const access = { address: ctx.accessControl, abi: ACCESS_CONTROL_ABI } as const;
+    const [[paused, publicDeposits], [owner, strategist, guardian, keeper], canDeposit, isWhitelisted] = await Promise.all([
+      publicClient.readContract({ ...access, functionName: 'getAccessControlState' }),
+      publicClient.readContract({ ...access, functionName: 'getRoles' }),
+      publicClient.readContract({ ...access, functionName: 'canDeposit', args: [account.address] }),
+      publicClient.readContract({ ...access, functionName: 'whitelisted', args: [account.address] }),
+    ]);
+    // 与前端相同的存款限制判断（暂停 / 白名单）
+    const blocked = depositBlockReason({ paused, publicDeposits, canDeposit, isWhitelisted, roles: { owner, strategist, guardian, keeper } });
+    if (blocked) throw new Error(blocked);
+  }
+
+  const allowance = await publicClient.readContract({
+    address: vault.asset,
+    abi: ERC20_ABI,
+    functionName: 'allowance',
+    args: [account.address, vault.vault],
+  });
+  let approvalTx: Hash | undefined;
+  if (needsApproval(assets, allowance)) {
+    const { request } = await publicClient.simulateContract({
+      account,
+      address: vault.asset,
+      abi: ERC20_ABI,
+      functionName: 'approve',
+      args: [vault.vault, approvalAmount(assets, options.allowanceMode)],
+    });
+    approvalTx = await walletClient.writeContract(request);
+    await waitForSuccess(publicClient, approvalTx, `Approve ${options.allowanceMode === 'unlimited' ? `unlimited ${asset.symbol}` : formatToken(assets, asset, 4)}`);
+  }
+
+  // 预览与发送前的模拟对比，超出滑点容忍度时不发送
+  const expected = await publicClient.readContract({ address: vault.vault, abi: VAULT_ABI, functionName: 'previewDeposit', args: [assets] });
+  const { result, request } = await publicClient.simulateContract({
+    account,
+    address: vault.vault,
+    abi: VAULT_ABI,
+    functionName: 'deposit',
+    args: [assets],
+  });
+  const check = checkSlippage(expected, result, options.slippageBps);
+  if (!check.ok) {
+    throw new Error(`Deposit would mint ${formatToken(result, share, 6)} (${formatDeviation(check.deviationBps)}), beyond the ${formatBps(options.slippageBps)} tolerance`);
+  }
+
+  const hash = await walletClient.writeContract(request);
+  const receipt = await waitForSuccess(publicClient, hash, `Deposit ${formatToken(assets, asset, 4)}`);
+  const shares = realizedShares(receipt, account.address) ?? result;
+
+  return {
+    title: 'Deposit confirmed',
+    rows: [
+      ['Deposited', formatToken(assets, asset, 6)],
+      ['Shares received', formatToken(shares, share, 6)],
+      ...(approvalTx ? [['Approval tx', approvalTx] as [string, string]] : []),
+      ['Transaction', hash],
+      ['Block', receipt.blockNumber.toString()],
+    ],
+    data: { vault: vault.vault, account: account.address, assets, shares, expectedShares: expected, approvalTx, transaction: hash, blockNumber: receipt.blockNumber },
+  };
+}
+
+export interface RedeemOptions {
+  all: boolean;
+  slippageBps: number;
+}
+
+export async function redeemCommand(ctx: CliContext, amount: string | undefined, options: RedeemOptions): Promise<CommandResult> {
+  if (!amount && !options.all) throw new Error('Usage: vault redeem <shares> | vault redeem --all');
+  const { walletClient, account } = requireSigner(ctx);
+  const { publicClient, vault } = ctx;
+  const { asset, share } = await vaultTokens(ctx);
+
+  const balance = await publicClient.readContract({ address: vault.vaultToken, abi: ERC20_ABI, functionName: 'balanceOf', args: [account.address] });
+  let shares: bigint;
+  if (options.all) {
+    // 与前端 100% 按钮一致：直接使用完整余额，避免留下灰尘
+    shares = sharesForPercent(balance, 100);
+    if (shares === 0n) throw new Error(`No ${share.symbol} to redeem`);
+  } else {
+    const parsed = parseAmountInput(amount!, share.decimals, balance);
+    if (parsed.error || parsed.value === undefined) throw new Error(parsed.error ?? 'Enter an amount');
+    shares = parsed.value;
+  }
+
+  const expected = await publicClient.readContract({ address: vault.vault, abi: VAULT_ABI, functionName: 'previewRedeem', args: [shares] });
+  const { result, request } = await publicClient.simulateContract({
+    account,
+    address: vault.vault,
+    abi: VAULT_ABI,
+    functionName: 'redeem',
+    args: [shares],
+  });
+  const check = checkSlippage(expected, result, options.slippageBps);
+  if (!check.ok) {
+    throw new Error(`Redeem would return ${formatToken(result, asset, 6)} (${formatDeviation(check.deviationBps)}), beyond the ${formatBps(options.slippageBps)} tolerance`);
+  }
+
+  const hash = await walletClient.writeContract(request);
+  const receipt = await waitForSuccess(publicClient, hash, `Redeem ${formatToken(shares, share, 4)}`);
+  const assets = realizedAssets(receipt, account.address) ?? result;
+
+  return {
+    title: 'Redeem confirmed',
+    rows: [
+      ['Redeemed', formatToken(shares, share, 6)],
+      ['Assets received', formatToken(assets, asset, 6)],
+      ['Transaction', hash],
+      ['Block', receipt.blockNumber.toString()],
+    ],
+    data: { vault: vault.vault, account: account.address, shares, assets, expectedAssets: expected, transaction: hash, blockNumber: receipt.blockNumber },
+  };
+}
+
+export async function setInvestRatioCommand(ctx: CliContext, value: string | undefined): Promise<CommandResult> {
+  const bps = Number(value);
+  if (!value || !Number.isInteger(bps) || bps < 0 || bps > MAX_INVEST_RATIO_BPS) {
+    throw new Error(`Usage: vault admin set-invest-ratio <bps> (0-${MAX_INVEST_RATIO_BPS})`);
+  }
+  const { walletClient, account } = requireSigner(ctx);
+  const { publicClient, vault } = ctx;
+
+  const contract = { address: vault.vault, abi: VAULT_ABI } as const;
+  const previous = await publicClient.readContract({ ...contract, functionName: 'investRatioBps' });
+  // setInvestRatio 是 onlyOwner，模拟时就会给出 OwnableUnauthorizedAccount
+  const { request } = await publicClient.simulateContract({ ...contract, account, functionName: 'setInvestRatio', args: [BigInt(bps)] });
+  const hash = await walletClient.writeContract(request);
+  const receipt = await waitForSuccess(publicClient, hash, `Set invest ratio to ${formatBps(bps)}`);
+
+  return {
+    title: 'Invest ratio updated',
+    rows: [
+      ['Previous', formatBps(previous)],
+      ['New', formatBps(bps)],
+      ['Transaction', hash],
+      ['Block', receipt.blockNumber.toString()],
+    ],
+    data: { vault: vault.vault, previousBps: previous, newBps: bps, transaction: hash, blockNumber: receipt.blockNumber },
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * 命令行客户端：不需要浏览器钱包即可查询、存款、赎回与管理 Vault
+ *
+ * 用法:
+ *   npm run vault -- status
+ *   npm run vault -- position 0x...
+ *   VAULT_PRIVATE_KEY=0x... npm run vault -- deposit 100
+ *   npm run vault -- redeem --all --keystore ~/.foundry/keystores/dev
+ *   npm run vault -- admin set-invest-ratio 8000 --json
+ *
+ * Vault 地址来自与前端相同的 broadcast 清单 / 环境变量（<CONTRACT>_ADDRESS_<NETWORK>，不带 VITE_ 前缀）
+ */
+import { createPublicClient, createWalletClient, http } from 'viem';
+import { anvil, mainnet, sepolia } from 'viem/chains';
+import { findVault } from '../../src/utils/deployments';
+import { DEFAULT_SLIPPAGE_BPS, parseSlippagePercent } from '../../src/utils/slippage';
+import { decodeTxError } from '../../src/utils/txErrors';
+import { loadDeploymentRegistry } from '../shared/deployments';
+import {
+  depositCommand,
+  positionCommand,
+  redeemCommand,
+  setInvestRatioCommand,
+  statusCommand,
+  type CliContext,
+} from './commands';
+import { printResult, toJson, type CommandResult } from './output';
+import { loadSigner } from './signer';
+
+const CHAINS = [mainnet, sepolia, anvil];
+
+const USAGE = `Usage: npm run vault -- <command> [options]
+
+Commands:
+  status                          vault totals, share price, strategy and access state
+  position [address]              shares, value and allowance (defaults to the signer)
+  deposit <amount>                approve if needed, then deposit <amount> assets
+  redeem <shares> | --all         redeem shares for assets
+  admin set-invest-ratio <bps>    owner only: set the share of idle assets to invest
+
+Options:
+  --vault <address>    vault to use (default: the first vault deployed on the chain)
+  --rpc-url <url>      JSON-RPC endpoint (default: VAULT_RPC_URL or http://127.0.0.1:8545)
+  --keystore <file>    sign with a v3 keystore (password from VAULT_KEYSTORE_PASSWORD or prompt)
+  --unlimited          approve an unlimited allowance instead of the exact amount
+  --slippage <pct>     max deviation from the preview before sending (default ${DEFAULT_SLIPPAGE_BPS / 100}%)
+  --json               print machine-readable JSON
+
+Environment:
+  VAULT_PRIVATE_KEY    sign with this key (when no keystore is given)
+  VAULT_KEYSTORE       default keystore file`;
+
+// 需要签名账户的命令
+const SIGNER_COMMANDS = new Set(['deposit', 'redeem', 'admin']);
+
+// 带值的选项；其余 --xxx 均视为布尔开关
+const VALUE_OPTIONS = new Set(['--vault', '--rpc-url', '--keystore', '--slippage']);
+
+function parseArgs(argv: string[]) {
+  const positional: string[] = [];
+  const options: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) positional.push(arg);
+    else if (VALUE_OPTIONS.has(arg)) {
+      if (argv[i + 1] === undefined) throw new Error(`${arg} requires a value`);
+      options[arg] = argv[++i];
+    } else options[arg] = true;
+  }
+  return { positional, options };
+}
+
+async function main() {
+  const { positional, options } = parseArgs(process.argv.slice(2));
+  const [command, ...args] = positional;
+  const value = (name: string) => (typeof options[name] === 'string' ? (options[name] as string) : undefined);
+  const json = options['--json'] === true;
+
+  if (!command || options['--help']) {
+    console.log(USAGE);
+    return;
+  }
+
+  const slippage = value('--slippage') ? parseSlippagePercent(value('--slippage')!) : { bps: DEFAULT_SLIPPAGE_BPS };
+  if (slippage.error || slippage.bps === undefined) throw new Error(`--slippage: ${slippage.error}`);
+
+  const rpcUrl = value('--rpc-url') ?? process.env.VAULT_RPC_URL?.trim() ?? 'http://127.0.0.1:8545';
+  const chainId = await createPublicClient({ transport: http(rpcUrl) }).getChainId();
+  const chain = CHAINS.find((c) => c.id === chainId);
+  const publicClient = createPublicClient({ chain, transport: http(rpcUrl) });
+
+  const deployment = loadDeploymentRegistry()[chainId];
+  const vaultAddress = value('--vault');
+  const vault = vaultAddress ? findVault(deployment, vaultAddress) : deployment?.vaults[0];
+  if (!vault) {
+    throw new Error(vaultAddress ? `Vault ${vaultAddress} is not in the deployment registry for chain ${chainId}` : `No vault deployed on chain ${chainId}`);
+  }
+
+  // 只有发送交易的命令（以及省略地址的 position）才加载签名账户，只读命令不会提示输入 keystore 密码
+  const needsSigner = SIGNER_COMMANDS.has(command) || (command === 'position' && !args[0]);
+  const account = needsSigner ? await loadSigner({ keystore: value('--keystore'), env: process.env }) : undefined;
+  const walletClient = account ? createWalletClient({ account, chain, transport: http(rpcUrl) }) : undefined;
+  const ctx: CliContext = { publicClient, walletClient, account, vault, accessControl: deployment?.accessControl };
+
+  let result: CommandResult;
+  switch (command) {
+    case 'status':
+      result = await statusCommand(ctx);
+      break;
+    case 'position':
+      result = await positionCommand(ctx, args[0]);
+      break;
+    case 'deposit':
+      result = await depositCommand(ctx, args[0], {
+        allowanceMode: options['--unlimited'] ? 'unlimited' : 'exact',
+        slippageBps: slippage.bps,
+      });
+      break;
+    case 'redeem':
+      result = await redeemCommand(ctx, args[0], { all: options['--all'] === true, slippageBps: slippage.bps });
+      break;
+    case 'admin':
+      if (args[0] !== 'set-invest-ratio') throw new Error(`Unknown admin command: ${args[0] ?? ''}\n\n${USAGE}`);
+      result = await setInvestRatioCommand(ctx, args[1]);
+      break;
+    default:
+      throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+  printResult(result, json);
+}
+
+main().catch((err) => {
+  // 合约 revert 使用与前端相同的错误解码
+  const message = decodeTxError(err);
+  if (process.argv.includes('--json')) process.stdout.write(`${toJson({ error: message })}\n`);
+  else console.error(`Error: ${message}`);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+// 命令输出：--json 时输出机器可读的 JSON（bigint 为字符串），否则输出对齐的两列表格
+// 进度信息写到 stderr，保证 stdout 只有结果，便于在脚本中使用 jq
+
+export type Row = [label: string, value: string];
+
+export interface CommandResult {
+  /** 表格标题 */
+  title: string;
+  rows: Row[];
+  /** JSON 模式下输出的原始数据 */
+  data: Record<string, unknown>;
+}
+
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v), 2);
+}
+
+export function renderTable(title: string, rows: Row[]): string {
+  const width = Math.max(...rows.map(([label]) => label.length));
+  return [title, '-'.repeat(title.length), ...rows.map(([label, value]) => `${label.padEnd(width)}  ${value}`)].join('\n');
+}
+
+export function printResult(result: CommandResult, json: boolean) {
+  process.stdout.write(`${json ? toJson(result.data) : renderTable(result.title, result.rows)}\n`);
+}
+
+export function progress(message: string) {
+  process.stderr.write(`${message}\n`);
+}
@@ -0,0 +1,83 @@
+// 命令行签名账户：私钥（环境变量）或 Web3 Secret Storage v3 keystore（如 `cast wallet new` 生成的文件）
+import { createDecipheriv, pbkdf2Sync, scryptSync } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { Writable } from 'node:stream';
+import { bytesToHex, concat, isHex, keccak256, type Hex } from 'viem';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+
+interface KeystoreV3 {
+  version: number;
+  crypto: {
+    cipher: string;
+    ciphertext: string;
+    cipherparams: { iv: string };
+    kdf: 'scrypt' | 'pbkdf2';
+    kdfparams: { dklen: number; salt: string; n?: number; r?: number; p?: number; c?: number; prf?: string };
+    mac: string;
+  };
+}
+
+/** 解密 v3 keystore，密码错误时抛出异常 */
+export function decryptKeystore(json: string, password: string): Hex {
+  const keystore = JSON.parse(json) as KeystoreV3 & { Crypto?: KeystoreV3['crypto'] };
+  const crypto = keystore.crypto ?? keystore.Crypto;
+  if (keystore.version !== 3 || !crypto) throw new Error('Unsupported keystore: only version 3 is supported');
+  if (crypto.cipher !== 'aes-128-ctr') throw new Error(`Unsupported keystore cipher: ${crypto.cipher}`);
+
+  const { kdfparams } = crypto;
+  const salt = Buffer.from(kdfparams.salt, 'hex');
+  let derived: Buffer;
+  if (crypto.kdf === 'scrypt') {
+    const { n = 0, r = 0, p = 0 } = kdfparams;
+    derived = scryptSync(password, salt, kdfparams.dklen, { N: n, r, p, maxmem: 128 * n * r * p + 32 * 1024 * 1024 });
+  } else if (crypto.kdf === 'pbkdf2' && kdfparams.prf === 'hmac-sha256') {
+    derived = pbkdf2Sync(password, salt, kdfparams.c ?? 0, kdfparams.dklen, 'sha256');
+  } else {
+    throw new Error(`Unsupported keystore kdf: ${crypto.kdf}`);
+  }
+
+  const ciphertext = Buffer.from(crypto.ciphertext, 'hex');
+  const mac = keccak256(concat([derived.subarray(16, 32), ciphertext]));
+  if (mac.slice(2) !== crypto.mac.toLowerCase()) throw new Error('Incorrect keystore password');
+
+  const decipher = createDecipheriv('aes-128-ctr', derived.subarray(0, 16), Buffer.from(crypto.cipherparams.iv, 'hex'));
+  return bytesToHex(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+}
+
+// 在终端中读取密码（不回显）：提示直接写到 stderr，readline 的输出（包括回显）写入丢弃一切的流
+function promptPassword(question: string): Promise<string> {
+  if (!process.stdin.isTTY) throw new Error('Set VAULT_KEYSTORE_PASSWORD to unlock the keystore non-interactively');
+  const discard = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  const rl = createInterface({ input: process.stdin, output: discard, terminal: true });
+  process.stderr.write(question);
+  return new Promise((resolve) => {
+    rl.question('', (answer) => {
+      rl.close();
+      process.stderr.write('\n');
+      resolve(answer);
+    });
+  });
+}
+
+export interface SignerOptions {
+  keystore?: string;
+  env: Record<string, string | undefined>;
+}
+
+/**
+ * 按优先级加载签名账户：--keystore / VAULT_KEYSTORE，其次 VAULT_PRIVATE_KEY
+ * 都未设置时返回 undefined（只读命令不需要账户）
+ */
+export async function loadSigner({ keystore, env }: SignerOptions): Promise<PrivateKeyAccount | undefined> {
+  const keystorePath = keystore ?? env.VAULT_KEYSTORE?.trim();
+  if (keystorePath) {
+    const password = env.VAULT_KEYSTORE_PASSWORD ?? (await promptPassword(`Password for ${keystorePath}: `));
+    return privateKeyToAccount(decryptKeystore(readFileSync(keystorePath, 'utf8'), password));
+  }
+
+  const privateKey = env.VAULT_PRIVATE_KEY?.trim();
+  if (!privateKey) return undefined;
+  if (!(isHex(privateKey) && privateKey.length === 66)) throw new Error('VAULT_PRIVATE_KEY must be a 0x-prefixed 32-byte hex string');
+  return privateKeyToAccount(privateKey);
+}
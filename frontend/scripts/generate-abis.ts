@@ -0,0 +1,92 @@
+/**
+ * 从 Foundry 编译产物（out/<File>.sol/<Contract>.json）生成前端使用的 ABI
+ *
+ * 用法:
+ *   forge build
+ *   npm run abis:generate          # 生成 src/config/generated/abis.ts
+ *   npm run abis:check             # 仅检查已提交的 ABI 是否与编译产物一致（不一致时退出码为 1）
+ *
+ * 可通过 FOUNDRY_OUT 环境变量或 --out <dir> 指定编译产物目录（默认为仓库根目录的 out/）
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const FRONTEND_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const OUTPUT_FILE = join(FRONTEND_ROOT, 'src/config/generated/abis.ts');
+
+// 需要导出的合约：Foundry 产物路径为 out/<file>/<contract>.json
+const CONTRACTS = [
+  { file: 'MinimalVault.sol', contract: 'MinimalVault', exportName: 'MINIMAL_VAULT_ABI' },
+  { file: 'VaultToken.sol', contract: 'VaultToken', exportName: 'VAULT_TOKEN_ABI' },
+  { file: 'FeeManager.sol', contract: 'FeeManager', exportName: 'FEE_MANAGER_ABI' },
+  { file: 'VaultAccessControl.sol', contract: 'VaultAccessControl', exportName: 'VAULT_ACCESS_CONTROL_ABI' },
+  { file: 'BaseStrategy.sol', contract: 'BaseStrategy', exportName: 'BASE_STRATEGY_ABI' },
+  { file: 'MockStrategy.sol', contract: 'MockStrategy', exportName: 'MOCK_STRATEGY_ABI' },
+  // 资产代币只依赖标准 ERC20 接口（OpenZeppelin 依赖会随 forge build 一起编译）
+  { file: 'IERC20Metadata.sol', contract: 'IERC20Metadata', exportName: 'ERC20_METADATA_ABI' },
+  // EIP-2612 permit 与 ERC-5267 eip712Domain（用于检测资产是否支持签名授权）
+  { file: 'IERC20Permit.sol', contract: 'IERC20Permit', exportName: 'ERC20_PERMIT_ABI' },
+  { file: 'IERC5267.sol', contract: 'IERC5267', exportName: 'ERC5267_ABI' },
+] as const;
+
+function parseArgs(argv: string[]) {
+  const check = argv.includes('--check');
+  const outIndex = argv.indexOf('--out');
+  const outDir = outIndex >= 0 ? argv[outIndex + 1] : process.env.FOUNDRY_OUT;
+  return { check, outDir: resolve(FRONTEND_ROOT, outDir ?? '../out') };
+}
+
+function readAbi(outDir: string, file: string, contract: string): unknown[] {
+  const artifactPath = join(outDir, file, `${contract}.json`);
+  if (!existsSync(artifactPath)) {
+    throw new Error(`Missing artifact ${relative(FRONTEND_ROOT, artifactPath)}. Run \`forge build\` first.`);
+  }
+  const artifact = JSON.parse(readFileSync(artifactPath, 'utf8')) as { abi?: unknown[] };
+  if (!Array.isArray(artifact.abi)) throw new Error(`Artifact ${artifactPath} has no abi field`);
+  return artifact.abi;
+}
+
+function renderAbis(abis: { exportName: string; contract: string; abi: unknown[] }[]): string {
+  const header = [
+    '// 此文件由 scripts/generate-abis.ts 根据 Foundry 编译产物自动生成，请勿手动修改',
+    '// 重新生成: forge build && npm run abis:generate',
+    '',
+  ];
+  const blocks = abis.map(({ exportName, contract, abi }) =>
+    [`// ${contract}`, `export const ${exportName} = [`, ...abi.map((item) => `  ${JSON.stringify(item)},`), '] as const;', ''].join('\n'),
+  );
+  return [...header, ...blocks].join('\n');
+}
+
+function main() {
+  const { check, outDir } = parseArgs(process.argv.slice(2));
+  const abis = CONTRACTS.map(({ file, contract, exportName }) => ({
+    exportName,
+    contract,
+    abi: readAbi(outDir, file, contract),
+  }));
+  const rendered = renderAbis(abis);
+  const target = relative(FRONTEND_ROOT, OUTPUT_FILE);
+
+  if (check) {
+    const current = existsSync(OUTPUT_FILE) ? readFileSync(OUTPUT_FILE, 'utf8') : '';
+    if (current !== rendered) {
+      console.error(`${target} is out of date with the Foundry artifacts. Run \`npm run abis:generate\`.`);
+      process.exit(1);
+    }
+    console.log(`${target} is up to date.`);
+    return;
+  }
+
+  mkdirSync(dirname(OUTPUT_FILE), { recursive: true });
+  writeFileSync(OUTPUT_FILE, rendered);
+  console.log(`Wrote ${abis.length} ABIs to ${target}.`);
+}
+
+try {
+  main();
+} catch (err) {
+  console.error((err as Error).message);
+  process.exit(1);
+}
@@ -0,0 +1,95 @@
+// keeper 配置：环境变量（KEEPER_*）与命令行参数，命令行优先
+import { getAddress, isAddress, isHex, type Address, type Hex } from 'viem';
+import type { LogLevel } from './log';
+
+export interface KeeperConfig {
+  rpcUrl: string;
+  /** 发送交易的账户私钥；dry-run 时可省略（改用 account 地址模拟） */
+  privateKey?: Hex;
+  /** 没有私钥时用于模拟调用的地址；都未设置时以 Vault owner 的身份模拟 */
+  account?: Address;
+  /** 只处理这些 Vault；为空时处理注册表中当前链的全部 Vault */
+  vaults: Address[];
+  /** 最小收益，以资产的完整单位表示（如 "10" 表示 10 USDC），运行时按资产 decimals 换算 */
+  minProfit: string;
+  maxHarvestInterval: number;
+  minIdleDriftBps: number;
+  pollInterval: number;
+  /** 0 表示不启动指标服务 */
+  metricsPort: number;
+  dryRun: boolean;
+  /** 只运行一轮后退出（适合 cron 与端到端测试） */
+  once: boolean;
+  logLevel: LogLevel;
+}
+
+// 默认最小收益（完整资产单位）：MockStrategy 每个区块都会累积收益，阈值为 0 时每轮轮询都会为零头发送 harvest
+export const DEFAULT_MIN_PROFIT = '1';
+
+export const KEEPER_USAGE = `Usage: npm run keeper -- [--dry-run] [--once] [--vault <address>]... [--rpc-url <url>]
+
+Environment:
+  KEEPER_RPC_URL               JSON-RPC endpoint (default http://127.0.0.1:8545)
+  KEEPER_PRIVATE_KEY           key of the vault owner (harvest/invest are onlyOwner)
+  KEEPER_ACCOUNT               address used for simulation when no key is set (default: vault owner)
+  KEEPER_VAULTS                comma-separated vault addresses (default: all deployed vaults)
+  KEEPER_MIN_PROFIT            harvest when estimated profit >= this many whole asset units (default ${DEFAULT_MIN_PROFIT})
+  KEEPER_MAX_HARVEST_INTERVAL  harvest at least this often, in seconds (default 86400)
+  KEEPER_MIN_IDLE_DRIFT_BPS    invest when idle assets exceed the target by this many bps (default 100)
+  KEEPER_POLL_INTERVAL         seconds between polls (default 60)
+  KEEPER_METRICS_PORT          port for /metrics and /healthz, 0 to disable (default 9464)
+  KEEPER_DRY_RUN               "true" to simulate without sending
+  KEEPER_LOG_LEVEL             debug | info | warn | error (default info)`;
+
+function readInteger(env: Record<string, string | undefined>, name: string, fallback: number): number {
+  const raw = env[name]?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+  return value;
+}
+
+function readAddress(value: string, source: string): Address {
+  if (!isAddress(value, { strict: false })) throw new Error(`Invalid address in ${source}: ${value}`);
+  return getAddress(value);
+}
+
+export function parseKeeperConfig(env: Record<string, string | undefined>, argv: string[]): KeeperConfig {
+  const flag = (name: string) => argv.includes(name);
+  const options = (name: string) => argv.flatMap((arg, i) => (arg === name && argv[i + 1] ? [argv[i + 1]] : []));
+
+  const privateKey = env.KEEPER_PRIVATE_KEY?.trim();
+  if (privateKey && !(isHex(privateKey) && privateKey.length === 66)) {
+    throw new Error('KEEPER_PRIVATE_KEY must be a 0x-prefixed 32-byte hex string');
+  }
+  const account = env.KEEPER_ACCOUNT?.trim();
+
+  const cliVaults = options('--vault');
+  const vaults = cliVaults.length > 0
+    ? cliVaults.map((v) => readAddress(v, '--vault'))
+    : (env.KEEPER_VAULTS ?? '').split(',').map((v) => v.trim()).filter(Boolean).map((v) => readAddress(v, 'KEEPER_VAULTS'));
+
+  const minProfit = env.KEEPER_MIN_PROFIT?.trim() || DEFAULT_MIN_PROFIT;
+  if (!/^\d+(\.\d+)?$/.test(minProfit)) throw new Error(`KEEPER_MIN_PROFIT must be a decimal number, got "${minProfit}"`);
+
+  const logLevel = (env.KEEPER_LOG_LEVEL?.trim() || 'info') as LogLevel;
+  if (!['debug', 'info', 'warn', 'error'].includes(logLevel)) throw new Error(`Invalid KEEPER_LOG_LEVEL: ${logLevel}`);
+
+  const config: KeeperConfig = {
+    rpcUrl: options('--rpc-url').at(-1) ?? env.KEEPER_RPC_URL?.trim() ?? 'http://127.0.0.1:8545',
+    privateKey: privateKey ? (privateKey as Hex) : undefined,
+    account: account ? readAddress(account, 'KEEPER_ACCOUNT') : undefined,
+    vaults,
+    minProfit,
+    maxHarvestInterval: readInteger(env, 'KEEPER_MAX_HARVEST_INTERVAL', 24 * 60 * 60),
+    minIdleDriftBps: readInteger(env, 'KEEPER_MIN_IDLE_DRIFT_BPS', 100),
+    pollInterval: readInteger(env, 'KEEPER_POLL_INTERVAL', 60),
+    metricsPort: readInteger(env, 'KEEPER_METRICS_PORT', 9464),
+    dryRun: flag('--dry-run') || env.KEEPER_DRY_RUN?.trim() === 'true',
+    once: flag('--once'),
+    logLevel,
+  };
+
+  if (!config.privateKey && !config.dryRun) throw new Error('KEEPER_PRIVATE_KEY is required unless running with --dry-run');
+  return config;
+}
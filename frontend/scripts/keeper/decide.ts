@@ -0,0 +1,70 @@
+// keeper 决策逻辑：根据 Vault / Strategy 的链上状态与阈值判断是否需要 harvest / invest（纯函数，便于单独验证）
+
+export const MAX_BPS = 10_000;
+
+/** 一次轮询读取到的 Vault 状态 */
+export interface VaultObservation {
+  totalAssets: bigint;
+  totalIdleAssets: bigint;
+  investRatioBps: bigint;
+  strategyActive: boolean;
+  estimatedProfit: bigint;
+  estimatedLoss: bigint;
+  /** 上次 harvest 的时间（秒）；Strategy 不提供时为 undefined */
+  lastHarvestTime?: number;
+}
+
+export interface KeeperThresholds {
+  /** 预估收益达到该值（资产最小单位）时 harvest */
+  minProfit: bigint;
+  /** 距上次 harvest 超过该时长（秒）时，即使收益不足也 harvest，及时确认亏损 */
+  maxHarvestInterval: number;
+  /** 闲置资产超出目标比例的幅度（基点）达到该值时 invest */
+  minIdleDriftBps: number;
+}
+
+export type KeeperAction = 'harvest' | 'invest';
+
+export interface KeeperDecision {
+  action: KeeperAction;
+  reason: string;
+}
+
+/**
+ * 闲置资产相对目标的偏离（基点，占 totalAssets）
+ * 目标闲置 = totalAssets * (1 - investRatio)，正数表示闲置过多
+ */
+export function idleDriftBps(observation: VaultObservation): number {
+  const { totalAssets, totalIdleAssets, investRatioBps } = observation;
+  if (totalAssets === 0n) return 0;
+  const targetIdle = (totalAssets * (BigInt(MAX_BPS) - investRatioBps)) / BigInt(MAX_BPS);
+  return Number(((totalIdleAssets - targetIdle) * BigInt(MAX_BPS)) / totalAssets);
+}
+
+/**
+ * 按顺序返回需要执行的操作：先 harvest（更新收益），再 invest
+ * @param now 当前区块时间（秒）
+ */
+export function decideActions(
+  observation: VaultObservation,
+  thresholds: KeeperThresholds,
+  now: number,
+): KeeperDecision[] {
+  // Strategy 未设置或已停用时 Vault 的 harvest / invest 都是空操作
+  if (!observation.strategyActive) return [];
+  const decisions: KeeperDecision[] = [];
+
+  const { estimatedProfit, estimatedLoss, lastHarvestTime } = observation;
+  const elapsed = lastHarvestTime !== undefined ? now - lastHarvestTime : undefined;
+  if (estimatedProfit > 0n && estimatedProfit >= thresholds.minProfit) {
+    decisions.push({ action: 'harvest', reason: `estimated profit ${estimatedProfit} >= ${thresholds.minProfit}` });
+  } else if (elapsed !== undefined && elapsed >= thresholds.maxHarvestInterval && (estimatedProfit > 0n || estimatedLoss > 0n)) {
+    decisions.push({ action: 'harvest', reason: `${elapsed}s since last harvest >= ${thresholds.maxHarvestInterval}s` });
+  }
+
+  const drift = idleDriftBps(observation);
+  if (observation.investRatioBps > 0n && observation.totalIdleAssets > 0n && drift >= thresholds.minIdleDriftBps) {
+    decisions.push({ action: 'invest', reason: `idle drift ${drift}bps >= ${thresholds.minIdleDriftBps}bps` });
+  }
+  return decisions;
+}
@@ -0,0 +1,109 @@
+/**
+ * keeper 端到端测试：在本地 Anvil 部署上验证 dry-run、harvest 与 invest
+ *
+ * 用法:
+ *   anvil
+ *   forge script script/Deploy.s.sol --rpc-url http://localhost:8545 --broadcast
+ *   npm run keeper:e2e
+ *
+ * 测试前后使用 evm_snapshot / evm_revert，不会改变 Anvil 上的状态
+ */
+import assert from 'node:assert/strict';
+import { createPublicClient, createTestClient, createWalletClient, http, parseEventLogs, parseUnits, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { anvil } from 'viem/chains';
+import { ERC20_ABI, VAULT_ABI } from '../../src/config/abis';
+import { loadDeploymentRegistry } from '../shared/deployments';
+import { createKeeper, observeVault } from './keeper';
+import { createLogger } from './log';
+import { createKeeperMetrics } from './metrics';
+
+// Anvil 第一个默认账户（Deploy.s.sol 在未设置 PRIVATE_KEY 时使用它部署，因此也是 Vault 的 owner）
+const ANVIL_DEFAULT_KEY: Hex = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+const rpcUrl = process.env.KEEPER_RPC_URL ?? 'http://127.0.0.1:8545';
+const owner = privateKeyToAccount((process.env.KEEPER_PRIVATE_KEY as Hex | undefined) ?? ANVIL_DEFAULT_KEY);
+const publicClient = createPublicClient({ chain: anvil, transport: http(rpcUrl) });
+const walletClient = createWalletClient({ account: owner, chain: anvil, transport: http(rpcUrl) });
+const testClient = createTestClient({ mode: 'anvil', chain: anvil, transport: http(rpcUrl) });
+
+async function send(request: Parameters<typeof walletClient.writeContract>[0]) {
+  const hash = await walletClient.writeContract(request);
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  assert.equal(receipt.status, 'success', `${request.functionName} reverted`);
+  return receipt;
+}
+
+async function main() {
+  const vault = loadDeploymentRegistry()[anvil.id]?.vaults[0]?.vault;
+  assert.ok(vault, 'No vault deployed on Anvil; run script/Deploy.s.sol first');
+  const asset = await publicClient.readContract({ address: vault, abi: VAULT_ABI, functionName: 'asset' });
+  const decimals = await publicClient.readContract({ address: asset, abi: ERC20_ABI, functionName: 'decimals' });
+
+  const logger = createLogger('warn');
+  const keeperFor = (dryRun: boolean, minProfit = '0') =>
+    createKeeper({
+      publicClient,
+      walletClient,
+      account: owner.address,
+      vaults: [vault],
+      minProfit,
+      maxHarvestInterval: 24 * 60 * 60,
+      minIdleDriftBps: 100,
+      dryRun,
+      logger,
+      metrics: createKeeperMetrics(),
+    });
+
+  const snapshot = await testClient.snapshot();
+  try {
+    // 准备：存入资产（自动投资到 Strategy），然后推进一周产生收益
+    const amount = parseUnits('1000', decimals);
+    await send({ address: asset, abi: ERC20_ABI, functionName: 'approve', args: [vault, amount * 2n] });
+    await send({ address: vault, abi: VAULT_ABI, functionName: 'deposit', args: [amount] });
+    await testClient.increaseTime({ seconds: 7 * 24 * 60 * 60 });
+    await testClient.mine({ blocks: 1 });
+
+    // 1. dry-run 只模拟，不发送交易
+    const nonceBefore = await publicClient.getTransactionCount({ address: owner.address });
+    const [dryReport] = await keeperFor(true).runCycle();
+    assert.deepEqual(dryReport.actions.map((a) => [a.action, a.result]), [['harvest', 'simulated']]);
+    assert.equal(await publicClient.getTransactionCount({ address: owner.address }), nonceBefore);
+    console.log('ok - dry run simulates harvest without sending');
+
+    // 2. 收益超过阈值时发送 harvest，并产生 Harvested 事件
+    const [harvestReport] = await keeperFor(false).runCycle();
+    const harvest = harvestReport.actions.find((a) => a.action === 'harvest');
+    assert.equal(harvest?.result, 'sent', harvest?.error);
+    const receipt = await publicClient.getTransactionReceipt({ hash: harvest.hash as Hex });
+    const [harvested] = parseEventLogs({ abi: VAULT_ABI, eventName: 'Harvested', logs: receipt.logs });
+    assert.ok(harvested && harvested.args.profit > 0n, 'Harvested event with profit');
+    console.log('ok - harvest sent when estimated profit exceeds the threshold');
+
+    // 3. 闲置资产超过投资比例目标时 invest
+    const ratio = await publicClient.readContract({ address: vault, abi: VAULT_ABI, functionName: 'investRatioBps' });
+    await send({ address: vault, abi: VAULT_ABI, functionName: 'setInvestRatio', args: [0n] });
+    await send({ address: vault, abi: VAULT_ABI, functionName: 'deposit', args: [amount] });
+    await send({ address: vault, abi: VAULT_ABI, functionName: 'setInvestRatio', args: [ratio] });
+    const idleBefore = (await observeVault(publicClient, vault)).totalIdleAssets;
+
+    const [investReport] = await keeperFor(false).runCycle();
+    const invest = investReport.actions.find((a) => a.action === 'invest');
+    assert.equal(invest?.result, 'sent', invest?.error);
+    const idleAfter = (await observeVault(publicClient, vault)).totalIdleAssets;
+    assert.ok(idleAfter < idleBefore, `idle assets should decrease (${idleBefore} -> ${idleAfter})`);
+    console.log('ok - invest sent when idle assets drift above the target');
+
+    // 4. 状态已达标且收益低于阈值时不再操作（Anvil 按真实时间出块，刚 harvest 后仍会有少量收益）
+    const [idleReport] = await keeperFor(false, '1000').runCycle();
+    assert.deepEqual(idleReport.actions, []);
+    console.log('ok - no actions when thresholds are not met');
+  } finally {
+    await testClient.revert({ id: snapshot });
+  }
+}
+
+main().catch((err) => {
+  console.error('not ok -', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
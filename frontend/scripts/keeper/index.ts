@@ -0,0 +1,104 @@
+/**
+ * Keeper 服务：定期检查 Vault，在满足阈值时自动 harvest / invest
+ *
+ * 用法:
+ *   npm run keeper -- --dry-run --once     # 只模拟一轮，不发送交易
+ *   KEEPER_PRIVATE_KEY=0x... npm run keeper
+ *
+ * 配置见 config.ts 中的 KEEPER_USAGE；Vault 地址来自与前端相同的 broadcast 清单 / 环境变量
+ */
+import { createPublicClient, createWalletClient, http, type Address } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { anvil, mainnet, sepolia } from 'viem/chains';
+import { VAULT_ABI } from '../../src/config/abis';
+import { loadDeploymentRegistry } from '../shared/deployments';
+import { KEEPER_USAGE, parseKeeperConfig } from './config';
+import { createKeeper } from './keeper';
+import { createLogger } from './log';
+import { createKeeperMetrics, serveMetrics } from './metrics';
+
+const CHAINS = [mainnet, sepolia, anvil];
+
+async function main() {
+  const argv = process.argv.slice(2);
+  if (argv.includes('--help')) {
+    console.log(KEEPER_USAGE);
+    return;
+  }
+
+  const config = parseKeeperConfig(process.env, argv);
+  const logger = createLogger(config.logLevel);
+
+  const probe = createPublicClient({ transport: http(config.rpcUrl) });
+  const chainId = await probe.getChainId();
+  const chain = CHAINS.find((c) => c.id === chainId);
+  const publicClient = createPublicClient({ chain, transport: http(config.rpcUrl) });
+
+  const deployment = loadDeploymentRegistry()[chainId];
+  const vaults = config.vaults.length > 0 ? config.vaults : (deployment?.vaults.map((v) => v.vault) ?? []);
+  if (vaults.length === 0) throw new Error(`No vaults configured or deployed on chain ${chainId}`);
+
+  const signer = config.privateKey ? privateKeyToAccount(config.privateKey) : undefined;
+  const walletClient = signer ? createWalletClient({ account: signer, chain, transport: http(config.rpcUrl) }) : undefined;
+  // dry-run 且未指定账户时，以第一个 Vault 的 owner 身份模拟
+  const account: Address =
+    signer?.address ??
+    config.account ??
+    (await publicClient.readContract({ address: vaults[0], abi: VAULT_ABI, functionName: 'owner' }));
+
+  // MinimalVault 的 harvest / invest 是 onlyOwner，keeper 账户不是 owner 时模拟会失败
+  for (const vault of vaults) {
+    const owner = await publicClient.readContract({ address: vault, abi: VAULT_ABI, functionName: 'owner' });
+    if (owner !== account) logger.warn('keeper account is not the vault owner; harvest/invest will revert', { vault, owner, account });
+  }
+
+  const metrics = createKeeperMetrics();
+  metrics.set('keeper_dry_run', config.dryRun ? 1 : 0);
+  const server = config.metricsPort > 0 && !config.once ? await serveMetrics(metrics, config.metricsPort) : undefined;
+
+  const keeper = createKeeper({ ...config, publicClient, walletClient, account, vaults, logger, metrics });
+  logger.info('keeper started', {
+    chainId,
+    account,
+    vaults,
+    dryRun: config.dryRun,
+    minProfit: config.minProfit,
+    maxHarvestInterval: config.maxHarvestInterval,
+    minIdleDriftBps: config.minIdleDriftBps,
+    metricsPort: server ? config.metricsPort : undefined,
+  });
+
+  if (config.once) {
+    const reports = await keeper.runCycle();
+    // 有失败时以非零退出码结束，便于 cron / CI 检测
+    process.exitCode = reports.some((r) => r.error || r.actions.some((a) => a.result === 'failed')) ? 1 : 0;
+    return;
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+  const stop = () => {
+    stopped = true;
+    clearTimeout(timer);
+    server?.close();
+    logger.info('keeper stopped');
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  const loop = async () => {
+    try {
+      await keeper.runCycle();
+    } catch (err) {
+      // RPC 暂时不可用等：记录后等待下一轮
+      logger.error('poll failed', { error: err instanceof Error ? err.message : String(err) });
+    }
+    if (!stopped) timer = setTimeout(loop, config.pollInterval * 1000);
+  };
+  await loop();
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,148 @@
+// keeper 核心：轮询 Vault / Strategy 状态，按阈值决定 harvest / invest，发送前先模拟
+import { parseUnits, type Address, type PublicClient, type WalletClient } from 'viem';
+import { VAULT_ABI, STRATEGY_ABI, MOCK_STRATEGY_ABI } from '../../src/config/abis';
+import { fetchTokenMetadata, type TokenMetadata } from '../../src/utils/tokens';
+import { decodeTxError } from '../../src/utils/txErrors';
+import { decideActions, idleDriftBps, type KeeperAction, type KeeperThresholds, type VaultObservation } from './decide';
+import type { Logger } from './log';
+import type { MetricsRegistry } from './metrics';
+
+export interface KeeperOptions {
+  publicClient: PublicClient;
+  /** dry-run 时可以省略 */
+  walletClient?: WalletClient;
+  /** 模拟与发送交易使用的账户 */
+  account: Address;
+  vaults: Address[];
+  /** 最小收益（完整资产单位的十进制字符串），按各 Vault 资产的 decimals 换算 */
+  minProfit: string;
+  maxHarvestInterval: number;
+  minIdleDriftBps: number;
+  dryRun: boolean;
+  logger: Logger;
+  metrics: MetricsRegistry;
+}
+
+export type ActionResult = 'sent' | 'simulated' | 'failed';
+
+export interface CycleReport {
+  vault: Address;
+  observation?: VaultObservation;
+  actions: { action: KeeperAction; reason: string; result: ActionResult; hash?: string; error?: string }[];
+  error?: string;
+}
+
+/** 读取一个 Vault 的当前状态（逐个 readContract，Anvil 默认没有 Multicall3） */
+export async function observeVault(client: PublicClient, vault: Address): Promise<VaultObservation> {
+  const contract = { address: vault, abi: VAULT_ABI } as const;
+  const [[strategy, strategyActive], totalAssets, totalIdleAssets, investRatioBps] = await Promise.all([
+    client.readContract({ ...contract, functionName: 'getStrategyInfo' }),
+    client.readContract({ ...contract, functionName: 'totalAssets' }),
+    client.readContract({ ...contract, functionName: 'totalIdleAssets' }),
+    client.readContract({ ...contract, functionName: 'investRatioBps' }),
+  ]);
+  if (!strategyActive) {
+    return { totalAssets, totalIdleAssets, investRatioBps, strategyActive, estimatedProfit: 0n, estimatedLoss: 0n };
+  }
+
+  const [[estimatedProfit, estimatedLoss], lastHarvestTime] = await Promise.all([
+    client.readContract({ address: strategy, abi: STRATEGY_ABI, functionName: 'estimatedProfit' }),
+    // lastHarvestTime 不是 BaseStrategy 的接口，只有 MockStrategy 等实现提供
+    client
+      .readContract({ address: strategy, abi: MOCK_STRATEGY_ABI, functionName: 'lastHarvestTime' })
+      .then((value) => Number(value))
+      .catch(() => undefined),
+  ]);
+  return { totalAssets, totalIdleAssets, investRatioBps, strategyActive, estimatedProfit, estimatedLoss, lastHarvestTime };
+}
+
+export function createKeeper(options: KeeperOptions) {
+  const { publicClient, walletClient, account, logger, metrics } = options;
+  const assets = new Map<Address, TokenMetadata>();
+
+  // 资产元数据不会变化，每个 Vault 只读取一次
+  const assetOf = async (vault: Address) => {
+    let token = assets.get(vault);
+    if (!token) {
+      const address = await publicClient.readContract({ address: vault, abi: VAULT_ABI, functionName: 'asset' });
+      token = await fetchTokenMetadata(publicClient, address);
+      assets.set(vault, token);
+    }
+    return token;
+  };
+
+  const execute = async (vault: Address, action: KeeperAction): Promise<{ result: ActionResult; hash?: string }> => {
+    const { request } = await publicClient.simulateContract({ account, address: vault, abi: VAULT_ABI, functionName: action });
+    if (options.dryRun || !walletClient) return { result: 'simulated' };
+
+    const hash = await walletClient.writeContract(request);
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') throw new Error(`Transaction ${hash} reverted`);
+    return { result: 'sent', hash };
+  };
+
+  const runVault = async (vault: Address, now: number): Promise<CycleReport> => {
+    const log = logger.child({ vault });
+    const report: CycleReport = { vault, actions: [] };
+
+    try {
+      const token = await assetOf(vault);
+      const thresholds: KeeperThresholds = {
+        minProfit: parseUnits(options.minProfit, token.decimals),
+        maxHarvestInterval: options.maxHarvestInterval,
+        minIdleDriftBps: options.minIdleDriftBps,
+      };
+      const observation = await observeVault(publicClient, vault);
+      report.observation = observation;
+
+      const drift = idleDriftBps(observation);
+      metrics.set('keeper_estimated_profit', Number(observation.estimatedProfit) / 10 ** token.decimals, { vault });
+      metrics.set('keeper_idle_drift_bps', drift, { vault });
+      if (observation.lastHarvestTime !== undefined) {
+        metrics.set('keeper_seconds_since_harvest', now - observation.lastHarvestTime, { vault });
+      }
+      log.debug('observed vault', { ...observation, idleDriftBps: drift, asset: token.symbol });
+
+      for (const { action, reason } of decideActions(observation, thresholds, now)) {
+        try {
+          const { result, hash } = await execute(vault, action);
+          metrics.inc('keeper_actions_total', { vault, action, result });
+          report.actions.push({ action, reason, result, hash });
+          log.info(result === 'sent' ? `${action} sent` : `${action} simulated (dry run)`, { action, reason, hash });
+        } catch (err) {
+          const error = decodeTxError(err);
+          metrics.inc('keeper_actions_total', { vault, action, result: 'failed' });
+          report.actions.push({ action, reason, result: 'failed', error });
+          log.error(`${action} failed`, { action, reason, error });
+        }
+      }
+    } catch (err) {
+      report.error = decodeTxError(err);
+      metrics.inc('keeper_poll_errors_total', { vault });
+      log.error('failed to observe vault', { error: report.error });
+    }
+    return report;
+  };
+
+  return {
+    /** 处理所有 Vault 一轮；单个 Vault 出错不影响其它 Vault */
+    async runCycle(): Promise<CycleReport[]> {
+      const block = await publicClient.getBlock();
+      const now = Number(block.timestamp);
+      const reports: CycleReport[] = [];
+      for (const vault of options.vaults) reports.push(await runVault(vault, now));
+
+      metrics.inc('keeper_polls_total');
+      metrics.set('keeper_last_poll_timestamp_seconds', Math.floor(Date.now() / 1000));
+      logger.info('poll complete', {
+        block: block.number,
+        vaults: reports.length,
+        actions: reports.reduce((sum, r) => sum + r.actions.length, 0),
+        errors: reports.filter((r) => r.error || r.actions.some((a) => a.result === 'failed')).length,
+      });
+      return reports;
+    },
+  };
+}
+
+export type Keeper = ReturnType<typeof createKeeper>;
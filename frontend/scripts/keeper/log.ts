@@ -0,0 +1,33 @@
+// 结构化日志：每行一个 JSON 对象，便于 jq / 日志系统解析；bigint 输出为字符串
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** 返回附带固定字段（如 vault 地址）的子 logger */
+  child(bindings: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export function createLogger(minLevel: LogLevel = 'info', bindings: LogFields = {}): Logger {
+  const write = (level: LogLevel, message: string, fields?: LogFields) => {
+    if (LEVELS[level] < LEVELS[minLevel]) return;
+    const line = JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...bindings, ...fields }, (_, value) =>
+      typeof value === 'bigint' ? value.toString() : value,
+    );
+    (level === 'error' || level === 'warn' ? process.stderr : process.stdout).write(`${line}\n`);
+  };
+
+  return {
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields),
+    child: (extra) => createLogger(minLevel, { ...bindings, ...extra }),
+  };
+}
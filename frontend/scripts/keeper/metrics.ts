@@ -0,0 +1,88 @@
+// Prometheus 文本格式的指标：计数器与仪表，通过 /metrics 暴露
+import { createServer, type Server } from 'node:http';
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  help: string;
+  type: 'counter' | 'gauge';
+  values: Map<string, { labels: Labels; value: number }>;
+}
+
+const labelKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort());
+
+export interface MetricsRegistry {
+  define(name: string, type: Metric['type'], help: string): void;
+  inc(name: string, labels?: Labels, amount?: number): void;
+  set(name: string, value: number, labels?: Labels): void;
+  render(): string;
+}
+
+export function createMetricsRegistry(): MetricsRegistry {
+  const metrics = new Map<string, Metric>();
+  const get = (name: string): Metric => {
+    const metric = metrics.get(name);
+    if (!metric) throw new Error(`Unknown metric: ${name}`);
+    return metric;
+  };
+
+  return {
+    define(name, type, help) {
+      if (!metrics.has(name)) metrics.set(name, { help, type, values: new Map() });
+    },
+    inc(name, labels = {}, amount = 1) {
+      const metric = get(name);
+      const key = labelKey(labels);
+      const current = metric.values.get(key)?.value ?? 0;
+      metric.values.set(key, { labels, value: current + amount });
+    },
+    set(name, value, labels = {}) {
+      get(name).values.set(labelKey(labels), { labels, value });
+    },
+    render() {
+      const lines: string[] = [];
+      for (const [name, metric] of metrics) {
+        lines.push(`# HELP ${name} ${metric.help}`, `# TYPE ${name} ${metric.type}`);
+        for (const { labels, value } of metric.values.values()) {
+          const entries = Object.entries(labels);
+          const suffix = entries.length > 0 ? `{${entries.map(([k, v]) => `${k}="${v.replace(/["\\]/g, '\\$&')}"`).join(',')}}` : '';
+          lines.push(`${name}${suffix} ${value}`);
+        }
+      }
+      return `${lines.join('\n')}\n`;
+    },
+  };
+}
+
+/** keeper 使用的指标 */
+export function createKeeperMetrics(): MetricsRegistry {
+  const metrics = createMetricsRegistry();
+  metrics.define('keeper_polls_total', 'counter', 'Completed polling cycles');
+  metrics.define('keeper_poll_errors_total', 'counter', 'Vaults that failed to be observed');
+  metrics.define('keeper_actions_total', 'counter', 'Harvest / invest attempts by result (sent, simulated, failed)');
+  metrics.define('keeper_last_poll_timestamp_seconds', 'gauge', 'Unix time of the last completed poll');
+  metrics.define('keeper_estimated_profit', 'gauge', 'Strategy estimated profit in asset units');
+  metrics.define('keeper_idle_drift_bps', 'gauge', 'Idle assets above the invest ratio target, in bps of total assets');
+  metrics.define('keeper_seconds_since_harvest', 'gauge', 'Seconds since the strategy was last harvested');
+  metrics.define('keeper_dry_run', 'gauge', '1 when the keeper only simulates transactions');
+  return metrics;
+}
+
+/** 启动 HTTP 服务：GET /metrics 返回指标，GET /healthz 用于存活检查 */
+export function serveMetrics(metrics: MetricsRegistry, port: number, host = '0.0.0.0'): Promise<Server> {
+  const server = createServer((req, res) => {
+    if (req.url === '/metrics') {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+      res.end(metrics.render());
+    } else if (req.url === '/healthz') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('ok\n');
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve(server));
+  });
+}
@@ -0,0 +1,28 @@
+// Node 脚本（keeper、CLI）读取部署注册表：与前端相同的 broadcast 清单 + 环境变量覆盖
+import { existsSync, readFileSync, readdirSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createDeploymentRegistry, type BroadcastManifest, type DeploymentRegistry } from '../../src/utils/deployments';
+
+const REPO_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '../../..');
+
+/** 读取 broadcast/<Script>.s.sol/<chainId>/run-latest.json（与前端 config/deployments.ts 的 glob 一致） */
+export function readBroadcastManifests(broadcastDir = join(REPO_ROOT, 'broadcast')): BroadcastManifest[] {
+  if (!existsSync(broadcastDir)) return [];
+  const manifests: BroadcastManifest[] = [];
+  for (const script of readdirSync(broadcastDir)) {
+    const scriptDir = join(broadcastDir, script);
+    for (const chain of readdirSync(scriptDir)) {
+      const file = join(scriptDir, chain, 'run-latest.json');
+      if (existsSync(file)) manifests.push(JSON.parse(readFileSync(file, 'utf8')) as BroadcastManifest);
+    }
+  }
+  return manifests;
+}
+
+/**
+ * Node 环境下的部署注册表；环境变量不带 VITE_ 前缀，如 VAULT_ADDRESS_HARDHAT
+ */
+export function loadDeploymentRegistry(env: Record<string, string | undefined> = process.env): DeploymentRegistry {
+  return createDeploymentRegistry(readBroadcastManifests(), env, '');
+}
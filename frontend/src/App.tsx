@@ -1,8 +1,10 @@
+import { BrowserRouter } from 'react-router';
 import { WagmiProvider } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { RainbowKitProvider } from '@rainbow-me/rainbowkit';
 import { config } from './config/wagmi';
 import Dashboard from './components/Dashboard';
+import TransactionProvider from './components/TransactionProvider';
 import '@rainbow-me/rainbowkit/styles.css';
 import './App.css';
 
@@ -13,9 +15,13 @@ function App() {
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider>
-          <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
-            <Dashboard />
-          </div>
+          <TransactionProvider>
+            <BrowserRouter>
+              <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+                <Dashboard />
+              </div>
+            </BrowserRouter>
+          </TransactionProvider>
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
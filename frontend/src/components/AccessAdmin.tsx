@@ -0,0 +1,419 @@
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { useAccount, usePublicClient, useWriteContract } from 'wagmi';
+import { isAddress, getAddress, type Address } from 'viem';
+import { ACCESS_CONTROL_ABI } from '../config/abis';
+import { useVault } from '../hooks/useVault';
+import { useAccessState } from '../hooks/useAccessState';
+import { useTransactionManager } from '../hooks/useTransactions';
+import { decodeTxError } from '../utils/txErrors';
+import { parseAddressList, chunkByGas } from '../utils/addressList';
+import { ROLE_LABELS, type Role } from '../utils/accessControl';
+import { Users, Upload, Loader2, AlertCircle, CheckCircle2, ShieldAlert, PauseCircle } from 'lucide-react';
+
+const shortAddress = (addr: string) => `${addr.slice(0, 6)}…${addr.slice(-4)}`;
+
+// 估算 gas 时使用的探测批次大小
+const GAS_PROBE_SIZE = 20;
+// 单笔交易最多使用区块 gas 上限的一半
+const BLOCK_GAS_SHARE = 2n;
+const READ_CHUNK_SIZE = 50;
+
+type EditableRole = Exclude<Role, 'owner'>;
+const ROLE_SETTERS = {
+  strategist: 'setStrategist',
+  guardian: 'setGuardian',
+  keeper: 'setKeeper',
+} as const satisfies Record<EditableRole, string>;
+
+type BatchPlan = { batches: Address[][]; skipped: number; status: boolean };
+type Progress = { sent: number; total: number } | undefined;
+type DangerAction = 'pause' | 'emergencyShutdown';
+const DANGER_PHRASES: Record<DangerAction, string> = { pause: 'PAUSE', emergencyShutdown: 'SHUTDOWN' };
+
+export default function AccessAdmin() {
+  const { address } = useAccount();
+  const addresses = useVault();
+  const accessControl = addresses.accessControl as `0x${string}`;
+  const contract = { address: accessControl, abi: ACCESS_CONTROL_ABI } as const;
+  const publicClient = usePublicClient();
+  const { writeContractAsync } = useWriteContract();
+
+  const { state, accountRoles } = useAccessState();
+  const { submit } = useTransactionManager();
+  const isOwner = accountRoles.includes('owner');
+  const isGuardian = accountRoles.includes('guardian');
+
+  const [roleInputs, setRoleInputs] = useState<Record<EditableRole, string>>({ strategist: '', guardian: '', keeper: '' });
+  const [listText, setListText] = useState('');
+  const [targetStatus, setTargetStatus] = useState(true);
+  const [plan, setPlan] = useState<BatchPlan>();
+  const [progress, setProgress] = useState<Progress>();
+  const [danger, setDanger] = useState<DangerAction>();
+  const [dangerInput, setDangerInput] = useState('');
+  const [busy, setBusy] = useState<string>();
+  const [error, setError] = useState<string>();
+  const [notice, setNotice] = useState<string>();
+
+  const parsed = useMemo(() => parseAddressList(listText), [listText]);
+
+  // 通过共享交易层发送并等待确认，统一处理 busy / error 状态
+  const send = async (label: string, action: () => Promise<`0x${string}`>) => {
+    setBusy(label);
+    setError(undefined);
+    setNotice(undefined);
+    const result = await submit(label, action);
+    setBusy(undefined);
+    if (result.status === 'failed') setError(result.error);
+    return result.status === 'confirmed';
+  };
+
+  const updateRole = async (role: EditableRole) => {
+    const value = roleInputs[role];
+    if (!isAddress(value)) {
+      setError(`Enter a valid ${ROLE_LABELS[role].toLowerCase()} address`);
+      return;
+    }
+    const ok = await send(`Set ${ROLE_LABELS[role]}`, () =>
+      writeContractAsync({ ...contract, functionName: ROLE_SETTERS[role], args: [getAddress(value)] }),
+    );
+    if (ok) {
+      setRoleInputs((prev) => ({ ...prev, [role]: '' }));
+      setNotice(`${ROLE_LABELS[role]} updated.`);
+    }
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setListText(await file.text());
+    setPlan(undefined);
+    e.target.value = '';
+  };
+
+  // 与链上状态去重，并根据 gas 估算切分批次
+  const prepareBatches = async () => {
+    if (!publicClient || !address || parsed.addresses.length === 0) return;
+    setBusy('Checking on-chain status');
+    setError(undefined);
+    setPlan(undefined);
+    try {
+      const statuses: boolean[] = [];
+      for (let i = 0; i < parsed.addresses.length; i += READ_CHUNK_SIZE) {
+        const chunk = parsed.addresses.slice(i, i + READ_CHUNK_SIZE);
+        statuses.push(
+          ...(await Promise.all(
+            chunk.map((user) => publicClient.readContract({ ...contract, functionName: 'whitelisted', args: [user] })),
+          )),
+        );
+      }
+      const pending = parsed.addresses.filter((_, i) => statuses[i] !== targetStatus);
+      if (pending.length === 0) {
+        setPlan({ batches: [], skipped: parsed.addresses.length, status: targetStatus });
+        return;
+      }
+
+      // 用 1 个和 N 个地址的两次估算推出单个地址的边际 gas
+      const estimate = (users: Address[]) =>
+        publicClient.estimateContractGas({
+          ...contract,
+          functionName: 'setWhitelistBatch',
+          args: [users, targetStatus],
+          account: address,
+        });
+      const probe = pending.slice(0, GAS_PROBE_SIZE);
+      const single = await estimate(probe.slice(0, 1));
+      const multi = probe.length > 1 ? await estimate(probe) : single;
+      const perItemGas = probe.length > 1 ? ((multi - single) * 12n) / (10n * BigInt(probe.length - 1)) : single;
+      const baseGas = single > perItemGas ? single - perItemGas : 0n;
+      const block = await publicClient.getBlock();
+
+      setPlan({
+        batches: chunkByGas(pending, { perItemGas, baseGas, gasBudget: block.gasLimit / BLOCK_GAS_SHARE }),
+        skipped: parsed.addresses.length - pending.length,
+        status: targetStatus,
+      });
+    } catch (err) {
+      setError(decodeTxError(err));
+    } finally {
+      setBusy(undefined);
+    }
+  };
+
+  const sendBatches = async () => {
+    if (!plan) return;
+    setProgress({ sent: 0, total: plan.batches.length });
+    for (const [i, batch] of plan.batches.entries()) {
+      const ok = await send(`Whitelist batch ${i + 1}/${plan.batches.length}`, () =>
+        writeContractAsync({ ...contract, functionName: 'setWhitelistBatch', args: [batch, plan.status] }),
+      );
+      if (!ok) return;
+      setProgress({ sent: i + 1, total: plan.batches.length });
+    }
+    setNotice(`Updated ${plan.batches.flat().length} addresses in ${plan.batches.length} transaction(s).`);
+    setPlan(undefined);
+    setListText('');
+  };
+
+  const confirmDanger = async () => {
+    if (!danger || dangerInput !== DANGER_PHRASES[danger]) return;
+    const ok = await send(danger === 'pause' ? 'Pause' : 'Emergency shutdown', () =>
+      writeContractAsync({ ...contract, functionName: danger }),
+    );
+    if (ok) {
+      setDanger(undefined);
+      setDangerInput('');
+    }
+  };
+
+  if (!state) {
+    return (
+      <div className="flex items-center justify-center py-16 text-gray-400">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        <span>Loading access control…</span>
+      </div>
+    );
+  }
+
+  const cardClass = 'rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6';
+  const inputClass =
+    'flex-1 bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-purple-500';
+  const secondaryButton =
+    'rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm px-4 py-2 transition-colors';
+
+  return (
+    <div className="space-y-6">
+      {/* Roles */}
+      <div className={cardClass}>
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-white">Roles</h2>
+          <div className="rounded-lg bg-purple-500/10 p-2">
+            <Users className="h-5 w-5 text-purple-400" />
+          </div>
+        </div>
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-400">Owner</span>
+            <span className="font-mono text-white">{shortAddress(state.roles.owner)}</span>
+          </div>
+          {(Object.keys(ROLE_SETTERS) as EditableRole[]).map((role) => (
+            <div key={role} className="grid gap-2 md:grid-cols-2 md:items-center">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-400">{ROLE_LABELS[role]}</span>
+                <span className="font-mono text-white">{shortAddress(state.roles[role])}</span>
+              </div>
+              {isOwner && (
+                <div className="flex space-x-2">
+                  <input
+                    value={roleInputs[role]}
+                    onChange={(e) => setRoleInputs((prev) => ({ ...prev, [role]: e.target.value.trim() }))}
+                    placeholder={`New ${ROLE_LABELS[role].toLowerCase()} (0x…)`}
+                    className={inputClass}
+                  />
+                  <button onClick={() => updateRole(role)} disabled={Boolean(busy) || !roleInputs[role]} className={secondaryButton}>
+                    Update
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+          <div className="flex items-center justify-between text-sm pt-3 border-t border-white/5">
+            <span className="text-gray-400">Public deposits</span>
+            <div className="flex items-center space-x-3">
+              <span className={state.publicDeposits ? 'text-green-400' : 'text-yellow-400'}>
+                {state.publicDeposits ? 'Enabled' : 'Whitelist only'}
+              </span>
+              {isOwner && (
+                <button
+                  onClick={() =>
+                    send('Toggle public deposits', () =>
+                      writeContractAsync({ ...contract, functionName: 'togglePublicDeposits', args: [!state.publicDeposits] }),
+                    )
+                  }
+                  disabled={Boolean(busy)}
+                  className={secondaryButton}
+                >
+                  {state.publicDeposits ? 'Disable' : 'Enable'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Whitelist */}
+      {isOwner && (
+        <div className={cardClass}>
+          <h2 className="text-xl font-bold text-white mb-4">Whitelist</h2>
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2 bg-black/20 p-1 rounded-lg w-fit">
+              {[true, false].map((status) => (
+                <button
+                  key={String(status)}
+                  onClick={() => {
+                    setTargetStatus(status);
+                    setPlan(undefined);
+                  }}
+                  className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                    targetStatus === status ? 'bg-purple-500 text-white' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {status ? 'Add to whitelist' : 'Remove from whitelist'}
+                </button>
+              ))}
+            </div>
+
+            <textarea
+              value={listText}
+              onChange={(e) => {
+                setListText(e.target.value);
+                setPlan(undefined);
+              }}
+              rows={6}
+              placeholder="Paste addresses or CSV rows (one address per line)"
+              className="w-full bg-black/20 border border-white/10 rounded-lg px-4 py-3 text-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+
+            <div className="flex flex-wrap items-center gap-3">
+              <label className={`${secondaryButton} flex items-center space-x-2 cursor-pointer`}>
+                <Upload className="h-4 w-4" />
+                <span>Upload CSV</span>
+                <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFile} className="hidden" />
+              </label>
+              <span className="text-sm text-gray-400">
+                {parsed.addresses.length} valid · {parsed.invalid.length} invalid · {parsed.duplicates} duplicates
+              </span>
+            </div>
+
+            {parsed.invalid.length > 0 && (
+              <ul className="text-xs text-red-400 space-y-1 max-h-32 overflow-y-auto">
+                {parsed.invalid.map((entry) => (
+                  <li key={`${entry.line}-${entry.value}`}>
+                    Line {entry.line}: <span className="font-mono">{entry.value}</span> — {entry.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex space-x-3">
+              <button
+                onClick={prepareBatches}
+                disabled={Boolean(busy) || parsed.addresses.length === 0}
+                className={secondaryButton}
+              >
+                Check &amp; plan batches
+              </button>
+              {plan && plan.batches.length > 0 && (
+                <button
+                  onClick={sendBatches}
+                  disabled={Boolean(busy)}
+                  className="rounded-lg bg-purple-500 hover:bg-purple-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm font-medium px-4 py-2 transition-colors"
+                >
+                  Send {plan.batches.length} transaction(s)
+                </button>
+              )}
+            </div>
+
+            {plan && (
+              <p className="text-sm text-gray-400">
+                {plan.skipped} already {plan.status ? 'whitelisted' : 'not whitelisted'} (skipped).{' '}
+                {plan.batches.length > 0
+                  ? `${plan.batches.flat().length} to update in batches of ${plan.batches.map((b) => b.length).join(', ')}.`
+                  : 'Nothing to update.'}
+              </p>
+            )}
+            {progress && (
+              <p className="text-sm text-gray-400">
+                Sent {progress.sent} of {progress.total} batches
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Emergency */}
+      {(isGuardian || isOwner) && (
+        <div className={`${cardClass} border-red-500/20`}>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold text-white">Emergency</h2>
+            <span className={`text-sm ${state.paused ? 'text-red-400' : 'text-green-400'}`}>
+              {state.shutdown ? 'Shutdown' : state.paused ? 'Paused' : 'Operational'}
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={() => setDanger('pause')}
+              disabled={Boolean(busy) || state.paused}
+              className="flex items-center space-x-2 rounded-lg bg-yellow-500 hover:bg-yellow-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm font-medium px-4 py-2 transition-colors"
+            >
+              <PauseCircle className="h-4 w-4" />
+              <span>Pause</span>
+            </button>
+            <button
+              onClick={() => setDanger('emergencyShutdown')}
+              disabled={Boolean(busy) || Boolean(state.shutdown)}
+              className="flex items-center space-x-2 rounded-lg bg-red-500 hover:bg-red-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm font-medium px-4 py-2 transition-colors"
+            >
+              <ShieldAlert className="h-4 w-4" />
+              <span>Emergency Shutdown</span>
+            </button>
+            {isOwner && state.paused && (
+              <button
+                onClick={() => send('Unpause', () => writeContractAsync({ ...contract, functionName: 'unpause' }))}
+                disabled={Boolean(busy)}
+                className={secondaryButton}
+              >
+                Unpause
+              </button>
+            )}
+          </div>
+
+          {danger && (
+            <div className="mt-4 rounded-lg border border-red-500/30 bg-red-500/5 p-4 space-y-3">
+              <p className="text-sm text-white">
+                Type <span className="font-mono font-bold">{DANGER_PHRASES[danger]}</span> to confirm.
+              </p>
+              <div className="flex space-x-2">
+                <input value={dangerInput} onChange={(e) => setDangerInput(e.target.value)} className={inputClass} />
+                <button
+                  onClick={confirmDanger}
+                  disabled={Boolean(busy) || dangerInput !== DANGER_PHRASES[danger]}
+                  className="rounded-lg bg-red-500 hover:bg-red-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm font-medium px-4 py-2 transition-colors"
+                >
+                  Confirm
+                </button>
+                <button
+                  onClick={() => {
+                    setDanger(undefined);
+                    setDangerInput('');
+                  }}
+                  className={secondaryButton}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {busy && (
+        <div className="flex items-center space-x-2 text-sm text-gray-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>{busy}…</span>
+        </div>
+      )}
+      {error && (
+        <div className="flex items-start space-x-2 text-sm text-red-400">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+      {notice && (
+        <div className="flex items-center space-x-2 text-sm text-green-400">
+          <CheckCircle2 className="h-4 w-4" />
+          <span>{notice}</span>
+        </div>
+      )}
+    </div>
+  );
+}
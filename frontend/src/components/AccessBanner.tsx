@@ -0,0 +1,28 @@
+import { ShieldAlert, PauseCircle } from 'lucide-react';
+import type { AccessState } from '../utils/accessControl';
+
+const shortAddress = (addr: string) => `${addr.slice(0, 6)}…${addr.slice(-4)}`;
+
+// Vault 暂停 / 紧急关闭时的提示条
+export default function AccessBanner({ state }: { state?: AccessState }) {
+  if (!state?.paused) return null;
+
+  if (state.shutdown) {
+    return (
+      <div className="mb-4 flex items-start space-x-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+        <ShieldAlert className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <p>
+          Emergency shutdown triggered by {shortAddress(state.shutdown.caller)} at block{' '}
+          {state.shutdown.blockNumber.toString()}. Deposits are disabled.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 flex items-start space-x-2 text-sm text-yellow-400 bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3">
+      <PauseCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+      <p>The vault is paused. Deposits are disabled until it is unpaused.</p>
+    </div>
+  );
+}
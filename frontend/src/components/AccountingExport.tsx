@@ -0,0 +1,220 @@
+import { useMemo, useState } from 'react';
+import { useAccount } from 'wagmi';
+import type { Address } from 'viem';
+import { useVault } from '../hooks/useVault';
+import { useVaultTokens } from '../hooks/useVaultTokens';
+import { useAccountingLedger } from '../hooks/useAccountingLedger';
+import { parseAddressList } from '../utils/addressList';
+import {
+  COST_METHOD_LABELS,
+  buildLedger,
+  inRange,
+  ledgerToCsv,
+  ledgerToJson,
+  summarizeLedger,
+  type CostMethod,
+  type DateRange,
+  type LedgerExport,
+} from '../utils/accountingLedger';
+import { decodeTxError } from '../utils/txErrors';
+import { FileSpreadsheet, FileJson, Loader2, AlertCircle, Receipt } from 'lucide-react';
+
+const shortAddress = (addr: string) => `${addr.slice(0, 6)}…${addr.slice(-4)}`;
+
+// <input type="date"> 的值按本地时区解释：开始日取当天 00:00，结束日取当天 23:59:59
+function toRange(from: string, to: string): DateRange {
+  const seconds = (value: string, endOfDay: boolean) => {
+    if (!value) return undefined;
+    const date = new Date(`${value}T00:00:00`);
+    if (endOfDay) date.setDate(date.getDate() + 1);
+    return Math.floor(date.getTime() / 1000) - (endOfDay ? 1 : 0);
+  };
+  return { from: seconds(from, false), to: seconds(to, true) };
+}
+
+function download(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const inputClass =
+  'w-full bg-black/20 border border-white/10 rounded-lg px-4 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500';
+const secondaryButton =
+  'rounded-lg bg-white/10 px-4 py-2 text-sm font-medium text-white hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+/**
+ * 会计导出：按账户生成 Deposit / Redeem / 转账台账，计算已实现收益并下载 CSV / JSON
+ */
+export default function AccountingExport() {
+  const { address } = useAccount();
+  const { vault, vaultToken, chainId } = useVault();
+  const { asset, share, formatAsset, formatShares } = useVaultTokens();
+
+  const [listText, setListText] = useState(address ?? '');
+  const [method, setMethod] = useState<CostMethod>('fifo');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  // 点击 Load 后才读取链上事件，编辑地址时不反复请求
+  const [accounts, setAccounts] = useState<Address[]>([]);
+
+  const parsed = useMemo(() => parseAddressList(listText), [listText]);
+  const range = useMemo(() => toRange(fromDate, toDate), [fromDate, toDate]);
+  const { data: events, isFetching, error } = useAccountingLedger({ vault, vaultToken, accounts });
+
+  const report: LedgerExport | undefined = useMemo(() => {
+    if (!events) return undefined;
+    const rows = buildLedger(events, method);
+    return {
+      vault,
+      chainId,
+      method,
+      range,
+      units: { assetSymbol: asset.symbol, assetDecimals: asset.decimals, shareDecimals: share.decimals },
+      rows,
+      summaries: summarizeLedger(rows, accounts, range),
+    };
+  }, [events, method, range, vault, chainId, asset, share, accounts]);
+
+  const rowCount = report ? report.rows.filter((row) => inRange(row.timestamp, range)).length : 0;
+  const rangeError = range.from !== undefined && range.to !== undefined && range.from > range.to ? 'Start date is after end date' : undefined;
+  const filename = `vault-ledger-${vault.slice(0, 8)}-${fromDate || 'start'}-${toDate || 'now'}-${method}`;
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-white">Accounting Export</h2>
+          <p className="text-sm text-gray-400">Per-account ledger of deposits, redemptions and share transfers with realized gains</p>
+        </div>
+        <div className="rounded-lg bg-purple-500/10 p-2">
+          <Receipt className="h-5 w-5 text-purple-400" />
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <label className="block text-sm text-gray-400">Accounts</label>
+          <textarea
+            value={listText}
+            onChange={(e) => setListText(e.target.value)}
+            rows={5}
+            placeholder="One address per line"
+            className={`${inputClass} font-mono`}
+          />
+          <p className="text-xs text-gray-500">
+            {parsed.addresses.length} valid · {parsed.invalid.length} invalid
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">From</label>
+              <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">To</label>
+              <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">Cost basis method</label>
+            <div className="flex space-x-1 bg-black/20 p-1 rounded-lg">
+              {(Object.keys(COST_METHOD_LABELS) as CostMethod[]).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => setMethod(m)}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                    method === m ? 'bg-purple-500 text-white' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {COST_METHOD_LABELS[m]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={() => setAccounts(parsed.addresses)}
+            disabled={parsed.addresses.length === 0 || isFetching}
+            className="w-full rounded-lg bg-gradient-to-r from-purple-500 to-pink-500 px-4 py-2 text-sm font-semibold text-white hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isFetching ? 'Loading events…' : 'Load ledger'}
+          </button>
+        </div>
+      </div>
+
+      {(error || rangeError) && (
+        <div className="flex items-start space-x-2 rounded-lg bg-red-500/10 p-3 text-sm text-red-300">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{rangeError ?? decodeTxError(error)}</span>
+        </div>
+      )}
+
+      {isFetching && !report && (
+        <div className="flex items-center space-x-2 text-sm text-gray-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>Reading Deposit, Redeem and Transfer events…</span>
+        </div>
+      )}
+
+      {report && (
+        <div className="space-y-4">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-white/10">
+                  <th className="py-2 pr-4 font-medium">Account</th>
+                  <th className="py-2 pr-4 font-medium text-right">Deposited</th>
+                  <th className="py-2 pr-4 font-medium text-right">Redeemed</th>
+                  <th className="py-2 pr-4 font-medium text-right">Realized gain</th>
+                  <th className="py-2 font-medium text-right">Closing shares</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.summaries.map((s) => (
+                  <tr key={s.account} className="border-b border-white/5 text-white">
+                    <td className="py-2 pr-4 font-mono">{shortAddress(s.account)}</td>
+                    <td className="py-2 pr-4 text-right">{formatAsset(s.deposited, 4)}</td>
+                    <td className="py-2 pr-4 text-right">{formatAsset(s.redeemed, 4)}</td>
+                    <td className={`py-2 pr-4 text-right ${s.realizedGain < 0n ? 'text-red-400' : 'text-green-400'}`}>
+                      {formatAsset(s.realizedGain, 4)}
+                    </td>
+                    <td className="py-2 text-right">{formatShares(s.closingShares, 4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => download(`${filename}.csv`, ledgerToCsv(report), 'text/csv')}
+              disabled={Boolean(rangeError)}
+              className={`${secondaryButton} flex items-center space-x-2`}
+            >
+              <FileSpreadsheet className="h-4 w-4" />
+              <span>Download CSV</span>
+            </button>
+            <button
+              onClick={() => download(`${filename}.json`, ledgerToJson(report), 'application/json')}
+              disabled={Boolean(rangeError)}
+              className={`${secondaryButton} flex items-center space-x-2`}
+            >
+              <FileJson className="h-4 w-4" />
+              <span>Download JSON</span>
+            </button>
+            <span className="text-sm text-gray-400">{rowCount} rows in range</span>
+          </div>
+          <p className="text-xs text-gray-500">
+            Cost basis is computed from each account's full history; the date range only limits which rows and gains are reported.
+            Share transfers move cost without realizing gains. This vault does not charge FeeManager withdrawal fees on redeem, so gains include no fee deduction.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { useCallback, useState } from 'react';
+import { useConfig } from 'wagmi';
+import type { Address } from 'viem';
+import { useAccessAlerts, useVaultAlerts, type PushAlert } from '../hooks/useVaultAlerts';
+import { explorerTxUrl } from '../utils/explorer';
+import type { Deployment, VaultDeployment } from '../utils/deployments';
+import {
+  addAlert,
+  loadAlertSettings,
+  loadAlerts,
+  saveAlertSettings,
+  saveAlerts,
+  shouldNotify,
+  type Alert,
+  type AlertSettings,
+  type AlertSeverity,
+} from '../utils/alerts';
+import { Bell, BellRing, Info, AlertTriangle, OctagonAlert, ExternalLink, Settings } from 'lucide-react';
+
+const SEVERITY_STYLES: Record<AlertSeverity, { icon: typeof Info; className: string }> = {
+  info: { icon: Info, className: 'text-blue-400' },
+  warning: { icon: AlertTriangle, className: 'text-yellow-400' },
+  critical: { icon: OctagonAlert, className: 'text-red-400' },
+};
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+const shortAddress = (addr: string) => `${addr.slice(0, 6)}…${addr.slice(-4)}`;
+
+const notificationsSupported = () => typeof Notification !== 'undefined';
+
+const inputClass =
+  'w-full bg-black/20 border border-white/10 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+// 每个 Vault 一个监听组件（hook 数量随 Vault 数量变化，不能放在同一个组件里循环调用）
+function VaultAlertWatcher({ vault, settings, push }: { vault: VaultDeployment; settings: AlertSettings; push: PushAlert }) {
+  useVaultAlerts(vault, settings, push);
+  return null;
+}
+
+function AccessAlertWatcher({ accessControl, push }: { accessControl: Address; push: PushAlert }) {
+  useAccessAlerts(accessControl, push);
+  return null;
+}
+
+function VaultAlertSettings({
+  vault,
+  settings,
+  onChange,
+}: {
+  vault: Address;
+  settings: AlertSettings;
+  onChange: (settings: AlertSettings) => void;
+}) {
+  const [permission, setPermission] = useState(() => (notificationsSupported() ? Notification.permission : 'denied'));
+
+  // 开启通知时才请求浏览器权限
+  const toggleNotifications = async (enabled: boolean) => {
+    if (enabled && notificationsSupported() && Notification.permission === 'default') {
+      setPermission(await Notification.requestPermission());
+    }
+    onChange({ ...settings, notifications: enabled });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg bg-white/5 p-3">
+      <p className="text-sm font-mono text-white">{shortAddress(vault)}</p>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block text-xs text-gray-400">
+          Min harvest loss (% of TVL)
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            value={settings.minLossBps / 100}
+            onChange={(e) => onChange({ ...settings, minLossBps: Math.max(0, Math.round(Number(e.target.value) * 100)) })}
+            className={`${inputClass} mt-1`}
+          />
+        </label>
+        <label className="block text-xs text-gray-400">
+          Share price drawdown (%)
+          <input
+            type="number"
+            min={0.01}
+            step={0.01}
+            value={settings.drawdownBps / 100}
+            onChange={(e) => onChange({ ...settings, drawdownBps: Math.max(1, Math.round(Number(e.target.value) * 100)) })}
+            className={`${inputClass} mt-1`}
+          />
+        </label>
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={settings.notifications}
+            disabled={!notificationsSupported()}
+            onChange={(e) => toggleNotifications(e.target.checked)}
+            className="accent-purple-500"
+          />
+          <span>Browser notifications</span>
+        </label>
+        <select
+          value={settings.notifyMinSeverity}
+          disabled={!settings.notifications}
+          onChange={(e) => onChange({ ...settings, notifyMinSeverity: e.target.value as AlertSeverity })}
+          className="bg-black/20 border border-white/10 rounded-lg px-2 py-1 text-xs text-white disabled:opacity-50"
+        >
+          <option value="info">All alerts</option>
+          <option value="warning">Warning and above</option>
+          <option value="critical">Critical only</option>
+        </select>
+      </div>
+      {settings.notifications && permission === 'denied' && (
+        <p className="text-xs text-red-400">Notifications are blocked by the browser for this site.</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Header 中的健康告警：监听当前链上所有 Vault，显示告警列表，并按 Vault 设置阈值与浏览器通知
+ * 告警按链保存在 localStorage，刷新页面后仍然保留
+ */
+export default function AlertCenter({ deployment }: { deployment: Deployment }) {
+  const { chainId, vaults, accessControl } = deployment;
+  const { chains } = useConfig();
+  const [open, setOpen] = useState(false);
+  const [view, setView] = useState<'feed' | 'settings'>('feed');
+
+  // localStorage 是唯一数据源，切换链时重新载入
+  const [store, setStore] = useState<{ chainId?: number; alerts: Alert[]; settings: Record<Address, AlertSettings> }>({
+    alerts: [],
+    settings: {},
+  });
+  if (store.chainId !== chainId) {
+    setStore({
+      chainId,
+      alerts: loadAlerts(chainId),
+      settings: Object.fromEntries(vaults.map(({ vault }) => [vault, loadAlertSettings(chainId, vault)])),
+    });
+  }
+  const { alerts, settings } = store;
+  const unread = alerts.filter((a) => !a.read).length;
+
+  const updateAlerts = useCallback(
+    (next: Alert[]) => {
+      saveAlerts(chainId, next);
+      setStore((s) => (s.chainId === chainId ? { ...s, alerts: next } : s));
+    },
+    [chainId],
+  );
+
+  const push = useCallback<PushAlert>(
+    (incoming) => {
+      const alert: Alert = { ...incoming, createdAt: Date.now(), read: false };
+      const current = loadAlerts(chainId);
+      const next = addAlert(current, alert);
+      if (next === current) return;
+      updateAlerts(next);
+
+      // AccessControl 的告警影响所有 Vault：任一 Vault 开启了对应级别的通知即发送
+      const targets = alert.vault ? [loadAlertSettings(chainId, alert.vault)] : vaults.map(({ vault }) => loadAlertSettings(chainId, vault));
+      if (notificationsSupported() && Notification.permission === 'granted' && targets.some((s) => shouldNotify(alert, s))) {
+        new Notification(alert.title, { body: alert.message, tag: alert.id });
+      }
+    },
+    [chainId, vaults, updateAlerts],
+  );
+
+  const updateSettings = (vault: Address, next: AlertSettings) => {
+    saveAlertSettings(chainId, vault, next);
+    setStore((s) => ({ ...s, settings: { ...s.settings, [vault]: next } }));
+  };
+
+  const toggle = () => {
+    // 关闭列表时把已显示的告警标记为已读
+    if (open && unread > 0) updateAlerts(alerts.map((a) => ({ ...a, read: true })));
+    setOpen((o) => !o);
+  };
+
+  return (
+    <div className="relative">
+      {vaults.map((vault) => (
+        <VaultAlertWatcher key={vault.vault} vault={vault} settings={settings[vault.vault]} push={push} />
+      ))}
+      <AccessAlertWatcher accessControl={accessControl} push={push} />
+
+      <button
+        onClick={toggle}
+        className="relative rounded-lg bg-white/5 p-2 text-gray-400 hover:text-white transition-colors"
+        title="Alerts"
+      >
+        {unread > 0 ? <BellRing className="h-5 w-5 text-yellow-400" /> : <Bell className="h-5 w-5" />}
+        {unread > 0 && <span className="absolute -top-1 -right-1 rounded-full bg-red-500 px-1.5 text-xs text-white">{unread}</span>}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-40 mt-2 w-96 rounded-xl border border-white/10 bg-slate-900/95 p-4 shadow-lg backdrop-blur-sm">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-semibold text-white">{view === 'feed' ? 'Vault Alerts' : 'Alert Settings'}</h3>
+            <div className="flex items-center space-x-3">
+              {view === 'feed' && alerts.length > 0 && (
+                <button onClick={() => updateAlerts([])} className="text-xs text-gray-400 hover:text-white">
+                  Clear
+                </button>
+              )}
+              <button
+                onClick={() => setView((v) => (v === 'feed' ? 'settings' : 'feed'))}
+                className={`text-gray-400 hover:text-white ${view === 'settings' ? 'text-purple-400' : ''}`}
+                title="Alert settings"
+              >
+                <Settings className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          {view === 'settings' ? (
+            <div className="max-h-96 space-y-2 overflow-y-auto">
+              {vaults.map(({ vault }) => (
+                <VaultAlertSettings
+                  key={vault}
+                  vault={vault}
+                  settings={settings[vault]}
+                  onChange={(next) => updateSettings(vault, next)}
+                />
+              ))}
+            </div>
+          ) : alerts.length === 0 ? (
+            <p className="text-sm text-gray-500">No alerts. Losses, pauses and strategy changes will show up here.</p>
+          ) : (
+            <ul className="max-h-96 space-y-2 overflow-y-auto">
+              {alerts.map((alert) => {
+                const { icon: Icon, className } = SEVERITY_STYLES[alert.severity];
+                const url = alert.txHash && explorerTxUrl(chains.find((c) => c.id === alert.chainId), alert.txHash);
+                return (
+                  <li key={alert.id} className={`flex items-start space-x-3 rounded-lg p-3 ${alert.read ? 'bg-white/5' : 'bg-white/10'}`}>
+                    <Icon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${className}`} />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm text-white truncate">{alert.title}</p>
+                        <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">{formatTime(alert.createdAt)}</span>
+                      </div>
+                      <p className="text-xs text-gray-400 mt-0.5 break-words">{alert.message}</p>
+                      {url && (
+                        <a
+                          href={url}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="mt-0.5 inline-flex items-center space-x-1 text-xs text-purple-400 hover:text-purple-300"
+                        >
+                          <span>View transaction</span>
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
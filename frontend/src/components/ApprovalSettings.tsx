@@ -0,0 +1,108 @@
+import type { ApprovalMethod } from '../hooks/useApprovalMethods';
+import type { AllowanceMode } from '../utils/depositFlow';
+import { formatAmount } from '../utils/format';
+import { UNLIMITED_ALLOWANCE_THRESHOLD } from '../utils/permit';
+import { Loader2 } from 'lucide-react';
+
+const METHOD_LABELS: Record<ApprovalMethod, { label: string; hint: string }> = {
+  batch: { label: 'One transaction', hint: 'Your wallet approves and deposits in a single batched confirmation.' },
+  permit: { label: 'Signature', hint: 'Sign a gasless permit for the exact amount, then deposit in one transaction.' },
+  approve: { label: 'Approve first', hint: 'Send an approval transaction, then the deposit.' },
+};
+
+interface ApprovalSettingsProps {
+  /** 需要授权时显示授权方式选择 */
+  needsApproval: boolean;
+  methods: ApprovalMethod[];
+  method: ApprovalMethod;
+  onMethodChange: (method: ApprovalMethod) => void;
+  allowanceMode: AllowanceMode;
+  onAllowanceModeChange: (mode: AllowanceMode) => void;
+  allowance?: bigint;
+  decimals: number;
+  symbol: string;
+  onRevoke: () => void;
+  isRevoking: boolean;
+}
+
+// 存款授权设置：授权方式、授权额度（精确 / 无限）以及撤销当前授权
+export default function ApprovalSettings({
+  needsApproval,
+  methods,
+  method,
+  onMethodChange,
+  allowanceMode,
+  onAllowanceModeChange,
+  allowance,
+  decimals,
+  symbol,
+  onRevoke,
+  isRevoking,
+}: ApprovalSettingsProps) {
+  const hasAllowance = allowance !== undefined && allowance > 0n;
+  if (!needsApproval && !hasAllowance) return null;
+
+  return (
+    <div className="rounded-lg bg-white/5 p-4 space-y-3 text-sm">
+      {needsApproval && (
+        <>
+          {methods.length > 1 && (
+            <div className="flex space-x-1 bg-black/20 p-1 rounded-md">
+              {methods.map((m) => (
+                <button
+                  key={m}
+                  onClick={() => onMethodChange(m)}
+                  className={`flex-1 px-3 py-1 rounded text-xs font-medium transition-all ${
+                    method === m ? 'bg-purple-500 text-white' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {METHOD_LABELS[m].label}
+                </button>
+              ))}
+            </div>
+          )}
+          <p className="text-xs text-gray-400">{METHOD_LABELS[method].hint}</p>
+
+          {/* permit 只签名本次存款的数量，无需选择额度 */}
+          {method !== 'permit' && (
+            <div className="flex items-center justify-between">
+              <span className="text-gray-400">Allowance</span>
+              <div className="flex space-x-1">
+                {(['exact', 'unlimited'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => onAllowanceModeChange(mode)}
+                    className={`px-2.5 py-1 rounded-md text-xs font-medium transition-all ${
+                      allowanceMode === mode ? 'bg-purple-500 text-white' : 'bg-black/20 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {mode === 'exact' ? 'Exact amount' : 'Unlimited'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {hasAllowance && (
+        <div className="flex items-center justify-between">
+          <span className="text-gray-400">
+            Vault allowance:{' '}
+            <span className="text-white">
+              {allowance >= UNLIMITED_ALLOWANCE_THRESHOLD ? 'Unlimited' : `${formatAmount(allowance, decimals, 4)} ${symbol}`}
+            </span>
+          </span>
+          <button
+            onClick={onRevoke}
+            disabled={isRevoking}
+            className="flex items-center space-x-1 text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+          >
+            {isRevoking && <Loader2 className="h-3 w-3 animate-spin" />}
+            <span>Revoke</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,21 @@
+import { Link, Navigate, Route, Routes } from 'react-router';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
-import { useAccount } from 'wagmi';
-import VaultStats from './VaultStats';
-import DepositWithdraw from './DepositWithdraw';
-import UserPosition from './UserPosition';
+import { useAccount, useChainId } from 'wagmi';
+import VaultList from './VaultList';
+import VaultPage from './VaultPage';
+import NotDeployed from './NotDeployed';
+import TransactionHistory from './TransactionHistory';
+import AlertCenter from './AlertCenter';
+import DevTools from './DevTools';
+import { getDeployment } from '../config/deployments';
+import { anvilChain } from '../config/wagmi';
+import { demoChain } from '../config/demo';
 import { Wallet, TrendingUp, Shield } from 'lucide-react';
 
 export default function Dashboard() {
   const { isConnected } = useAccount();
+  const chainId = useChainId();
+  const deployment = getDeployment(chainId);
 
   return (
     <div className="min-h-screen">
@@ -14,7 +23,7 @@ export default function Dashboard() {
       <header className="border-b border-white/10 bg-black/20 backdrop-blur-sm">
         <div className="container mx-auto px-4 py-4">
           <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-3">
+            <Link to="/" className="flex items-center space-x-3">
               <div className="rounded-lg bg-gradient-to-br from-purple-500 to-pink-500 p-2">
                 <TrendingUp className="h-6 w-6 text-white" />
               </div>
@@ -22,8 +31,12 @@ export default function Dashboard() {
                 <h1 className="text-2xl font-bold text-white">Yield Vault</h1>
                 <p className="text-sm text-gray-400">Maximize your DeFi returns</p>
               </div>
+            </Link>
+            <div className="flex items-center space-x-4">
+              {isConnected && deployment && <AlertCenter deployment={deployment} />}
+              {isConnected && <TransactionHistory />}
+              <ConnectButton />
             </div>
-            <ConnectButton />
           </div>
         </div>
       </header>
@@ -48,27 +61,20 @@ export default function Dashboard() {
               <span>Audited & Secure</span>
             </div>
           </div>
+        ) : !deployment ? (
+          <NotDeployed chainId={chainId} />
         ) : (
-          <div className="space-y-6">
-            {/* Vault Statistics */}
-            <VaultStats />
-
-            {/* Main Grid */}
-            <div className="grid gap-6 lg:grid-cols-3">
-              {/* Left Column - User Position */}
-              <div className="lg:col-span-1">
-                <UserPosition />
-              </div>
-
-              {/* Right Column - Deposit/Withdraw */}
-              <div className="lg:col-span-2">
-                <DepositWithdraw />
-              </div>
-            </div>
-          </div>
+          <Routes>
+            <Route index element={<VaultList deployment={deployment} />} />
+            <Route path="vault/:address/*" element={<VaultPage deployment={deployment} />} />
+            <Route path="*" element={<Navigate to="/" replace />} />
+          </Routes>
         )}
       </main>
 
+      {/* 本地 Anvil 会话与演示模式的开发工具 */}
+      {isConnected && deployment && (chainId === anvilChain.id || chainId === demoChain.id) && <DevTools deployment={deployment} />}
+
       {/* Footer */}
       <footer className="border-t border-white/10 bg-black/20 backdrop-blur-sm mt-12">
         <div className="container mx-auto px-4 py-6">
@@ -1,147 +1,379 @@
 import { useState } from 'react';
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt, useChainId } from 'wagmi';
-import { parseUnits, formatUnits } from 'viem';
-import { VAULT_ABI, ERC20_ABI } from '../config/abis';
-import { getContractAddresses } from '../config/wagmi';
-import { ArrowDownCircle, ArrowUpCircle, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { useAccount, useConfig, usePublicClient, useReadContract, useSendCalls, useSignTypedData, useWriteContract } from 'wagmi';
+import { waitForCallsStatus } from 'wagmi/actions';
+import { formatUnits, parseSignature, type Hash, type TransactionReceipt } from 'viem';
+import { VAULT_ABI, ERC20_ABI, ERC20_PERMIT_ABI, FEE_MANAGER_ABI } from '../config/abis';
+import { useVault } from '../hooks/useVault';
+import { useVaultSnapshot } from '../hooks/useVaultSnapshot';
+import { useAccessState } from '../hooks/useAccessState';
+import { useTransaction } from '../hooks/useTransactions';
+import { useApprovalMethods, type ApprovalMethod } from '../hooks/useApprovalMethods';
+import { useVaultTokens } from '../hooks/useVaultTokens';
+import { decodeTxError } from '../utils/txErrors';
+import { formatAmount } from '../utils/format';
+import { assetsPerShare } from '../utils/tokens';
+import { buildPermitTypedData, permitDeadline } from '../utils/permit';
+import { WITHDRAW_PERCENTS, parseAmountInput, sharesForAssets, sharesForPercent } from '../utils/withdrawMath';
+import {
+  approvalAmount,
+  approveAndDepositCalls,
+  needsApproval as needsApprovalFor,
+  realizedAssets,
+  realizedShares,
+  type AllowanceMode,
+} from '../utils/depositFlow';
+import {
+  SLIPPAGE_PRESETS_BPS,
+  checkSlippage,
+  deviationBps,
+  formatDeviation,
+  loadSlippageBps,
+  parseSlippagePercent,
+  saveSlippageBps,
+} from '../utils/slippage';
+import AccessBanner from './AccessBanner';
+import ApprovalSettings from './ApprovalSettings';
+import { ArrowDownCircle, ArrowUpCircle, Loader2, CheckCircle2, AlertCircle, Settings2 } from 'lucide-react';
 
 type Tab = 'deposit' | 'withdraw';
+// 提款输入的计价单位：资产数量或 shares 数量
+type WithdrawMode = 'assets' | 'shares';
+
+// 成交后根据 Deposit / Redeem 事件得到的实际数量
+interface Realized {
+  kind: Tab;
+  expected: bigint;
+  actual: bigint;
+  decimals: number;
+  symbol: string;
+}
+
+// 发送前准备好的存款：模拟（或重新预览）得到的 shares 与实际发送函数
+interface PreparedDeposit {
+  simulated: bigint;
+  write: () => Promise<Hash>;
+}
+
+// 批量调用最长等待时间（钱包打包 + 上链）
+const BATCH_TIMEOUT = 5 * 60_000;
 
 export default function DepositWithdraw() {
   const [activeTab, setActiveTab] = useState<Tab>('deposit');
   const [amount, setAmount] = useState('');
-  const [isApproving, setIsApproving] = useState(false);
+  const [withdrawMode, setWithdrawMode] = useState<WithdrawMode>('assets');
+  // 通过百分比按钮选择时记录百分比，100% 时赎回全部 shares
+  const [percent, setPercent] = useState<number>();
+  const [slippageBps, setSlippageBps] = useState(loadSlippageBps);
+  const [slippageInput, setSlippageInput] = useState('');
+  const [showSlippage, setShowSlippage] = useState(false);
+  // 发送前的准备阶段（签名 permit / 重新模拟），值为按钮上显示的文字
+  const [preparing, setPreparing] = useState<string>();
+  const [approvalChoice, setApprovalChoice] = useState<ApprovalMethod>();
+  const [allowanceMode, setAllowanceMode] = useState<AllowanceMode>('exact');
+  const [guardError, setGuardError] = useState<string>();
+  const [realized, setRealized] = useState<Realized>();
 
   const { address } = useAccount();
-  const chainId = useChainId();
-  const addresses = getContractAddresses(chainId);
-
-  // 检查合约地址是否为占位符或未设置
-  const isPlaceholderAddress = (addr?: string) => {
-    if (!addr) return true;
-    const a = addr.toLowerCase();
-    return a === '0x...' || a === '0x0' || /^0x0+$/.test(a);
-  };
-  // Read contracts
-  const { data: assetBalance } = useReadContract({
-    address: addresses.asset as `0x${string}`,
-    abi: ERC20_ABI,
-    functionName: 'balanceOf',
-    args: address ? [address] : undefined,
-  });
+  const config = useConfig();
+  const publicClient = usePublicClient();
+  const addresses = useVault();
+  const { methods: approvalMethods, permitDomain } = useApprovalMethods(addresses.asset, addresses.vault);
+  const approvalMethod = approvalChoice && approvalMethods.includes(approvalChoice) ? approvalChoice : approvalMethods[0];
 
-  // 动态读取 asset 和 share 的 decimals（修复不同 token decimals 导致的 amount 编码错误）
-  const { data: assetDecimalsRaw } = useReadContract({
-    address: addresses.asset as `0x${string}`,
-    abi: ERC20_ABI,
-    functionName: 'decimals',
-  });
+  // 访问控制：暂停 / 白名单
+  const { state: accessState, depositBlockedReason } = useAccessState();
+  const depositBlocked = activeTab === 'deposit' && Boolean(depositBlockedReason);
 
-  const { data: shareDecimalsRaw } = useReadContract({
-    address: addresses.vaultToken as `0x${string}`,
-    abi: ERC20_ABI,
-    functionName: 'decimals',
-  });
+  // 余额、share 价格与授权额度来自同一区块的 Vault 快照
+  const { data: snapshot } = useVaultSnapshot();
+  const assetBalance = snapshot?.account?.assetBalance;
+  const shareBalance = snapshot?.account?.shareBalance;
+  const sharePrice = snapshot?.sharePrice;
+  const userAssets = snapshot?.account?.assetsValue;
+  const allowance = snapshot?.account?.allowance;
 
-  const assetDecimals = assetDecimalsRaw ? Number(assetDecimalsRaw as any) : 18;
-  const shareDecimals = shareDecimalsRaw ? Number(shareDecimalsRaw as any) : 18;
+  // 资产与 share 的 symbol / decimals（共享的代币元数据层）
+  const { asset: assetToken, share: shareToken, formatAsset, formatShares } = useVaultTokens();
+  const assetDecimals = assetToken.decimals;
+  const shareDecimals = shareToken.decimals;
+  const assetSymbol = assetToken.symbol;
+  const shareSymbol = shareToken.symbol;
 
-  const { data: shareBalance } = useReadContract({
-    address: addresses.vaultToken as `0x${string}`,
-    abi: ERC20_ABI,
-    functionName: 'balanceOf',
-    args: address ? [address] : undefined,
-  });
+  // 解析输入（不会抛出异常）：存款按资产数量；提款按资产数量 / shares 数量 / 百分比换算成 shares
+  const depositParsed = parseAmountInput(amount, assetDecimals, assetBalance);
+  const depositAssets = depositParsed.value;
 
-  const { data: allowance } = useReadContract({
-    address: addresses.asset as `0x${string}`,
-    abi: ERC20_ABI,
-    functionName: 'allowance',
-    args: address ? [address, addresses.vault] : undefined,
-  });
+  const withdrawParsed = percent !== undefined
+    ? {}
+    : withdrawMode === 'assets'
+      ? parseAmountInput(amount, assetDecimals, userAssets)
+      : parseAmountInput(amount, shareDecimals, shareBalance);
+  const redeemShares = (() => {
+    if (shareBalance === undefined) return undefined;
+    if (percent !== undefined) return sharesForPercent(shareBalance, percent);
+    if (withdrawParsed.value === undefined) return undefined;
+    if (withdrawMode === 'shares') return withdrawParsed.value;
+    return sharePrice !== undefined ? sharesForAssets(withdrawParsed.value, sharePrice, shareBalance) : undefined;
+  })();
+
+  const inputError = activeTab === 'deposit' ? depositParsed.error : withdrawParsed.error;
+  const actionAmount = activeTab === 'deposit' ? depositAssets : redeemShares;
 
   const { data: previewShares } = useReadContract({
     address: addresses.vault as `0x${string}`,
     abi: VAULT_ABI,
     functionName: 'previewDeposit',
-    args: amount ? [parseUnits(amount, assetDecimals)] : undefined,
+    args: depositAssets !== undefined ? [depositAssets] : undefined,
   });
 
   const { data: previewAssets } = useReadContract({
     address: addresses.vault as `0x${string}`,
     abi: VAULT_ABI,
     functionName: 'previewRedeem',
-    args: amount ? [parseUnits(amount, shareDecimals)] : undefined,
-  });
-
-  // Write contracts
-  const { writeContract: approve, data: approveHash } = useWriteContract();
-  const { writeContract: deposit, data: depositHash } = useWriteContract();
-  const { writeContract: withdraw, data: withdrawHash } = useWriteContract();
-
-  // Wait for transactions
-  const { isLoading: isApproveLoading, isSuccess: isApproveSuccess } = useWaitForTransactionReceipt({
-    hash: approveHash,
+    args: redeemShares !== undefined ? [redeemShares] : undefined,
   });
 
-  const { isLoading: isDepositLoading, isSuccess: isDepositSuccess } = useWaitForTransactionReceipt({
-    hash: depositHash,
+  // FeeManager 配置的提款手续费：MinimalVault.redeem 不调用 FeeManager，赎回时按 previewRedeem 全额转出，只作参考显示
+  const { data: withdrawalFee } = useReadContract({
+    address: addresses.feeManager as `0x${string}`,
+    abi: FEE_MANAGER_ABI,
+    functionName: 'calculateWithdrawalFee',
+    args: previewAssets !== undefined ? [previewAssets] : undefined,
+    query: { enabled: activeTab === 'withdraw' && previewAssets !== undefined },
   });
 
-  const { isLoading: isWithdrawLoading, isSuccess: isWithdrawSuccess } = useWaitForTransactionReceipt({
-    hash: withdrawHash,
-  });
+  // Write contracts（发送、确认与错误提示由共享的交易层处理）
+  const { writeContractAsync } = useWriteContract();
+  const { signTypedDataAsync } = useSignTypedData();
+  const { sendCallsAsync } = useSendCalls();
+  const approveTx = useTransaction();
+  const revokeTx = useTransaction();
+  const depositTx = useTransaction();
+  const withdrawTx = useTransaction();
+  const actionTx = activeTab === 'deposit' ? depositTx : withdrawTx;
 
   // Handlers
-  const handleApprove = async () => {
-    if (!amount) return;
-    setIsApproving(true);
-    try {
-      approve({
+  const handleApprove = () => {
+    if (depositAssets === undefined) return;
+    const label = allowanceMode === 'unlimited' ? `unlimited ${assetSymbol}` : formatAsset(depositAssets, 4);
+    approveTx.send(`Approve ${label}`, () =>
+      writeContractAsync({
         address: addresses.asset as `0x${string}`,
         abi: ERC20_ABI,
         functionName: 'approve',
-        args: [addresses.vault, parseUnits(amount, assetDecimals)],
-      });
-    } finally {
-      setIsApproving(false);
-    }
+        args: [addresses.vault, approvalAmount(depositAssets, allowanceMode)],
+      }),
+    );
+  };
+
+  const handleRevoke = () => {
+    revokeTx.send(`Revoke ${assetSymbol} allowance`, () =>
+      writeContractAsync({
+        address: addresses.asset,
+        abi: ERC20_ABI,
+        functionName: 'approve',
+        args: [addresses.vault, 0n],
+      }),
+    );
+  };
+
+  const selectWithdrawMode = (mode: WithdrawMode) => {
+    setWithdrawMode(mode);
+    setAmount('');
+    setPercent(undefined);
   };
 
-  const handleDeposit = () => {
-    if (!amount) return;
-    deposit({
-      address: addresses.vault as `0x${string}`,
+  // 百分比按钮：输入框显示对应数量，实际赎回的 shares 由 percent 决定
+  const selectPercent = (p: number) => {
+    if (shareBalance === undefined) return;
+    const shares = sharesForPercent(shareBalance, p);
+    setPercent(p);
+    setGuardError(undefined);
+    if (withdrawMode === 'shares') setAmount(formatUnits(shares, shareDecimals));
+    else setAmount(userAssets !== undefined ? formatUnits((userAssets * shares) / (shareBalance || 1n), assetDecimals) : '');
+  };
+
+  const updateSlippage = (bps: number) => {
+    setSlippageBps(bps);
+    saveSlippageBps(bps);
+  };
+
+  const slippageParsed = slippageInput ? parseSlippagePercent(slippageInput) : {};
+
+  // 发送前的滑点检查失败时给出的说明
+  const describeGuard = (expected: bigint, simulated: bigint, decimals: number, symbol: string) => {
+    const check = checkSlippage(expected, simulated, slippageBps);
+    if (check.ok) return undefined;
+    return `Price moved since your preview: you would now receive ${formatAmount(simulated, decimals, 4)} ${symbol} instead of ${formatAmount(expected, decimals, 4)} ${symbol} (${formatDeviation(check.deviationBps)}), which exceeds your ${slippageBps / 100}% tolerance. Review the updated preview and try again.`;
+  };
+
+  // 从回执中读取本账户的 Deposit / Redeem 事件，得到实际成交数量
+  const realizedAmount = (receipt: TransactionReceipt, kind: Tab) =>
+    kind === 'deposit' ? realizedShares(receipt, address!) : realizedAssets(receipt, address!);
+
+  // 已有足够授权：直接模拟 deposit
+  const prepareDeposit = async (assets: bigint): Promise<PreparedDeposit> => {
+    const { result, request } = await publicClient!.simulateContract({
+      address: addresses.vault,
       abi: VAULT_ABI,
       functionName: 'deposit',
-      args: [parseUnits(amount, assetDecimals)],
+      args: [assets],
+      account: address,
+    });
+    return { simulated: result, write: () => writeContractAsync(request) };
+  };
+
+  // permit：先签名（不消耗 gas），再模拟 depositWithPermit（同时校验签名）
+  const preparePermitDeposit = async (assets: bigint): Promise<PreparedDeposit> => {
+    setPreparing('Sign permit in wallet...');
+    const nonce = await publicClient!.readContract({ address: addresses.asset, abi: ERC20_PERMIT_ABI, functionName: 'nonces', args: [address!] });
+    const deadline = permitDeadline();
+    const signature = await signTypedDataAsync(
+      buildPermitTypedData(permitDomain!, { owner: address!, spender: addresses.vault, value: assets, nonce, deadline }),
+    );
+    const { r, s, v, yParity } = parseSignature(signature);
+
+    setPreparing('Checking price...');
+    const { result, request } = await publicClient!.simulateContract({
+      address: addresses.vault,
+      abi: VAULT_ABI,
+      functionName: 'depositWithPermit',
+      args: [assets, deadline, Number(v ?? BigInt(yParity + 27)), r, s],
+      account: address,
     });
+    return { simulated: result, write: () => writeContractAsync(request) };
   };
 
-  const handleWithdraw = () => {
-    if (!amount) return;
-    withdraw({
-      address: addresses.vault as `0x${string}`,
+  // EIP-5792：approve + deposit 打包发送，由钱包保证原子执行
+  const prepareBatchDeposit = async (assets: bigint): Promise<PreparedDeposit> => {
+    const calls = approveAndDepositCalls(addresses.asset, addresses.vault, assets, allowanceMode);
+
+    // eth_simulateV1 不是所有 RPC 都支持；不支持时按最新区块重新读取 previewDeposit，同样参与滑点检查
+    let simulated: bigint | undefined;
+    try {
+      const { results } = await publicClient!.simulateCalls({ account: address, calls });
+      const failed = results.find((r) => r.status === 'failure');
+      if (failed) throw failed.error;
+      simulated = results[1].result;
+    } catch (err) {
+      if (!(err instanceof Error && /eth_simulateV1|method not found|not supported/i.test(err.message))) throw err;
+    }
+    simulated ??= await publicClient!.readContract({
+      address: addresses.vault,
       abi: VAULT_ABI,
-      functionName: 'redeem',
-      args: [parseUnits(amount, shareDecimals)],
+      functionName: 'previewDeposit',
+      args: [assets],
     });
+
+    const write = async () => {
+      const { id } = await sendCallsAsync({ calls, forceAtomic: true });
+      const status = await waitForCallsStatus(config, { id, timeout: BATCH_TIMEOUT });
+      const receipt = status.receipts?.at(-1);
+      if (status.status !== 'success' || !receipt) throw new Error('The batched approve and deposit did not complete.');
+      return receipt.transactionHash;
+    };
+    return { simulated, write };
+  };
+
+  const handleDeposit = async () => {
+    // 以用户看到的预览作为预期值
+    const expected = previewShares;
+    const assets = depositAssets;
+    if (assets === undefined || !publicClient || !address || expected === undefined) return;
+    setGuardError(undefined);
+    setRealized(undefined);
+
+    // 发送前重新模拟，防止预览与执行之间 share price 被操纵（三明治攻击）
+    setPreparing('Checking price...');
+    let prepared: PreparedDeposit;
+    try {
+      prepared = !needsApproval
+        ? await prepareDeposit(assets)
+        : approvalMethod === 'batch'
+          ? await prepareBatchDeposit(assets)
+          : await preparePermitDeposit(assets);
+      const blocked = describeGuard(expected, prepared.simulated, shareDecimals, shareSymbol);
+      if (blocked) {
+        setGuardError(blocked);
+        return;
+      }
+    } catch (err) {
+      setGuardError(decodeTxError(err));
+      return;
+    } finally {
+      setPreparing(undefined);
+    }
+
+    const title = needsApproval && approvalMethod === 'batch' ? 'Approve and deposit' : 'Deposit';
+    const result = await depositTx.send(`${title} ${formatAsset(assets, 4)}`, prepared.write);
+    if (result.status === 'confirmed') {
+      const actual = realizedAmount(result.receipt, 'deposit');
+      if (actual !== undefined) setRealized({ kind: 'deposit', expected, actual, decimals: shareDecimals, symbol: shareSymbol });
+      setAmount('');
+      setPercent(undefined);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    const expected = previewAssets;
+    const shares = redeemShares;
+    if (shares === undefined || !publicClient || !address || expected === undefined) return;
+    setGuardError(undefined);
+    setRealized(undefined);
+
+    setPreparing('Checking price...');
+    let request;
+    try {
+      const simulation = await publicClient.simulateContract({
+        address: addresses.vault,
+        abi: VAULT_ABI,
+        functionName: 'redeem',
+        args: [shares],
+        account: address,
+      });
+      const blocked = describeGuard(expected, simulation.result, assetDecimals, assetSymbol);
+      if (blocked) {
+        setGuardError(blocked);
+        return;
+      }
+      request = simulation.request;
+    } catch (err) {
+      setGuardError(decodeTxError(err));
+      return;
+    } finally {
+      setPreparing(undefined);
+    }
+
+    const result = await withdrawTx.send(`Withdraw ${formatShares(shares, 4)}`, () => writeContractAsync(request));
+    if (result.status === 'confirmed') {
+      const actual = realizedAmount(result.receipt, 'withdraw');
+      if (actual !== undefined) setRealized({ kind: 'withdraw', expected, actual, decimals: assetDecimals, symbol: assetSymbol });
+      setAmount('');
+      setPercent(undefined);
+    }
   };
 
-  const needsApproval = activeTab === 'deposit' && amount && (allowance !== undefined && allowance !== null)
-    ? parseUnits(amount, assetDecimals) > (allowance as bigint)
-    : false;
+  const needsApproval = activeTab === 'deposit' && needsApprovalFor(depositAssets, allowance);
 
   const maxBalance = activeTab === 'deposit'
     ? assetBalance ? formatUnits(assetBalance, assetDecimals) : '0'
-    : shareBalance ? formatUnits(shareBalance, shareDecimals) : '0';
+    : withdrawMode === 'assets'
+      ? userAssets ? formatUnits(userAssets, assetDecimals) : '0'
+      : shareBalance ? formatUnits(shareBalance, shareDecimals) : '0';
+
+  const switchTab = (tab: Tab) => {
+    setActiveTab(tab);
+    setAmount('');
+    setPercent(undefined);
+    setGuardError(undefined);
+  };
 
   return (
     <div className="rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6">
       {/* Tab Switcher */}
       <div className="flex space-x-2 mb-6 bg-black/20 p-1 rounded-lg">
         <button
-          onClick={() => setActiveTab('deposit')}
+          onClick={() => switchTab('deposit')}
           className={`flex-1 flex items-center justify-center space-x-2 py-3 px-4 rounded-lg font-medium transition-all ${
             activeTab === 'deposit'
               ? 'bg-purple-500 text-white'
@@ -152,7 +384,7 @@ export default function DepositWithdraw() {
           <span>Deposit</span>
         </button>
         <button
-          onClick={() => setActiveTab('withdraw')}
+          onClick={() => switchTab('withdraw')}
           className={`flex-1 flex items-center justify-center space-x-2 py-3 px-4 rounded-lg font-medium transition-all ${
             activeTab === 'withdraw'
               ? 'bg-purple-500 text-white'
@@ -164,110 +396,286 @@ export default function DepositWithdraw() {
         </button>
       </div>
 
-      {/* 配置警告：当合约地址为占位符时显示 */}
-      {(isPlaceholderAddress(addresses.vault) || isPlaceholderAddress(addresses.vaultToken) || isPlaceholderAddress(addresses.asset)) && (
-        <div className="mb-4 flex items-start space-x-2 text-sm text-yellow-400 bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3">
-          <AlertCircle className="h-4 w-4 text-yellow-400 mt-0.5 flex-shrink-0" />
-          <p>
-            合约地址未正确配置。请在 `frontend/.env` 中设置 `VITE_VAULT_ADDRESS_SEPOLIA`、
-            `VITE_VAULT_TOKEN_ADDRESS_SEPOLIA` 和 `VITE_ASSET_ADDRESS_SEPOLIA`，然后重启前端，或切换到本地网络进行测试。
-          </p>
-        </div>
-      )}
+      <AccessBanner state={accessState} />
 
       {/* Input Section */}
       <div className="space-y-4">
         <div>
           <div className="flex items-center justify-between mb-2">
             <label className="text-sm text-gray-400">
-              {activeTab === 'deposit' ? 'Deposit Amount' : 'Withdraw Shares'}
+              {activeTab === 'deposit' ? 'Deposit Amount' : withdrawMode === 'assets' ? 'Withdraw Amount' : 'Withdraw Shares'}
             </label>
             <button
-              onClick={() => setAmount(maxBalance)}
+              onClick={() => (activeTab === 'deposit' ? setAmount(maxBalance) : selectPercent(100))}
               className="text-sm text-purple-400 hover:text-purple-300"
             >
               Max: {Number(maxBalance).toFixed(4)}
             </button>
           </div>
+          {activeTab === 'withdraw' && (
+            <div className="flex items-center justify-between mb-2">
+              {/* 提款计价方式：按资产数量或按 shares 数量 */}
+              <div className="flex space-x-1 bg-black/20 p-1 rounded-md">
+                {(['assets', 'shares'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => selectWithdrawMode(mode)}
+                    className={`px-3 py-1 rounded text-xs font-medium transition-all ${
+                      withdrawMode === mode ? 'bg-purple-500 text-white' : 'text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {mode === 'assets' ? assetSymbol || 'Assets' : 'Shares'}
+                  </button>
+                ))}
+              </div>
+              <div className="flex space-x-1">
+                {WITHDRAW_PERCENTS.map((p) => (
+                  <button
+                    key={p}
+                    onClick={() => selectPercent(p)}
+                    disabled={!shareBalance}
+                    className={`px-2.5 py-1 rounded-md text-xs font-medium transition-all disabled:opacity-50 ${
+                      percent === p ? 'bg-purple-500 text-white' : 'bg-black/20 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {p}%
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
           <div className="relative">
             <input
               type="number"
               value={amount}
-              onChange={(e) => setAmount(e.target.value)}
+              onChange={(e) => {
+                setAmount(e.target.value);
+                setPercent(undefined);
+                setGuardError(undefined);
+              }}
               placeholder="0.00"
               className="w-full bg-black/20 border border-white/10 rounded-lg px-4 py-4 text-white text-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
             />
             <div className="absolute right-4 top-1/2 -translate-y-1/2">
               <span className="text-gray-400 text-sm">
-                {activeTab === 'deposit' ? 'USDC' : 'vUSDC'}
+                {activeTab === 'deposit' || withdrawMode === 'assets' ? assetSymbol : shareSymbol}
               </span>
             </div>
           </div>
+          {inputError && <p className="mt-2 text-xs text-red-400">{inputError}</p>}
         </div>
 
         {/* Preview */}
-        {amount && (
+        {actionAmount !== undefined && (
           <div className="rounded-lg bg-white/5 p-4 space-y-2">
             <div className="flex items-center justify-between text-sm">
               <span className="text-gray-400">You will receive</span>
               <span className="text-white font-medium">
                 {activeTab === 'deposit'
-                  ? `${previewShares ? formatUnits(previewShares, shareDecimals) : '0'} vUSDC`
-                    : `${previewAssets ? formatUnits(previewAssets, assetDecimals) : '0'} USDC`}
+                  ? formatShares(previewShares ?? 0n, 4)
+                  : formatAsset(previewAssets ?? 0n, 4)}
               </span>
             </div>
+            {activeTab === 'withdraw' && (
+              <>
+                {withdrawMode === 'assets' && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-400">Shares to Redeem</span>
+                    <span className="text-white font-medium">{formatShares(actionAmount, 6)}</span>
+                  </div>
+                )}
+                {withdrawalFee !== undefined && withdrawalFee > 0n && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-400" title="FeeManager has a withdrawal fee configured, but this vault does not deduct it on redeem">
+                      Withdrawal Fee (not charged)
+                    </span>
+                    <span className="text-gray-500">{formatAsset(withdrawalFee, 4)}</span>
+                  </div>
+                )}
+              </>
+            )}
             <div className="flex items-center justify-between text-sm">
               <span className="text-gray-400">Exchange Rate</span>
-              <span className="text-white font-medium">1 vUSDC = 1.0234 USDC</span>
+              <span className="text-white font-medium">
+                1 {shareSymbol} = {sharePrice !== undefined ? formatAsset(assetsPerShare(sharePrice, shareDecimals), 4) : '-'}
+              </span>
+            </div>
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-400">Slippage Tolerance</span>
+              <button
+                onClick={() => setShowSlippage((v) => !v)}
+                className="flex items-center space-x-1 text-white font-medium hover:text-purple-300"
+              >
+                <span>{slippageBps / 100}%</span>
+                <Settings2 className="h-3.5 w-3.5" />
+              </button>
             </div>
           </div>
         )}
 
+        {/* 滑点容忍度设置（保存在本地） */}
+        {showSlippage && (
+          <div className="rounded-lg bg-white/5 p-4 space-y-3">
+            <p className="text-xs text-gray-400">
+              The vault has no on-chain minimum. Before sending, the transaction is simulated again and refused if the
+              result is worse than your preview by more than this tolerance.
+            </p>
+            <div className="flex items-center space-x-2">
+              {SLIPPAGE_PRESETS_BPS.map((bps) => (
+                <button
+                  key={bps}
+                  onClick={() => {
+                    updateSlippage(bps);
+                    setSlippageInput('');
+                  }}
+                  className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                    slippageBps === bps && !slippageInput ? 'bg-purple-500 text-white' : 'bg-black/20 text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {bps / 100}%
+                </button>
+              ))}
+              <div className="relative flex-1">
+                <input
+                  type="number"
+                  value={slippageInput}
+                  onChange={(e) => {
+                    setSlippageInput(e.target.value);
+                    const parsed = parseSlippagePercent(e.target.value);
+                    if (parsed.bps !== undefined) updateSlippage(parsed.bps);
+                  }}
+                  placeholder="Custom"
+                  className="w-full bg-black/20 border border-white/10 rounded-md px-3 py-1.5 pr-7 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 text-sm">%</span>
+              </div>
+            </div>
+            {slippageParsed.error && <p className="text-xs text-red-400">{slippageParsed.error}</p>}
+          </div>
+        )}
+
+        {activeTab === 'deposit' && (
+          <ApprovalSettings
+            needsApproval={needsApproval}
+            methods={approvalMethods}
+            method={approvalMethod}
+            onMethodChange={setApprovalChoice}
+            allowanceMode={allowanceMode}
+            onAllowanceModeChange={setAllowanceMode}
+            allowance={allowance}
+            decimals={assetDecimals}
+            symbol={assetSymbol}
+            onRevoke={handleRevoke}
+            isRevoking={revokeTx.isBusy}
+          />
+        )}
+
         {/* Action Buttons */}
         <div className="space-y-3">
-          {needsApproval && (
+          {needsApproval && approvalMethod === 'approve' && (
             <button
               onClick={handleApprove}
-              disabled={isApproveLoading || isApproving}
+              disabled={approveTx.isBusy || depositBlocked}
               className="w-full bg-yellow-500 hover:bg-yellow-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-4 px-6 rounded-lg transition-colors flex items-center justify-center space-x-2"
             >
-              {isApproveLoading || isApproving ? (
+              {approveTx.isBusy ? (
                 <>
                   <Loader2 className="h-5 w-5 animate-spin" />
                   <span>Approving...</span>
                 </>
-              ) : isApproveSuccess ? (
+              ) : approveTx.status === 'confirmed' ? (
                 <>
                   <CheckCircle2 className="h-5 w-5" />
                   <span>Approved!</span>
                 </>
               ) : (
-                <span>Approve USDC</span>
+                <span>Approve {assetSymbol}</span>
               )}
             </button>
           )}
 
           <button
             onClick={activeTab === 'deposit' ? handleDeposit : handleWithdraw}
-            disabled={!amount || needsApproval || isDepositLoading || isWithdrawLoading}
+            disabled={
+              actionAmount === undefined ||
+              (needsApproval && approvalMethod === 'approve') ||
+              depositBlocked ||
+              actionTx.isBusy ||
+              preparing !== undefined
+            }
             className="w-full bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed text-white font-medium py-4 px-6 rounded-lg transition-all flex items-center justify-center space-x-2"
           >
-            {(isDepositLoading || isWithdrawLoading) ? (
+            {preparing ? (
               <>
                 <Loader2 className="h-5 w-5 animate-spin" />
-                <span>Processing...</span>
+                <span>{preparing}</span>
               </>
-            ) : (isDepositSuccess || isWithdrawSuccess) ? (
+            ) : actionTx.isBusy ? (
+              <>
+                <Loader2 className="h-5 w-5 animate-spin" />
+                <span>{actionTx.status === 'signing' ? 'Confirm in wallet...' : 'Processing...'}</span>
+              </>
+            ) : actionTx.status === 'confirmed' ? (
               <>
                 <CheckCircle2 className="h-5 w-5" />
                 <span>Success!</span>
               </>
             ) : (
-              <span>{activeTab === 'deposit' ? 'Deposit' : 'Withdraw'}</span>
+              <span>
+                {activeTab === 'withdraw'
+                  ? 'Withdraw'
+                  : needsApproval && approvalMethod === 'batch'
+                    ? 'Approve & Deposit'
+                    : needsApproval && approvalMethod === 'permit'
+                      ? 'Sign & Deposit'
+                      : 'Deposit'}
+              </span>
             )}
           </button>
         </div>
 
+        {/* 发送前的滑点检查 / 模拟失败 */}
+        {guardError && (
+          <div className="flex items-start space-x-2 text-sm text-yellow-400 bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <p>{guardError}</p>
+          </div>
+        )}
+
+        {/* 实际成交数量与预览对比 */}
+        {realized && realized.kind === activeTab && (
+          <div className="flex items-start space-x-2 text-sm text-gray-300 bg-green-500/10 border border-green-500/20 rounded-lg p-3">
+            <CheckCircle2 className="h-4 w-4 text-green-400 mt-0.5 flex-shrink-0" />
+            <p>
+              Received {formatAmount(realized.actual, realized.decimals, 4)} {realized.symbol}, expected{' '}
+              {formatAmount(realized.expected, realized.decimals, 4)} {realized.symbol}{' '}
+              <span className={deviationBps(realized.expected, realized.actual) > 0 ? 'text-yellow-400' : 'text-green-400'}>
+                ({formatDeviation(deviationBps(realized.expected, realized.actual))})
+              </span>
+            </p>
+          </div>
+        )}
+
+        {/* 最近一次失败的原因（已解码的 revert / 钱包拒绝） */}
+        {(activeTab === 'deposit' ? [approveTx, revokeTx, depositTx] : [withdrawTx]).map((tx, i) =>
+          tx.status === 'failed' ? (
+            <div
+              key={i}
+              className="flex items-start space-x-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg p-3"
+            >
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <p>{tx.error}</p>
+            </div>
+          ) : null,
+        )}
+
+        {depositBlocked && (
+          <div className="flex items-start space-x-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <p>{depositBlockedReason}</p>
+          </div>
+        )}
+
         {/* Info */}
         <div className="flex items-start space-x-2 text-sm text-gray-400 bg-blue-500/10 border border-blue-500/20 rounded-lg p-3">
           <AlertCircle className="h-4 w-4 text-blue-400 mt-0.5 flex-shrink-0" />
@@ -0,0 +1,409 @@
+import { useMemo, useState, type ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAccount, useBlock } from 'wagmi';
+import { getAddress, isAddress, parseEther, parseUnits, type Address } from 'viem';
+import { anvilChain } from '../config/wagmi';
+import { DEMO_MODE, demoChain, demoTransport } from '../config/demo';
+import { ERC20_ABI, MOCK_STRATEGY_ABI, VAULT_ABI } from '../config/abis';
+import { useStrategyMonitor } from '../hooks/useStrategyMonitor';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
+import { approveAndDepositCalls } from '../utils/depositFlow';
+import { formatToken } from '../utils/format';
+import { matchesChain } from '../utils/liveUpdates';
+import { placeholderToken } from '../utils/tokens';
+import { decodeTxError } from '../utils/txErrors';
+import {
+  ANVIL_ACCOUNTS,
+  MOCK_ASSET_ABI,
+  createAnvilClient,
+  increaseTime,
+  loadSnapshots,
+  revertToSnapshot,
+  saveSnapshots,
+  sendAs,
+  takeSnapshot,
+  type AnvilSnapshot,
+} from '../utils/anvil';
+import type { Deployment } from '../utils/deployments';
+import { Wrench, X, Loader2, CheckCircle2, AlertCircle, Clock, Camera, RotateCcw, Trash2, Users, Sprout } from 'lucide-react';
+
+const shortAddress = (addr: string) => `${addr.slice(0, 6)}…${addr.slice(-4)}`;
+
+const TIME_PRESETS = [
+  { label: '+1h', seconds: 60 * 60 },
+  { label: '+1d', seconds: 24 * 60 * 60 },
+  { label: '+7d', seconds: 7 * 24 * 60 * 60 },
+  { label: '+30d', seconds: 30 * 24 * 60 * 60 },
+];
+
+type Status = { kind: 'busy' | 'ok' | 'error'; text: string } | null;
+
+const inputClass =
+  'w-full rounded-lg border border-white/10 bg-black/20 px-3 py-1.5 text-sm text-white placeholder-gray-500 focus:border-purple-500 focus:outline-none';
+const buttonClass =
+  'rounded-lg bg-white/10 px-3 py-1.5 text-sm text-white hover:bg-white/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+function Section({ title, icon: Icon, children }: { title: string; icon: typeof Clock; children: ReactNode }) {
+  return (
+    <section className="rounded-xl border border-white/10 bg-white/5 p-4 space-y-3">
+      <h3 className="flex items-center space-x-2 text-sm font-semibold text-white">
+        <Icon className="h-4 w-4 text-purple-400" />
+        <span>{title}</span>
+      </h3>
+      {children}
+    </section>
+  );
+}
+
+/**
+ * 本地 Anvil 开发工具抽屉：铸造测试资产、以任意账户身份操作、推进时间、调整 MockStrategy 与快照 / 恢复
+ * 交易直接通过 Anvil 节点发送（anvil_impersonateAccount），不需要钱包签名；只在连接 Anvil 或演示模式的模拟链时渲染
+ */
+export default function DevTools({ deployment }: { deployment: Deployment }) {
+  const { address } = useAccount();
+  const queryClient = useQueryClient();
+  const client = useMemo(() => (DEMO_MODE ? createAnvilClient(demoChain, demoTransport()) : createAnvilClient(anvilChain)), []);
+
+  const [open, setOpen] = useState(false);
+  const [status, setStatus] = useState<Status>(null);
+  const [vaultIndex, setVaultIndex] = useState(0);
+  const vault = deployment.vaults[vaultIndex] ?? deployment.vaults[0];
+
+  const [actAs, setActAs] = useState<Address>(address ?? ANVIL_ACCOUNTS[0]);
+  const [customAccount, setCustomAccount] = useState('');
+  const [mintAmount, setMintAmount] = useState('10000');
+  const [mintTo, setMintTo] = useState('');
+  const [depositAmount, setDepositAmount] = useState('1000');
+  const [customHours, setCustomHours] = useState('');
+  const [apyPercent, setApyPercent] = useState('');
+  const [lossPercent, setLossPercent] = useState('10');
+  const [snapshotLabel, setSnapshotLabel] = useState('');
+  const [snapshots, setSnapshots] = useState<AnvilSnapshot[]>(loadSnapshots);
+
+  const { data: block } = useBlock({ watch: true });
+  const { data: assetToken } = useTokenMetadata(vault?.asset);
+  const asset = assetToken ?? placeholderToken(vault?.asset ?? ANVIL_ACCOUNTS[0]);
+  const { data: strategy } = useStrategyMonitor(vault?.vault ?? ANVIL_ACCOUNTS[0]);
+
+  const accounts = useMemo(() => {
+    const list = [...ANVIL_ACCOUNTS];
+    for (const extra of [address, actAs]) {
+      if (extra && !list.some((a) => a.toLowerCase() === extra.toLowerCase())) list.push(extra);
+    }
+    return list;
+  }, [address, actAs]);
+
+  const updateSnapshots = (next: AnvilSnapshot[]) => {
+    setSnapshots(next);
+    saveSnapshots(next);
+  };
+
+  // 执行一个开发操作；完成后刷新该链的全部数据（时间与快照操作不经过交易层，需要手动刷新）
+  const run = async (label: string, action: () => Promise<string | void>) => {
+    setStatus({ kind: 'busy', text: label });
+    try {
+      const detail = await action();
+      setStatus({ kind: 'ok', text: detail ? `${label}: ${detail}` : label });
+    } catch (err) {
+      setStatus({ kind: 'error', text: `${label} failed: ${decodeTxError(err)}` });
+    } finally {
+      await queryClient.invalidateQueries({ predicate: (query) => matchesChain(query.queryKey, client.chain.id) });
+    }
+  };
+
+  if (!vault) return null;
+  const busy = status?.kind === 'busy';
+
+  const impersonateCustom = () => {
+    if (!isAddress(customAccount)) {
+      setStatus({ kind: 'error', text: 'Enter a valid address to impersonate' });
+      return;
+    }
+    setActAs(getAddress(customAccount));
+    setCustomAccount('');
+  };
+
+  const mint = () => {
+    const recipient = mintTo.trim() || actAs;
+    if (!isAddress(recipient)) {
+      setStatus({ kind: 'error', text: 'Invalid mint recipient' });
+      return;
+    }
+    return run(`Mint ${mintAmount} ${asset.symbol}`, async () => {
+      const amount = parseUnits(mintAmount, asset.decimals);
+      await sendAs(client, actAs, { address: vault.asset, abi: MOCK_ASSET_ABI, functionName: 'mint', args: [recipient, amount] });
+      return `sent to ${shortAddress(recipient)}`;
+    });
+  };
+
+  const fundEth = () =>
+    run('Fund 100 ETH', async () => {
+      const balance = await client.getBalance({ address: actAs });
+      await client.setBalance({ address: actAs, value: balance + parseEther('100') });
+    });
+
+  const deposit = () =>
+    run(`Deposit ${depositAmount} ${asset.symbol} as ${shortAddress(actAs)}`, async () => {
+      const amount = parseUnits(depositAmount, asset.decimals);
+      const [approve, depositCall] = approveAndDepositCalls(vault.asset, vault.vault, amount, 'exact');
+      await sendAs(client, actAs, { ...approve, address: approve.to });
+      await sendAs(client, actAs, { ...depositCall, address: depositCall.to });
+    });
+
+  const redeemAll = () =>
+    run(`Redeem all as ${shortAddress(actAs)}`, async () => {
+      const shares = await client.readContract({ address: vault.vaultToken, abi: ERC20_ABI, functionName: 'balanceOf', args: [actAs] });
+      if (shares === 0n) throw new Error('Account has no shares');
+      await sendAs(client, actAs, { address: vault.vault, abi: VAULT_ABI, functionName: 'redeem', args: [shares] });
+    });
+
+  const travel = (seconds: number, label: string) =>
+    run(`Time travel ${label}`, async () => {
+      await increaseTime(client, seconds);
+      const latest = await client.getBlock();
+      return new Date(Number(latest.timestamp) * 1000).toLocaleString();
+    });
+
+  // MockStrategy 的 setAPY / toggleLossSimulation 只允许 Vault 调用，因此以 Vault 地址的身份发送
+  const setApy = () =>
+    run(`Set APY to ${apyPercent}%`, async () => {
+      if (!strategy) throw new Error('Strategy not loaded');
+      const bps = BigInt(Math.round(Number(apyPercent) * 100));
+      await sendAs(client, vault.vault, { address: strategy.strategy, abi: MOCK_STRATEGY_ABI, functionName: 'setAPY', args: [bps] });
+    });
+
+  const toggleLoss = (enabled: boolean) =>
+    run(enabled ? `Simulate ${lossPercent}% loss` : 'Disable loss simulation', async () => {
+      if (!strategy) throw new Error('Strategy not loaded');
+      const bps = BigInt(Math.round(Number(lossPercent) * 100));
+      await sendAs(client, vault.vault, {
+        address: strategy.strategy,
+        abi: MOCK_STRATEGY_ABI,
+        functionName: 'toggleLossSimulation',
+        args: [enabled, bps],
+      });
+    });
+
+  // harvest / invest 是 onlyOwner，以 Vault owner 的身份发送
+  const asOwner = (functionName: 'harvest' | 'invest') =>
+    run(`${functionName === 'harvest' ? 'Harvest' : 'Invest'} as owner`, async () => {
+      const owner = await client.readContract({ address: vault.vault, abi: VAULT_ABI, functionName: 'owner' });
+      await sendAs(client, owner, { address: vault.vault, abi: VAULT_ABI, functionName });
+    });
+
+  const snapshot = () =>
+    run('Take snapshot', async () => {
+      const taken = await takeSnapshot(client, snapshotLabel.trim());
+      updateSnapshots([...snapshots, taken]);
+      setSnapshotLabel('');
+      return taken.label;
+    });
+
+  const restore = (target: AnvilSnapshot) =>
+    run(`Restore "${target.label}"`, async () => {
+      try {
+        updateSnapshots(await revertToSnapshot(client, snapshots, target));
+      } catch (err) {
+        updateSnapshots(snapshots.filter((s) => s.id !== target.id));
+        throw err;
+      }
+    });
+
+  const mock = strategy?.mock;
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="fixed bottom-6 right-6 z-40 flex items-center space-x-2 rounded-full bg-gradient-to-r from-purple-500 to-pink-500 px-4 py-2 text-sm font-semibold text-white shadow-lg hover:opacity-90"
+        title="Anvil developer tools"
+      >
+        <Wrench className="h-4 w-4" />
+        <span>Dev tools</span>
+      </button>
+
+      {open && (
+        <div className="fixed inset-y-0 right-0 z-50 w-full max-w-md overflow-y-auto border-l border-white/10 bg-slate-900/95 p-4 shadow-2xl backdrop-blur-sm space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-white">Anvil Dev Tools</h2>
+              <p className="text-xs text-gray-400">
+                Block {block?.number.toString() ?? '—'}
+                {block && ` · ${new Date(Number(block.timestamp) * 1000).toLocaleString()}`}
+              </p>
+            </div>
+            <button onClick={() => setOpen(false)} className="rounded-lg p-1 text-gray-400 hover:text-white">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {deployment.vaults.length > 1 && (
+            <select value={vaultIndex} onChange={(e) => setVaultIndex(Number(e.target.value))} className={inputClass}>
+              {deployment.vaults.map((v, i) => (
+                <option key={v.vault} value={i}>
+                  Vault {shortAddress(v.vault)}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {status && (
+            <div
+              className={`flex items-start space-x-2 rounded-lg p-3 text-sm ${
+                status.kind === 'error' ? 'bg-red-500/10 text-red-300' : status.kind === 'ok' ? 'bg-green-500/10 text-green-300' : 'bg-blue-500/10 text-blue-300'
+              }`}
+            >
+              {status.kind === 'busy' ? (
+                <Loader2 className="h-4 w-4 mt-0.5 flex-shrink-0 animate-spin" />
+              ) : status.kind === 'ok' ? (
+                <CheckCircle2 className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              ) : (
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              )}
+              <span className="break-words">{status.text}</span>
+            </div>
+          )}
+
+          <Section title="Accounts" icon={Users}>
+            <label className="block text-xs text-gray-400">Act as</label>
+            <select value={actAs} onChange={(e) => setActAs(e.target.value as Address)} className={inputClass}>
+              {accounts.map((account, i) => (
+                <option key={account} value={account}>
+                  {account}
+                  {account === address ? ' (connected)' : i < ANVIL_ACCOUNTS.length ? ` (#${i})` : ' (impersonated)'}
+                </option>
+              ))}
+            </select>
+            <div className="flex space-x-2">
+              <input value={customAccount} onChange={(e) => setCustomAccount(e.target.value)} placeholder="Impersonate 0x…" className={inputClass} />
+              <button onClick={impersonateCustom} disabled={!customAccount} className={buttonClass}>
+                Use
+              </button>
+            </div>
+
+            <label className="block text-xs text-gray-400">Mint {asset.symbol || 'asset'}</label>
+            <div className="flex space-x-2">
+              <input value={mintAmount} onChange={(e) => setMintAmount(e.target.value)} className={`${inputClass} w-28`} />
+              <input value={mintTo} onChange={(e) => setMintTo(e.target.value)} placeholder={`To ${shortAddress(actAs)}`} className={inputClass} />
+              <button onClick={mint} disabled={busy} className={buttonClass}>
+                Mint
+              </button>
+            </div>
+
+            <label className="block text-xs text-gray-400">Vault</label>
+            <div className="flex space-x-2">
+              <input value={depositAmount} onChange={(e) => setDepositAmount(e.target.value)} className={`${inputClass} w-28`} />
+              <button onClick={deposit} disabled={busy} className={buttonClass}>
+                Deposit
+              </button>
+              <button onClick={redeemAll} disabled={busy} className={buttonClass}>
+                Redeem all
+              </button>
+              <button onClick={fundEth} disabled={busy} className={buttonClass}>
+                +100 ETH
+              </button>
+            </div>
+          </Section>
+
+          <Section title="Time travel" icon={Clock}>
+            <div className="flex flex-wrap gap-2">
+              {TIME_PRESETS.map((preset) => (
+                <button key={preset.label} onClick={() => travel(preset.seconds, preset.label)} disabled={busy} className={buttonClass}>
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex space-x-2">
+              <input value={customHours} onChange={(e) => setCustomHours(e.target.value)} placeholder="Hours" className={inputClass} />
+              <button
+                onClick={() => travel(Math.round(Number(customHours) * 3600), `+${customHours}h`)}
+                disabled={busy || !(Number(customHours) > 0)}
+                className={buttonClass}
+              >
+                Advance
+              </button>
+            </div>
+          </Section>
+
+          <Section title="Strategy" icon={Sprout}>
+            {!mock ? (
+              <p className="text-sm text-gray-500">The current strategy is not a MockStrategy.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-2 text-xs text-gray-400">
+                  <span>APY: {(Number(mock.apyBps) / 100).toFixed(2)}%</span>
+                  <span>Pending: {formatToken(mock.pendingYield, asset, 4)}</span>
+                  <span>Loss simulation: {mock.shouldSimulateLoss ? `${Number(mock.lossBps) / 100}%` : 'off'}</span>
+                  <span>Invested: {formatToken(strategy.investedAssets, asset, 2)}</span>
+                </div>
+                <div className="flex space-x-2">
+                  <input value={apyPercent} onChange={(e) => setApyPercent(e.target.value)} placeholder="APY %" className={inputClass} />
+                  <button onClick={setApy} disabled={busy || !(Number(apyPercent) >= 0) || !apyPercent} className={buttonClass}>
+                    Set APY
+                  </button>
+                </div>
+                <div className="flex space-x-2">
+                  <input value={lossPercent} onChange={(e) => setLossPercent(e.target.value)} placeholder="Loss %" className={inputClass} />
+                  <button onClick={() => toggleLoss(true)} disabled={busy} className={buttonClass}>
+                    Simulate loss
+                  </button>
+                  <button onClick={() => toggleLoss(false)} disabled={busy || !mock.shouldSimulateLoss} className={buttonClass}>
+                    Off
+                  </button>
+                </div>
+              </>
+            )}
+            <div className="flex space-x-2">
+              <button onClick={() => asOwner('harvest')} disabled={busy} className={buttonClass}>
+                Harvest as owner
+              </button>
+              <button onClick={() => asOwner('invest')} disabled={busy} className={buttonClass}>
+                Invest as owner
+              </button>
+            </div>
+          </Section>
+
+          <Section title="Snapshots" icon={Camera}>
+            <div className="flex space-x-2">
+              <input value={snapshotLabel} onChange={(e) => setSnapshotLabel(e.target.value)} placeholder="Label (optional)" className={inputClass} />
+              <button onClick={snapshot} disabled={busy} className={buttonClass}>
+                Take
+              </button>
+            </div>
+            {snapshots.length === 0 ? (
+              <p className="text-sm text-gray-500">No snapshots yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {[...snapshots].reverse().map((s) => (
+                  <li key={s.id} className="flex items-center justify-between rounded-lg bg-white/5 px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="text-white truncate">{s.label}</p>
+                      <p className="text-xs text-gray-500">
+                        Block {s.blockNumber} · {new Date(s.takenAt).toLocaleTimeString()}
+                      </p>
+                    </div>
+                    <div className="flex space-x-1">
+                      <button onClick={() => restore(s)} disabled={busy} className="rounded p-1 text-gray-400 hover:text-white" title="Restore">
+                        <RotateCcw className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => updateSnapshots(snapshots.filter((x) => x.id !== s.id))}
+                        className="rounded p-1 text-gray-400 hover:text-red-400"
+                        title="Forget"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-gray-500">
+              Restoring discards that snapshot and every later one. If your wallet reports nonce errors afterwards, clear its activity data for this network.
+            </p>
+          </Section>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { useWriteContract } from 'wagmi';
+import { isAddress, getAddress } from 'viem';
+import { FEE_MANAGER_ABI } from '../config/abis';
+import { useVault } from '../hooks/useVault';
+import { useVaultTokens } from '../hooks/useVaultTokens';
+import { useFeeManager } from '../hooks/useFeeManager';
+import { useTransaction } from '../hooks/useTransactions';
+import { formatBps, parseFeeBps } from '../utils/fees';
+import { Receipt, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+
+const shortAddress = (addr: string) => `${addr.slice(0, 6)}…${addr.slice(-4)}`;
+
+export default function FeePanel() {
+  const addresses = useVault();
+  const { formatAsset } = useVaultTokens();
+  const feeManager = addresses.feeManager as `0x${string}`;
+
+  const { config, collected, maxPerformanceFeeBps, maxWithdrawalFeeBps, isOwner, isLoading, error } =
+    useFeeManager(feeManager);
+
+  const [performanceInput, setPerformanceInput] = useState('');
+  const [withdrawalInput, setWithdrawalInput] = useState('');
+  const [recipientInput, setRecipientInput] = useState('');
+  const [inputError, setInputError] = useState<string>();
+
+  // 确认后由交易层统一刷新链上数据
+  const { writeContractAsync } = useWriteContract();
+  const tx = useTransaction();
+  const busy = tx.isBusy;
+
+  const contract = { address: feeManager, abi: FEE_MANAGER_ABI } as const;
+
+  const submitPerformanceFee = () => {
+    if (maxPerformanceFeeBps === undefined) return;
+    const parsed = parseFeeBps(performanceInput, maxPerformanceFeeBps);
+    setInputError(parsed.error);
+    const bps = parsed.bps;
+    if (bps !== undefined) {
+      tx.send(`Set performance fee to ${formatBps(bps)}`, () =>
+        writeContractAsync({ ...contract, functionName: 'setPerformanceFee', args: [bps] }),
+      );
+    }
+  };
+
+  const submitWithdrawalFee = () => {
+    if (maxWithdrawalFeeBps === undefined) return;
+    const parsed = parseFeeBps(withdrawalInput, maxWithdrawalFeeBps);
+    setInputError(parsed.error);
+    const bps = parsed.bps;
+    if (bps !== undefined) {
+      tx.send(`Set withdrawal fee to ${formatBps(bps)}`, () =>
+        writeContractAsync({ ...contract, functionName: 'setWithdrawalFee', args: [bps] }),
+      );
+    }
+  };
+
+  const submitRecipient = () => {
+    if (!isAddress(recipientInput) || /^0x0+$/.test(recipientInput)) {
+      setInputError('Enter a valid, non-zero recipient address');
+      return;
+    }
+    setInputError(undefined);
+    const recipient = getAddress(recipientInput);
+    tx.send(`Set fee recipient to ${shortAddress(recipient)}`, () =>
+      writeContractAsync({ ...contract, functionName: 'setFeeRecipient', args: [recipient] }),
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6 flex items-center text-gray-400">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        <span className="text-sm">Loading fee configuration…</span>
+      </div>
+    );
+  }
+
+  if (error || !config || !collected) {
+    return (
+      <div className="rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6 text-sm text-red-400">
+        FeeManager is not available on this network.
+      </div>
+    );
+  }
+
+  const rows = [
+    {
+      label: 'Performance Fee',
+      bps: config.performanceFeeBps,
+      max: maxPerformanceFeeBps,
+      enabled: config.performanceFeeEnabled,
+      toggle: () =>
+        tx.send(`${config.performanceFeeEnabled ? 'Disable' : 'Enable'} performance fee`, () =>
+          writeContractAsync({ ...contract, functionName: 'togglePerformanceFee', args: [!config.performanceFeeEnabled] }),
+        ),
+      input: performanceInput,
+      setInput: setPerformanceInput,
+      submit: submitPerformanceFee,
+    },
+    {
+      label: 'Withdrawal Fee',
+      bps: config.withdrawalFeeBps,
+      max: maxWithdrawalFeeBps,
+      enabled: config.withdrawalFeeEnabled,
+      toggle: () =>
+        tx.send(`${config.withdrawalFeeEnabled ? 'Disable' : 'Enable'} withdrawal fee`, () =>
+          writeContractAsync({ ...contract, functionName: 'toggleWithdrawalFee', args: [!config.withdrawalFeeEnabled] }),
+        ),
+      input: withdrawalInput,
+      setInput: setWithdrawalInput,
+      submit: submitWithdrawalFee,
+    },
+  ];
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-white">Fees</h2>
+        <div className="rounded-lg bg-purple-500/10 p-2">
+          <Receipt className="h-5 w-5 text-purple-400" />
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {rows.map((row) => (
+          <div key={row.label} className="rounded-lg bg-white/5 p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-400">{row.label}</span>
+              <div className="flex items-center space-x-2">
+                <span className="text-sm font-medium text-white">
+                  {row.bps.toString()} bps ({formatBps(row.bps)})
+                </span>
+                <span
+                  className={`text-xs px-2 py-0.5 rounded-full ${
+                    row.enabled ? 'bg-green-500/10 text-green-400' : 'bg-gray-500/10 text-gray-400'
+                  }`}
+                >
+                  {row.enabled ? 'Enabled' : 'Disabled'}
+                </span>
+              </div>
+            </div>
+            {isOwner && (
+              <div className="flex space-x-2">
+                <input
+                  type="number"
+                  value={row.input}
+                  onChange={(e) => row.setInput(e.target.value)}
+                  placeholder={`New fee in bps (max ${row.max?.toString() ?? '…'})`}
+                  className="flex-1 bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <button
+                  onClick={row.submit}
+                  disabled={busy || !row.input}
+                  className="rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm px-3 transition-colors"
+                >
+                  Update
+                </button>
+                <button
+                  onClick={row.toggle}
+                  disabled={busy}
+                  className="rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm px-3 transition-colors"
+                >
+                  {row.enabled ? 'Disable' : 'Enable'}
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+
+        <div className="rounded-lg bg-white/5 p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-400">Recipient</span>
+            <span className="text-sm font-mono text-white">{shortAddress(config.recipient)}</span>
+          </div>
+          {isOwner && (
+            <div className="flex space-x-2">
+              <input
+                value={recipientInput}
+                onChange={(e) => setRecipientInput(e.target.value.trim())}
+                placeholder="New recipient (0x…)"
+                className="flex-1 bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              <button
+                onClick={submitRecipient}
+                disabled={busy || !recipientInput}
+                className="rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm px-3 transition-colors"
+              >
+                Update
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="rounded-lg border border-green-500/20 bg-green-500/5 p-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-400">Performance fees collected</span>
+            <span className="text-sm font-medium text-white">{formatAsset(collected.performanceFees, 4)}</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-400">Withdrawal fees collected</span>
+            <span className="text-sm font-medium text-white">{formatAsset(collected.withdrawalFees, 4)}</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-400">Lifetime total</span>
+            <span className="text-sm font-medium text-green-400">{formatAsset(collected.totalFees, 4)}</span>
+          </div>
+        </div>
+
+        {inputError && (
+          <div className="flex items-start space-x-2 text-sm text-red-400">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{inputError}</span>
+          </div>
+        )}
+        {tx.status === 'failed' && (
+          <div className="flex items-start space-x-2 text-sm text-red-400">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{tx.error}</span>
+          </div>
+        )}
+        {busy && (
+          <div className="flex items-center space-x-2 text-sm text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>{tx.status === 'signing' ? 'Waiting for wallet signature…' : 'Waiting for confirmation…'}</span>
+          </div>
+        )}
+        {tx.status === 'confirmed' && (
+          <div className="flex items-center space-x-2 text-sm text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            <span>Fee configuration updated.</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useAccount } from 'wagmi';
+import { useVault } from '../hooks/useVault';
+import { useVaultTokens } from '../hooks/useVaultTokens';
+import { useHolderIndex } from '../hooks/useHolderIndex';
+import { Trophy, Loader2 } from 'lucide-react';
+
+const shortAddress = (addr: string) => `${addr.slice(0, 6)}…${addr.slice(-4)}`;
+
+export default function HolderLeaderboard() {
+  const { address } = useAccount();
+  const addresses = useVault();
+  const { formatShares, formatValue } = useVaultTokens();
+
+  const { data, isLoading, error } = useHolderIndex({
+    vault: addresses.vault as `0x${string}`,
+    vaultToken: addresses.vaultToken as `0x${string}`,
+  });
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-bold text-white">Top Holders</h2>
+          {data && (
+            <p className="text-xs text-gray-500 mt-1">
+              {data.holderCount} holders · indexed to block {data.lastIndexedBlock.toString()}
+            </p>
+          )}
+        </div>
+        <div className="rounded-lg bg-purple-500/10 p-2">
+          <Trophy className="h-5 w-5 text-purple-400" />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8 text-gray-400">
+          <Loader2 className="h-5 w-5 animate-spin mr-2" />
+          <span className="text-sm">Indexing holders…</span>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-400">Failed to index holders: {error.message}</p>
+      ) : !data || data.leaderboard.length === 0 ? (
+        <p className="text-sm text-gray-400">No holders yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400">
+              <th className="pb-3 font-normal">#</th>
+              <th className="pb-3 font-normal">Holder</th>
+              <th className="pb-3 font-normal text-right">Shares</th>
+              <th className="pb-3 font-normal text-right">Net Deposited</th>
+              <th className="pb-3 font-normal text-right">% of Supply</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.leaderboard.map((holder, i) => {
+              const isYou = address?.toLowerCase() === holder.address;
+              return (
+                <tr key={holder.address} className="border-t border-white/5">
+                  <td className="py-3 text-gray-400">{i + 1}</td>
+                  <td className="py-3 font-mono text-white">
+                    {shortAddress(holder.address)}
+                    {isYou && <span className="ml-2 text-xs text-purple-400">(you)</span>}
+                  </td>
+                  <td className="py-3 text-right text-white">
+                    {formatShares(holder.balance, 4)}
+                  </td>
+                  <td className="py-3 text-right text-white">
+                    {formatValue(holder.deposited - holder.redeemed)}
+                  </td>
+                  <td className="py-3 text-right text-white">
+                    <div className="flex items-center justify-end space-x-2">
+                      <div className="h-1.5 w-16 rounded-full bg-white/10">
+                        <div
+                          className="h-1.5 rounded-full bg-purple-500"
+                          style={{ width: `${Math.min(holder.shareOfSupply, 100)}%` }}
+                        />
+                      </div>
+                      <span>{holder.shareOfSupply.toFixed(2)}%</span>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useAccount, useSwitchChain } from 'wagmi';
+import { DEPLOYMENTS } from '../config/deployments';
+import { NETWORK_ENV_NAMES } from '../utils/deployments';
+import { AlertTriangle } from 'lucide-react';
+
+interface NotDeployedProps {
+  chainId: number;
+}
+
+// 当前链没有部署记录时的提示页，并提供切换到已部署网络的入口
+export default function NotDeployed({ chainId }: NotDeployedProps) {
+  const { chain } = useAccount();
+  const { chains, switchChain, isPending } = useSwitchChain();
+
+  const deployedChains = chains.filter((c) => DEPLOYMENTS[c.id]);
+  const network = NETWORK_ENV_NAMES[chainId];
+
+  return (
+    <div className="flex min-h-[60vh] items-center justify-center">
+      <div className="max-w-lg w-full rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-8 text-center">
+        <div className="mx-auto mb-4 w-fit rounded-full bg-yellow-500/10 p-4">
+          <AlertTriangle className="h-10 w-10 text-yellow-400" />
+        </div>
+        <h2 className="text-2xl font-bold text-white mb-2">Vault not deployed on this network</h2>
+        <p className="text-gray-400 mb-6">
+          No Yield Vault deployment was found for{' '}
+          <span className="text-white">{chain?.name ?? 'this network'}</span>{' '}
+          <span className="text-gray-500">(chain {chainId})</span>.
+        </p>
+
+        {deployedChains.length > 0 && (
+          <div className="space-y-2 mb-6">
+            <p className="text-sm text-gray-400">Switch to a supported network:</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {deployedChains.map((c) => (
+                <button
+                  key={c.id}
+                  onClick={() => switchChain({ chainId: c.id })}
+                  disabled={isPending}
+                  className="px-4 py-2 rounded-lg bg-purple-500 text-white text-sm font-medium hover:bg-purple-600 transition-all disabled:opacity-50"
+                >
+                  {c.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="rounded-lg bg-black/20 p-4 text-left text-xs text-gray-400 space-y-1">
+          <p>Deploy with <code className="text-gray-300">forge script script/Deploy.s.sol --broadcast</code>,</p>
+          {network ? (
+            <p>
+              or set <code className="text-gray-300">VITE_VAULT_ADDRESS_{network}</code> and the other contract addresses in{' '}
+              <code className="text-gray-300">frontend/.env</code>.
+            </p>
+          ) : (
+            <p>then restart the dev server to pick up the new broadcast file.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+import { useState } from 'react';
+import { useAccount, usePublicClient, useWriteContract } from 'wagmi';
+import { isAddress, getAddress, zeroAddress, type Hash } from 'viem';
+import { VAULT_ABI } from '../config/abis';
+import { useVault } from '../hooks/useVault';
+import { useVaultTokens } from '../hooks/useVaultTokens';
+import { useOperatorState } from '../hooks/useOperatorState';
+import { useTransaction } from '../hooks/useTransactions';
+import { decodeTxError } from '../utils/txErrors';
+import {
+  previewOperatorAction,
+  validateOperatorAction,
+  type ActionPreview,
+  type OperatorAction,
+  type StateChange,
+} from '../utils/operatorPreview';
+import { Settings, Loader2, CheckCircle2, AlertCircle, ShieldAlert, Play, Sprout } from 'lucide-react';
+
+const shortAddress = (addr: string) => (addr === zeroAddress ? 'None' : `${addr.slice(0, 6)}…${addr.slice(-4)}`);
+
+function formatChangeValue(change: StateChange, side: 'before' | 'after', formatAsset: (value: bigint, fractionDigits?: number) => string) {
+  switch (change.format) {
+    case 'assets':
+      return formatAsset(change[side], 4);
+    case 'bps':
+      return `${change[side].toString()} bps (${(Number(change[side]) / 100).toFixed(2)}%)`;
+    case 'address':
+      return shortAddress(change[side]);
+  }
+}
+
+const ACTION_LABELS: Record<OperatorAction['kind'], string> = {
+  invest: 'Invest idle assets',
+  harvest: 'Harvest strategy',
+  setStrategy: 'Set strategy',
+  setInvestRatio: 'Set invest ratio',
+};
+
+type Simulation =
+  | { status: 'idle' }
+  | { status: 'simulating'; action: OperatorAction }
+  | { status: 'ready'; action: OperatorAction; preview: ActionPreview; send: () => Promise<Hash> }
+  | { status: 'error'; action: OperatorAction; message: string };
+
+export default function OperatorConsole() {
+  const { address } = useAccount();
+  const addresses = useVault();
+  const { formatAsset } = useVaultTokens();
+  const vault = addresses.vault as `0x${string}`;
+  const publicClient = usePublicClient();
+
+  const { owner, isOwner, state, isLoading } = useOperatorState(vault);
+
+  const [strategyInput, setStrategyInput] = useState('');
+  const [ratioInput, setRatioInput] = useState('');
+  const [simulation, setSimulation] = useState<Simulation>({ status: 'idle' });
+
+  // 交易确认后由交易层统一刷新面板数据
+  const { writeContractAsync } = useWriteContract();
+  const tx = useTransaction();
+
+  // 先在本地校验并 eth_call 模拟，成功后展示预期的状态变化，等待用户确认
+  const review = async (action: OperatorAction) => {
+    if (!state || !publicClient || !address) return;
+    tx.reset();
+
+    const invalid = validateOperatorAction(action, state);
+    if (invalid) {
+      setSimulation({ status: 'error', action, message: invalid });
+      return;
+    }
+
+    setSimulation({ status: 'simulating', action });
+    try {
+      const base = { address: vault, abi: VAULT_ABI, account: address } as const;
+      let send: () => Promise<Hash>;
+      if (action.kind === 'invest') {
+        const { request } = await publicClient.simulateContract({ ...base, functionName: 'invest' });
+        send = () => writeContractAsync(request);
+      } else if (action.kind === 'harvest') {
+        const { request } = await publicClient.simulateContract({ ...base, functionName: 'harvest' });
+        send = () => writeContractAsync(request);
+      } else if (action.kind === 'setStrategy') {
+        const { request } = await publicClient.simulateContract({ ...base, functionName: 'setStrategy', args: [action.strategy] });
+        send = () => writeContractAsync(request);
+      } else {
+        const { request } = await publicClient.simulateContract({ ...base, functionName: 'setInvestRatio', args: [action.bps] });
+        send = () => writeContractAsync(request);
+      }
+
+      setSimulation({ status: 'ready', action, preview: previewOperatorAction(action, state), send });
+    } catch (err) {
+      setSimulation({ status: 'error', action, message: decodeTxError(err) });
+    }
+  };
+
+  const confirm = () => {
+    if (simulation.status !== 'ready') return;
+    tx.send(ACTION_LABELS[simulation.action.kind], simulation.send);
+    setSimulation({ status: 'idle' });
+  };
+
+  const reviewSetStrategy = () => {
+    if (!isAddress(strategyInput)) {
+      setSimulation({ status: 'error', action: { kind: 'setStrategy', strategy: zeroAddress }, message: 'Enter a valid strategy address' });
+      return;
+    }
+    review({ kind: 'setStrategy', strategy: getAddress(strategyInput) });
+  };
+
+  const reviewSetInvestRatio = () => {
+    if (!/^\d+$/.test(ratioInput)) {
+      setSimulation({ status: 'error', action: { kind: 'setInvestRatio', bps: 0n }, message: 'Invest ratio must be a whole number of bps' });
+      return;
+    }
+    review({ kind: 'setInvestRatio', bps: BigInt(ratioInput) });
+  };
+
+  if (isLoading || !state) {
+    return (
+      <div className="flex items-center justify-center py-16 text-gray-400">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        <span>Loading vault state…</span>
+      </div>
+    );
+  }
+
+  const totalManaged = state.totalIdleAssets + state.totalInvestedAssets;
+  const investedPct = totalManaged === 0n ? 0 : Number((state.totalInvestedAssets * 10_000n) / totalManaged) / 100;
+  const ratioPct = Number(state.investRatioBps) / 100;
+  const maxRatioPct = Number(state.maxInvestRatioBps) / 100;
+  const busy = simulation.status === 'simulating' || tx.isBusy;
+
+  return (
+    <div className="space-y-6">
+      {!isOwner && (
+        <div className="flex items-start space-x-2 text-sm text-yellow-400 bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3">
+          <ShieldAlert className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <p>
+            The connected account is not the vault owner ({owner ? shortAddress(owner) : 'unknown'}).
+            Operator actions are read-only.
+          </p>
+        </div>
+      )}
+
+      {/* Vault state */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6">
+          <p className="text-sm text-gray-400 mb-1">Strategy</p>
+          <p className="text-lg font-mono text-white">{shortAddress(state.strategy)}</p>
+          <p className={`text-sm mt-1 ${state.strategyActive ? 'text-green-400' : 'text-red-400'}`}>
+            {state.strategyActive ? 'Active' : 'Inactive'}
+          </p>
+          <p className="text-xs text-gray-500 mt-2">
+            Strategy assets: {formatAsset(state.strategyTotalAssets, 4)}
+          </p>
+        </div>
+
+        <div className="rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6">
+          <p className="text-sm text-gray-400 mb-1">Idle vs Invested</p>
+          <p className="text-lg text-white">
+            {formatAsset(state.totalIdleAssets, 2)} / {formatAsset(state.totalInvestedAssets, 2)}
+          </p>
+          <div className="mt-3 h-2 rounded-full bg-white/10">
+            <div className="h-2 rounded-full bg-purple-500" style={{ width: `${investedPct}%` }} />
+          </div>
+          <p className="text-xs text-gray-500 mt-2">{investedPct.toFixed(2)}% invested</p>
+        </div>
+
+        <div className="rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6">
+          <p className="text-sm text-gray-400 mb-1">Invest Ratio</p>
+          <p className="text-lg text-white">
+            {state.investRatioBps.toString()} bps <span className="text-gray-500">/ max {state.maxInvestRatioBps.toString()}</span>
+          </p>
+          <div className="relative mt-3 h-2 rounded-full bg-white/10">
+            <div className="h-2 rounded-full bg-pink-500" style={{ width: `${ratioPct}%` }} />
+            <div className="absolute top-[-2px] h-3 w-0.5 bg-white/60" style={{ left: `${maxRatioPct}%` }} />
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Pending: {formatAsset(state.estimatedProfit, 4)} profit
+            {state.estimatedLoss > 0n && ` · ${formatAsset(state.estimatedLoss, 4)} loss`}
+          </p>
+        </div>
+      </div>
+
+      {/* Actions */}
+      <div className="rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white">Operator Actions</h2>
+          <div className="rounded-lg bg-purple-500/10 p-2">
+            <Settings className="h-5 w-5 text-purple-400" />
+          </div>
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-2">
+          <button
+            onClick={() => review({ kind: 'invest' })}
+            disabled={!isOwner || busy}
+            className="flex items-center justify-center space-x-2 rounded-lg bg-purple-500 hover:bg-purple-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-3 px-4 transition-colors"
+          >
+            <Play className="h-4 w-4" />
+            <span>Invest</span>
+          </button>
+          <button
+            onClick={() => review({ kind: 'harvest' })}
+            disabled={!isOwner || busy}
+            className="flex items-center justify-center space-x-2 rounded-lg bg-purple-500 hover:bg-purple-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-3 px-4 transition-colors"
+          >
+            <Sprout className="h-4 w-4" />
+            <span>Harvest</span>
+          </button>
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-2">
+          <div className="flex space-x-2">
+            <input
+              value={strategyInput}
+              onChange={(e) => setStrategyInput(e.target.value.trim())}
+              placeholder="New strategy address (0x…)"
+              className="flex-1 bg-black/20 border border-white/10 rounded-lg px-4 py-3 text-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <button
+              onClick={reviewSetStrategy}
+              disabled={!isOwner || busy || !strategyInput}
+              className="rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-medium px-4 transition-colors"
+            >
+              Set Strategy
+            </button>
+          </div>
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              value={ratioInput}
+              onChange={(e) => setRatioInput(e.target.value)}
+              placeholder={`Invest ratio in bps (max ${state.maxInvestRatioBps})`}
+              className="flex-1 bg-black/20 border border-white/10 rounded-lg px-4 py-3 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <button
+              onClick={reviewSetInvestRatio}
+              disabled={!isOwner || busy || !ratioInput}
+              className="rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-medium px-4 transition-colors"
+            >
+              Set Ratio
+            </button>
+          </div>
+        </div>
+
+        {/* Confirmation step */}
+        {simulation.status === 'simulating' && (
+          <div className="flex items-center space-x-2 text-sm text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>Simulating {ACTION_LABELS[simulation.action.kind]}…</span>
+          </div>
+        )}
+
+        {simulation.status === 'error' && (
+          <div className="flex items-start space-x-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <p>{ACTION_LABELS[simulation.action.kind]} would fail: {simulation.message}</p>
+          </div>
+        )}
+
+        {simulation.status === 'ready' && (
+          <div className="rounded-lg border border-purple-500/30 bg-purple-500/5 p-4 space-y-3">
+            <p className="text-sm font-medium text-white">
+              Confirm: {ACTION_LABELS[simulation.action.kind]} (simulation succeeded)
+            </p>
+            {simulation.preview.changes.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400">
+                    <th className="pb-2 font-normal">State</th>
+                    <th className="pb-2 font-normal text-right">Before</th>
+                    <th className="pb-2 font-normal text-right">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {simulation.preview.changes.map((change) => (
+                    <tr key={change.label} className="border-t border-white/5">
+                      <td className="py-2 text-gray-400">{change.label}</td>
+                      <td className="py-2 text-right text-white">{formatChangeValue(change, 'before', formatAsset)}</td>
+                      <td className="py-2 text-right text-white">{formatChangeValue(change, 'after', formatAsset)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {simulation.preview.note && <p className="text-xs text-gray-400">{simulation.preview.note}</p>}
+            <div className="flex space-x-3">
+              <button
+                onClick={confirm}
+                className="flex-1 rounded-lg bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white font-medium py-3 transition-all"
+              >
+                Confirm &amp; Send
+              </button>
+              <button
+                onClick={() => setSimulation({ status: 'idle' })}
+                className="flex-1 rounded-lg bg-white/10 hover:bg-white/20 text-white font-medium py-3 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {tx.isBusy && (
+          <div className="flex items-center space-x-2 text-sm text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>{tx.status === 'signing' ? 'Waiting for wallet signature…' : 'Waiting for confirmation…'}</span>
+          </div>
+        )}
+        {tx.status === 'confirmed' && (
+          <div className="flex items-center space-x-2 text-sm text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            <span>Transaction confirmed.</span>
+          </div>
+        )}
+        {tx.status === 'failed' && (
+          <div className="flex items-start space-x-2 text-sm text-red-400">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{tx.error}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { zeroAddress } from 'viem';
+import { useVault } from '../hooks/useVault';
+import { useVaultTokens } from '../hooks/useVaultTokens';
+import { useStrategyMonitor } from '../hooks/useStrategyMonitor';
+import { useNow } from '../hooks/useNow';
+import { estimateChainNow, formatDuration, projectPendingYield } from '../utils/strategyYield';
+import { Activity, AlertTriangle, Loader2 } from 'lucide-react';
+
+const shortAddress = (addr: string) => `${addr.slice(0, 6)}…${addr.slice(-4)}`;
+const toPct = (value: bigint, total: bigint) => (total === 0n ? 0 : Number((value * 10_000n) / total) / 100);
+
+export default function StrategyMonitor() {
+  const addresses = useVault();
+  const { formatAsset } = useVaultTokens();
+  const { data, lastHarvestTime, blockTimestamp, blockFetchedAt, isLoading } = useStrategyMonitor(
+    addresses.vault as `0x${string}`,
+  );
+  const now = useNow();
+
+  if (isLoading || !data) {
+    return (
+      <div className="rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6 flex items-center text-gray-400">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        <span className="text-sm">Loading strategy…</span>
+      </div>
+    );
+  }
+
+  const chainNow = blockTimestamp !== undefined ? estimateChainNow(blockTimestamp, blockFetchedAt, now) : undefined;
+
+  // MockStrategy 按公式逐秒推算；普通 Strategy 显示最近一次 estimatedProfit
+  const pending = data.mock && chainNow !== undefined
+    ? projectPendingYield({ ...data.mock, investedAssets: data.investedAssets }, chainNow)
+    : data.estimatedProfit;
+  const sinceHarvest = lastHarvestTime !== undefined && chainNow !== undefined
+    ? chainNow - Number(lastHarvestTime)
+    : undefined;
+
+  const allocationPct = toPct(data.strategyTotalAssets, data.vaultTotalAssets);
+  const targetPct = Number(data.investRatioBps) / 100;
+
+  const warnings: string[] = [];
+  if (data.strategy === zeroAddress) warnings.push('No strategy is set. All assets are idle in the vault.');
+  else if (!data.isActive) warnings.push('Strategy is inactive. New deposits will not be invested and harvest is disabled.');
+  if (data.mock?.shouldSimulateLoss) {
+    warnings.push(`Loss simulation is ON: the next harvest will report a ${(Number(data.mock.lossBps) / 100).toFixed(2)}% loss.`);
+  }
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-bold text-white">Strategy</h2>
+          <p className="text-xs text-gray-500 mt-1 font-mono">
+            {data.strategy === zeroAddress ? 'None' : shortAddress(data.strategy)}
+            {data.mock && <span className="ml-2 font-sans text-purple-400">MockStrategy</span>}
+          </p>
+        </div>
+        <div className="rounded-lg bg-purple-500/10 p-2">
+          <Activity className="h-5 w-5 text-purple-400" />
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {warnings.map((warning) => (
+          <div
+            key={warning}
+            className="flex items-start space-x-2 text-sm text-yellow-400 bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3"
+          >
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <p>{warning}</p>
+          </div>
+        ))}
+
+        {/* Allocation */}
+        <div>
+          <div className="flex items-center justify-between text-sm mb-2">
+            <span className="text-gray-400">Allocation</span>
+            <span className="text-white">
+              {allocationPct.toFixed(2)}% <span className="text-gray-500">/ target {targetPct.toFixed(2)}%</span>
+            </span>
+          </div>
+          <div className="relative h-2 rounded-full bg-white/10">
+            <div className="h-2 rounded-full bg-purple-500" style={{ width: `${Math.min(allocationPct, 100)}%` }} />
+            <div className="absolute top-[-2px] h-3 w-0.5 bg-white/60" style={{ left: `${targetPct}%` }} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="rounded-lg bg-white/5 p-3">
+            <p className="text-xs text-gray-400 mb-1">Pending Yield</p>
+            <p className="text-sm font-medium text-green-400 tabular-nums">
+              +{formatAsset(pending, 6)}
+            </p>
+            {data.estimatedLoss > 0n && (
+              <p className="text-xs text-red-400 mt-1">-{formatAsset(data.estimatedLoss, 4)} est. loss</p>
+            )}
+          </div>
+          <div className="rounded-lg bg-white/5 p-3">
+            <p className="text-xs text-gray-400 mb-1">Since Last Harvest</p>
+            <p className="text-sm font-medium text-white tabular-nums">
+              {sinceHarvest !== undefined ? formatDuration(sinceHarvest) : 'Never'}
+            </p>
+          </div>
+          <div className="rounded-lg bg-white/5 p-3">
+            <p className="text-xs text-gray-400 mb-1">Invested</p>
+            <p className="text-sm font-medium text-white">{formatAsset(data.investedAssets, 4)}</p>
+          </div>
+          <div className="rounded-lg bg-white/5 p-3">
+            <p className="text-xs text-gray-400 mb-1">Strategy Assets</p>
+            <p className="text-sm font-medium text-white">{formatAsset(data.strategyTotalAssets, 4)}</p>
+          </div>
+        </div>
+
+        {data.mock && (
+          <div className="rounded-lg bg-white/5 p-4 space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-400">Strategy APY</span>
+              <span className="text-white">{(Number(data.mock.apyBps) / 100).toFixed(2)}%</span>
+            </div>
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-400">Expected Yearly Yield</span>
+              <span className="text-white">{formatAsset(data.mock.expectedYearlyYield, 4)}</span>
+            </div>
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-400">Total Harvested</span>
+              <span className="text-white">{formatAsset(data.mock.totalYieldHarvested, 4)}</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { useConfig } from 'wagmi';
+import { useTransactionManager } from '../hooks/useTransactions';
+import { explorerTxUrl } from '../utils/explorer';
+import type { TxStatus } from '../utils/txHistory';
+import { History, Loader2, CheckCircle2, AlertCircle, ExternalLink } from 'lucide-react';
+
+const STATUS_ICONS: Record<TxStatus, { icon: typeof Loader2; className: string }> = {
+  pending: { icon: Loader2, className: 'text-blue-400 animate-spin' },
+  confirmed: { icon: CheckCircle2, className: 'text-green-400' },
+  failed: { icon: AlertCircle, className: 'text-red-400' },
+};
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Header 中的交易历史按钮与下拉列表
+export default function TransactionHistory() {
+  const [open, setOpen] = useState(false);
+  const { history, pending, clearHistory } = useTransactionManager();
+  const { chains } = useConfig();
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="relative rounded-lg bg-white/5 p-2 text-gray-400 hover:text-white transition-colors"
+        title="Transactions"
+      >
+        {pending.length > 0 ? <Loader2 className="h-5 w-5 animate-spin text-blue-400" /> : <History className="h-5 w-5" />}
+        {pending.length > 0 && (
+          <span className="absolute -top-1 -right-1 rounded-full bg-blue-500 px-1.5 text-xs text-white">{pending.length}</span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-40 mt-2 w-96 rounded-xl border border-white/10 bg-slate-900/95 p-4 shadow-lg backdrop-blur-sm">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-semibold text-white">Recent Transactions</h3>
+            {history.length > pending.length && (
+              <button onClick={clearHistory} className="text-xs text-gray-400 hover:text-white">
+                Clear
+              </button>
+            )}
+          </div>
+
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-500">No transactions yet.</p>
+          ) : (
+            <ul className="max-h-96 space-y-2 overflow-y-auto">
+              {history.map((tx) => {
+                const { icon: Icon, className } = STATUS_ICONS[tx.status];
+                const url = explorerTxUrl(chains.find((c) => c.id === tx.chainId), tx.hash);
+                return (
+                  <li key={tx.hash} className="flex items-start space-x-3 rounded-lg bg-white/5 p-3">
+                    <Icon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${className}`} />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm text-white truncate">{tx.title}</p>
+                        <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">{formatTime(tx.submittedAt)}</span>
+                      </div>
+                      {tx.error && <p className="text-xs text-red-400 mt-0.5 break-words">{tx.error}</p>}
+                      <div className="flex items-center space-x-2 mt-0.5 text-xs text-gray-500 font-mono">
+                        <span>{`${tx.hash.slice(0, 10)}…${tx.hash.slice(-6)}`}</span>
+                        {url && (
+                          <a href={url} target="_blank" rel="noreferrer" className="text-purple-400 hover:text-purple-300">
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { useAccount, useConfig } from 'wagmi';
+import { getPublicClient, getTransaction, waitForTransactionReceipt } from 'wagmi/actions';
+import { useQueryClient } from '@tanstack/react-query';
+import type { Address, Hash, TransactionReceipt } from 'viem';
+import { TransactionContext, type TransactionManager, type TxResult } from '../hooks/useTransactions';
+import { matchesInvalidation, receiptInvalidation } from '../utils/liveUpdates';
+import { decodeTxError } from '../utils/txErrors';
+import { loadTxHistory, saveTxHistory, upsertTx, type TxRecord } from '../utils/txHistory';
+import TxToaster, { type Toast } from './TxToaster';
+
+// 成功 / 失败提示自动关闭的时间
+const TOAST_TIMEOUT = 6_000;
+
+/**
+ * 共享的交易层：待确认队列、toast 提示、错误解码，以及按账户持久化的交易历史
+ */
+export default function TransactionProvider({ children }: { children: ReactNode }) {
+  const config = useConfig();
+  const queryClient = useQueryClient();
+  const { address, chainId } = useAccount();
+
+  // 当前账户的历史记录；localStorage 是唯一数据源，这里只是镜像
+  const [store, setStore] = useState<{ account?: Address; records: TxRecord[] }>({ records: [] });
+  if (store.account !== address) {
+    setStore({ account: address, records: address ? loadTxHistory(address) : [] });
+  }
+
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const dismiss = useCallback((id: string) => setToasts((list) => list.filter((t) => t.id !== id)), []);
+  const showToast = useCallback(
+    (toast: Toast) => {
+      setToasts((list) => [...list.filter((t) => t.id !== toast.id), toast]);
+      if (toast.kind === 'success' || toast.kind === 'error') setTimeout(() => dismiss(toast.id), TOAST_TIMEOUT);
+    },
+    [dismiss],
+  );
+
+  // 写入记录所属账户的存储（账户切换后仍在等待的交易也能正确落盘）
+  const persist = useCallback((record: TxRecord, previousHash?: Hash) => {
+    const records = loadTxHistory(record.account).filter((r) => r.hash !== previousHash);
+    const next = upsertTx(records, record);
+    saveTxHistory(record.account, next);
+    setStore((s) => (s.account?.toLowerCase() === record.account.toLowerCase() ? { ...s, records: next } : s));
+  }, []);
+
+  // 已 revert 的交易：在上一个区块的状态上重放，取回 revert 原因
+  const explainRevert = useCallback(
+    async (receipt: TransactionReceipt, chainId: number) => {
+      try {
+        const tx = await getTransaction(config, { hash: receipt.transactionHash, chainId });
+        const client = getPublicClient(config, { chainId });
+        if (!client || !tx.to) return 'Transaction reverted.';
+        await client.call({
+          account: tx.from,
+          to: tx.to,
+          data: tx.input,
+          value: tx.value,
+          blockNumber: receipt.blockNumber - 1n,
+        });
+        return 'Transaction reverted.';
+      } catch (err) {
+        return decodeTxError(err);
+      }
+    },
+    [config],
+  );
+
+  // 同一笔交易只跟踪一次：提交时与恢复时共用同一个 Promise
+  const watching = useRef(new Map<Hash, Promise<TxResult>>());
+  const watch = useCallback(
+    (record: TxRecord): Promise<TxResult> => {
+      const existing = watching.current.get(record.hash);
+      if (existing) return existing;
+
+      showToast({ id: record.hash, kind: 'pending', title: record.title, hash: record.hash, chainId: record.chainId });
+      let cancelled = false;
+      const promise = waitForTransactionReceipt(config, {
+        hash: record.hash,
+        chainId: record.chainId,
+        onReplaced: (replacement) => {
+          cancelled = replacement.reason === 'cancelled';
+        },
+      })
+        .then(async (receipt): Promise<TxResult> => {
+          const hash = receipt.transactionHash;
+          if (receipt.status === 'success' && !cancelled) {
+            persist({ ...record, hash, status: 'confirmed', settledAt: Date.now() }, record.hash);
+            showToast({ id: record.hash, kind: 'success', title: record.title, hash, chainId: record.chainId });
+            const invalidation = receiptInvalidation(receipt);
+            queryClient.invalidateQueries({ predicate: (query) => matchesInvalidation(query.queryKey, record.chainId, invalidation) });
+            return { status: 'confirmed', hash, receipt };
+          }
+          const error = cancelled ? 'Transaction was cancelled in the wallet.' : await explainRevert(receipt, record.chainId);
+          persist({ ...record, hash, status: 'failed', settledAt: Date.now(), error }, record.hash);
+          showToast({ id: record.hash, kind: 'error', title: record.title, message: error, hash, chainId: record.chainId });
+          return { status: 'failed', hash, error };
+        })
+        .catch((err): TxResult => {
+          const error = decodeTxError(err);
+          persist({ ...record, status: 'failed', settledAt: Date.now(), error });
+          showToast({ id: record.hash, kind: 'error', title: record.title, message: error });
+          return { status: 'failed', hash: record.hash, error };
+        })
+        .finally(() => watching.current.delete(record.hash));
+
+      watching.current.set(record.hash, promise);
+      return promise;
+    },
+    [config, explainRevert, persist, queryClient, showToast],
+  );
+
+  // 页面刷新 / 切换账户后，继续跟踪仍未确认的交易
+  useEffect(() => {
+    for (const record of store.records) {
+      if (record.status === 'pending') watch(record);
+    }
+  }, [store.records, watch]);
+
+  const submit = useCallback<TransactionManager['submit']>(
+    async (title, write, onSubmitted) => {
+      if (!address || chainId === undefined) return { status: 'failed', error: 'Connect a wallet first.' };
+
+      const signingId = `signing:${title}:${Date.now()}`;
+      showToast({ id: signingId, kind: 'signing', title });
+      let hash: Hash;
+      try {
+        hash = await write();
+      } catch (err) {
+        const error = decodeTxError(err);
+        dismiss(signingId);
+        showToast({ id: signingId, kind: 'error', title, message: error });
+        return { status: 'failed', error };
+      }
+      dismiss(signingId);
+      onSubmitted?.(hash);
+
+      const record: TxRecord = { hash, chainId, account: address, title, status: 'pending', submittedAt: Date.now() };
+      persist(record);
+      return watch(record);
+    },
+    [address, chainId, dismiss, persist, showToast, watch],
+  );
+
+  const clearHistory = useCallback(() => {
+    if (!store.account) return;
+    // 仍在等待的交易保留，以便继续跟踪
+    const pending = store.records.filter((r) => r.status === 'pending');
+    saveTxHistory(store.account, pending);
+    setStore({ account: store.account, records: pending });
+  }, [store]);
+
+  const manager = useMemo<TransactionManager>(
+    () => ({
+      history: store.records,
+      pending: store.records.filter((r) => r.status === 'pending'),
+      submit,
+      clearHistory,
+    }),
+    [store.records, submit, clearHistory],
+  );
+
+  return (
+    <TransactionContext.Provider value={manager}>
+      {children}
+      <TxToaster toasts={toasts} onDismiss={dismiss} />
+    </TransactionContext.Provider>
+  );
+}
@@ -0,0 +1,69 @@
+import { useConfig } from 'wagmi';
+import type { Hash } from 'viem';
+import { explorerTxUrl } from '../utils/explorer';
+import { Loader2, CheckCircle2, AlertCircle, Wallet, X, ExternalLink } from 'lucide-react';
+
+export interface Toast {
+  id: string;
+  kind: 'signing' | 'pending' | 'success' | 'error';
+  title: string;
+  message?: string;
+  hash?: Hash;
+  chainId?: number;
+}
+
+const KIND_STYLES: Record<Toast['kind'], { icon: typeof Loader2; className: string; text: string }> = {
+  signing: { icon: Wallet, className: 'text-purple-400', text: 'Confirm in your wallet…' },
+  pending: { icon: Loader2, className: 'text-blue-400 animate-spin', text: 'Waiting for confirmation…' },
+  success: { icon: CheckCircle2, className: 'text-green-400', text: 'Confirmed' },
+  error: { icon: AlertCircle, className: 'text-red-400', text: 'Failed' },
+};
+
+interface TxToasterProps {
+  toasts: Toast[];
+  onDismiss: (id: string) => void;
+}
+
+// 交易状态提示（右下角堆叠）
+export default function TxToaster({ toasts, onDismiss }: TxToasterProps) {
+  const { chains } = useConfig();
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex w-80 flex-col space-y-2">
+      {toasts.map((toast) => {
+        const { icon: Icon, className, text } = KIND_STYLES[toast.kind];
+        const url = toast.hash ? explorerTxUrl(chains.find((c) => c.id === toast.chainId), toast.hash) : undefined;
+        return (
+          <div
+            key={toast.id}
+            className="flex items-start space-x-3 rounded-lg border border-white/10 bg-slate-900/95 p-4 shadow-lg backdrop-blur-sm"
+          >
+            <Icon className={`h-5 w-5 mt-0.5 flex-shrink-0 ${className}`} />
+            <div className="min-w-0 flex-1">
+              <p className="text-sm font-medium text-white">{toast.title}</p>
+              <p className={`text-xs mt-0.5 break-words ${toast.kind === 'error' ? 'text-red-400' : 'text-gray-400'}`}>
+                {toast.message ?? text}
+              </p>
+              {url && (
+                <a
+                  href={url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="mt-1 inline-flex items-center space-x-1 text-xs text-purple-400 hover:text-purple-300"
+                >
+                  <span>View transaction</span>
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              )}
+            </div>
+            <button onClick={() => onDismiss(toast.id)} className="text-gray-500 hover:text-white">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,36 +1,59 @@
-import { useAccount, useReadContract, useChainId } from 'wagmi';
-import { formatUnits } from 'viem';
-import { VAULT_ABI, ERC20_ABI } from '../config/abis';
-import { getContractAddresses } from '../config/wagmi';
-import { Wallet, TrendingUp, PieChart } from 'lucide-react';
+import { useMemo } from 'react';
+import { useAccount, useBlock } from 'wagmi';
+import { useVault } from '../hooks/useVault';
+import { useVaultSnapshot } from '../hooks/useVaultSnapshot';
+import { usePositionHistory } from '../hooks/usePositionHistory';
+import { useAccessState } from '../hooks/useAccessState';
+import { useVaultTokens } from '../hooks/useVaultTokens';
+import { ROLE_LABELS } from '../utils/accessControl';
+import {
+  computePosition,
+  returnPercent,
+  annualizedReturnPercent,
+  EMPTY_POSITION,
+} from '../utils/positionAccounting';
+import { formatPercent } from '../utils/format';
+import { assetsPerShare } from '../utils/tokens';
+import { Wallet, TrendingUp, PieChart, Coins } from 'lucide-react';
 
 export default function UserPosition() {
   const { address } = useAccount();
-  const chainId = useChainId();
-  const addresses = getContractAddresses(chainId);
-
-  // Read user's share balance
-  const { data: shareBalance } = useReadContract({
-    address: addresses.vaultToken as `0x${string}`,
-    abi: ERC20_ABI,
-    functionName: 'balanceOf',
-    args: address ? [address] : undefined,
-  });
+  const addresses = useVault();
+  const { share, formatShares, formatValue } = useVaultTokens();
+
+  // share 余额与价格来自同一区块的 Vault 快照
+  const { data: snapshot } = useVaultSnapshot();
+  const shareBalance = snapshot?.account?.shareBalance;
+  const sharePrice = snapshot?.sharePrice;
 
-  // Read share price
-  const { data: sharePrice } = useReadContract({
-    address: addresses.vault as `0x${string}`,
-    abi: VAULT_ABI,
-    functionName: 'sharePrice',
+  // 链上历史（Deposit / Redeem / Transfer）
+  const { data: history, isLoading: isHistoryLoading } = usePositionHistory({
+    vault: addresses.vault as `0x${string}`,
+    vaultToken: addresses.vaultToken as `0x${string}`,
+    user: address,
   });
 
-  // Calculate user's position value
-  const positionValue = shareBalance && sharePrice
-    ? (BigInt(shareBalance) * BigInt(sharePrice)) / BigInt(10 ** 18)
-    : BigInt(0);
+  // 当前账户在 VaultAccessControl 中的角色
+  const { accountRoles } = useAccessState();
 
-  const formattedShares = shareBalance ? formatUnits(shareBalance, 18) : '0';
-  const formattedValue = positionValue ? formatUnits(positionValue, 18) : '0';
+  // 最新区块时间，用于计算持有时长
+  const { data: latestBlock } = useBlock();
+
+  const position = useMemo(
+    () => history && shareBalance !== undefined && sharePrice !== undefined
+      ? computePosition(history.events, shareBalance, sharePrice)
+      : EMPTY_POSITION,
+    [history, shareBalance, sharePrice],
+  );
+
+  const heldSeconds = history?.firstAcquiredAt && latestBlock
+    ? Number(latestBlock.timestamp) - history.firstAcquiredAt
+    : 0;
+  const positionReturn = returnPercent(position);
+  const annualized = annualizedReturnPercent(position, heldSeconds);
+  const pnlClass = position.totalPnl < 0n ? 'text-red-400' : 'text-green-400';
+
+  const pending = isHistoryLoading ? '…' : undefined;
 
   return (
     <div className="rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6">
@@ -45,8 +68,10 @@ export default function UserPosition() {
         {/* Total Value */}
         <div>
           <p className="text-sm text-gray-400 mb-1">Total Value</p>
-          <p className="text-3xl font-bold text-white">${Number(formattedValue).toFixed(2)}</p>
-          <p className="text-sm text-green-400 mt-1">+$127.45 (5.2%)</p>
+          <p className="text-3xl font-bold text-white">{formatValue(position.currentValue)}</p>
+          <p className={`text-sm mt-1 ${pnlClass}`}>
+            {pending ?? `${formatValue(position.totalPnl, true)} (${formatPercent(positionReturn, true)})`}
+          </p>
         </div>
 
         {/* Share Balance */}
@@ -57,7 +82,7 @@ export default function UserPosition() {
               <span className="text-sm text-gray-400">Shares</span>
             </div>
             <span className="text-sm font-medium text-white">
-              {Number(formattedShares).toFixed(4)}
+              {formatShares(shareBalance ?? 0n, 4)}
             </span>
           </div>
 
@@ -67,20 +92,46 @@ export default function UserPosition() {
               <span className="text-sm text-gray-400">Share Price</span>
             </div>
             <span className="text-sm font-medium text-white">
-              ${sharePrice ? Number(formatUnits(sharePrice, 18)).toFixed(4) : '1.0000'}
+              {sharePrice !== undefined ? formatValue(assetsPerShare(sharePrice, share.decimals), false, 4) : '…'}
+            </span>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Coins className="h-4 w-4 text-gray-400" />
+              <span className="text-sm text-gray-400">Avg Cost</span>
+            </div>
+            <span className="text-sm font-medium text-white">
+              {pending ?? formatValue(assetsPerShare(position.averageCostPerShare, share.decimals), false, 4)}
             </span>
           </div>
         </div>
 
         {/* Earnings */}
-        <div className="rounded-lg border border-green-500/20 bg-green-500/5 p-4">
-          <div className="flex items-center justify-between mb-2">
+        <div className="rounded-lg border border-green-500/20 bg-green-500/5 p-4 space-y-2">
+          <div className="flex items-center justify-between">
             <span className="text-sm text-gray-400">Total Earnings</span>
-            <span className="text-sm font-medium text-green-400">+$127.45</span>
+            <span className={`text-sm font-medium ${pnlClass}`}>
+              {pending ?? formatValue(position.totalPnl, true)}
+            </span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-400">Realized</span>
+            <span className="text-sm font-medium text-white">
+              {pending ?? formatValue(position.realizedPnl, true)}
+            </span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-400">Unrealized</span>
+            <span className="text-sm font-medium text-white">
+              {pending ?? formatValue(position.unrealizedPnl, true)}
+            </span>
           </div>
           <div className="flex items-center justify-between">
             <span className="text-sm text-gray-400">APY</span>
-            <span className="text-sm font-medium text-white">18.5%</span>
+            <span className="text-sm font-medium text-white">
+              {pending ?? (heldSeconds > 0 ? formatPercent(annualized) : '—')}
+            </span>
           </div>
         </div>
 
@@ -88,13 +139,27 @@ export default function UserPosition() {
         <div className="grid grid-cols-2 gap-3">
           <div className="rounded-lg bg-white/5 p-3">
             <p className="text-xs text-gray-400 mb-1">Deposited</p>
-            <p className="text-sm font-medium text-white">$2,450.00</p>
+            <p className="text-sm font-medium text-white">
+              {pending ?? formatValue(position.netDeposited)}
+            </p>
           </div>
           <div className="rounded-lg bg-white/5 p-3">
             <p className="text-xs text-gray-400 mb-1">Available</p>
-            <p className="text-sm font-medium text-white">${formattedValue}</p>
+            <p className="text-sm font-medium text-white">{formatValue(position.currentValue)}</p>
           </div>
         </div>
+
+        {/* Roles */}
+        {accountRoles.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-gray-400">Your roles:</span>
+            {accountRoles.map((role) => (
+              <span key={role} className="text-xs px-2 py-0.5 rounded-full bg-purple-500/10 text-purple-300">
+                {ROLE_LABELS[role]}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,195 @@
+import { useState, type MouseEvent } from 'react';
+import { useVault } from '../hooks/useVault';
+import { useVaultTokens } from '../hooks/useVaultTokens';
+import { useVaultHistory } from '../hooks/useVaultHistory';
+import { assetsPerShare } from '../utils/tokens';
+import { CHART_RANGES, type ChartRange, type HistoryMarker } from '../utils/vaultHistory';
+import type { VaultSample } from '../utils/yieldAnalytics';
+import { LineChart, Loader2 } from 'lucide-react';
+
+type Metric = 'sharePrice' | 'tvl';
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 8;
+
+const MARKER_COLORS: Record<HistoryMarker['kind'], string> = {
+  harvest: 'bg-green-400',
+  strategy: 'bg-blue-400',
+  investRatio: 'bg-yellow-400',
+};
+
+const shortAddress = (addr: string) => `${addr.slice(0, 6)}…${addr.slice(-4)}`;
+
+export default function VaultChart() {
+  const addresses = useVault();
+  const { asset, share, formatAsset, formatValue } = useVaultTokens();
+  const [range, setRange] = useState<ChartRange>('7d');
+  const [metric, setMetric] = useState<Metric>('sharePrice');
+  const [hovered, setHovered] = useState<number>();
+
+  const { data, isLoading, error } = useVaultHistory(addresses.vault as `0x${string}`, range);
+
+  // 图上的数值使用资产单位：share price 为每个完整 share 可兑换的资产数量
+  const valueOf = (point: VaultSample) =>
+    metric === 'sharePrice' ? assetsPerShare(point.sharePrice, share.decimals) : point.totalAssets;
+  const points = data?.points ?? [];
+  const values = points.map((p) => Number(valueOf(p)) / 10 ** asset.decimals);
+
+  // 横轴按时间，纵轴在最小值与最大值之间留出边距；只有一个点或数值不变时画成水平线
+  const minTime = points[0]?.timestamp ?? 0;
+  const timeSpan = Math.max((points[points.length - 1]?.timestamp ?? 0) - minTime, 1);
+  const minValue = Math.min(...values);
+  const valueSpan = Math.max(...values) - minValue || Math.abs(minValue) || 1;
+  const x = (i: number) => PADDING + ((points[i].timestamp - minTime) / timeSpan) * (WIDTH - 2 * PADDING);
+  const y = (i: number) => HEIGHT - PADDING - ((values[i] - minValue) / valueSpan) * (HEIGHT - 2 * PADDING);
+  const path = points.map((_, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(i).toFixed(1)}`).join(' ');
+
+  // 鼠标横坐标对应的最近采样点
+  const handleMove = (event: MouseEvent<HTMLDivElement>) => {
+    if (points.length === 0) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const target = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    let nearest = 0;
+    points.forEach((_, i) => {
+      if (Math.abs(x(i) - target) < Math.abs(x(nearest) - target)) nearest = i;
+    });
+    setHovered(nearest);
+  };
+
+  const describeMarker = (marker: HistoryMarker) => {
+    switch (marker.kind) {
+      case 'harvest':
+        return marker.loss > 0n ? `Harvest loss −${formatAsset(marker.loss, 4)}` : `Harvest profit +${formatAsset(marker.profit, 4)}`;
+      case 'strategy':
+        return `Strategy set to ${shortAddress(marker.newStrategy)}`;
+      case 'investRatio':
+        return `Invest ratio ${Number(marker.oldRatio) / 100}% → ${Number(marker.newRatio) / 100}%`;
+    }
+  };
+
+  const active = hovered !== undefined && hovered < points.length ? points[hovered] : undefined;
+  const activeMarkers = active ? (data?.markers ?? []).filter((m) => m.blockNumber === active.blockNumber) : [];
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex items-center space-x-3">
+          <div className="rounded-lg bg-purple-500/10 p-2">
+            <LineChart className="h-5 w-5 text-purple-400" />
+          </div>
+          <div className="flex space-x-1 bg-black/20 p-1 rounded-md">
+            {(['sharePrice', 'tvl'] as const).map((m) => (
+              <button
+                key={m}
+                onClick={() => setMetric(m)}
+                className={`px-3 py-1 rounded text-xs font-medium transition-all ${
+                  metric === m ? 'bg-purple-500 text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {m === 'sharePrice' ? 'Share Price' : 'TVL'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex space-x-1 bg-black/20 p-1 rounded-md">
+          {(Object.keys(CHART_RANGES) as ChartRange[]).map((r) => (
+            <button
+              key={r}
+              onClick={() => {
+                setRange(r);
+                setHovered(undefined);
+              }}
+              className={`px-3 py-1 rounded text-xs font-medium transition-all ${
+                range === r ? 'bg-purple-500 text-white' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {r === 'all' ? 'All' : r}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-48 text-gray-400">
+          <Loader2 className="h-5 w-5 animate-spin mr-2" />
+          <span className="text-sm">Loading history…</span>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-400">Failed to load history: {error.message}</p>
+      ) : points.length === 0 ? (
+        <p className="text-sm text-gray-400">No history in this range.</p>
+      ) : (
+        <>
+          <div className="relative h-48" onMouseMove={handleMove} onMouseLeave={() => setHovered(undefined)}>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="h-full w-full">
+              <path d={path} fill="none" stroke="#a855f7" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+              {active && (
+                <line
+                  x1={x(hovered!)}
+                  x2={x(hovered!)}
+                  y1={0}
+                  y2={HEIGHT}
+                  stroke="rgba(255,255,255,0.2)"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+            </svg>
+
+            {/* 事件标记用 HTML 绘制，避免 SVG 拉伸后变形 */}
+            {data!.markers.map((marker, index) => {
+              const i = points.indexOf(marker.point);
+              return (
+                <span
+                  key={`${marker.kind}-${index}`}
+                  className={`pointer-events-none absolute h-2.5 w-2.5 -translate-x-1/2 -translate-y-1/2 rounded-full ring-2 ring-black/40 ${MARKER_COLORS[marker.kind]}`}
+                  style={{ left: `${(x(i) / WIDTH) * 100}%`, top: `${(y(i) / HEIGHT) * 100}%` }}
+                />
+              );
+            })}
+            {active && (
+              <span
+                className="pointer-events-none absolute h-2 w-2 -translate-x-1/2 -translate-y-1/2 rounded-full bg-white"
+                style={{ left: `${(x(hovered!) / WIDTH) * 100}%`, top: `${(y(hovered!) / HEIGHT) * 100}%` }}
+              />
+            )}
+
+            {active && (
+              <div
+                className={`pointer-events-none absolute top-0 rounded-lg border border-white/10 bg-black/80 p-3 text-xs space-y-1 ${
+                  x(hovered!) > WIDTH / 2 ? '-translate-x-full -ml-3' : 'ml-3'
+                }`}
+                style={{ left: `${(x(hovered!) / WIDTH) * 100}%` }}
+              >
+                <p className="text-gray-400">
+                  {new Date(active.timestamp * 1000).toLocaleString()} · block {active.blockNumber.toString()}
+                </p>
+                <p className="text-white">
+                  Share price: {formatValue(assetsPerShare(active.sharePrice, share.decimals), false, 6)}
+                </p>
+                <p className="text-white">TVL: {formatValue(active.totalAssets)}</p>
+                {activeMarkers.map((marker, i) => (
+                  <p key={i} className="text-purple-300">{describeMarker(marker)}</p>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2 mt-4 text-xs text-gray-500">
+            <div className="flex space-x-4">
+              {(['harvest', 'strategy', 'investRatio'] as const).map((kind) => (
+                <span key={kind} className="flex items-center space-x-1.5">
+                  <span className={`h-2 w-2 rounded-full ${MARKER_COLORS[kind]}`} />
+                  <span>{kind === 'harvest' ? 'Harvest' : kind === 'strategy' ? 'Strategy change' : 'Invest ratio'}</span>
+                </span>
+              ))}
+            </div>
+            <span>
+              Blocks {data!.startBlock.toString()}–{data!.latestBlock.toString()} · {points.length} samples
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { Link } from 'react-router';
+import { zeroAddress } from 'viem';
+import { useVaultList, aggregatePositions, type AssetTotal, type VaultSummary } from '../hooks/useVaultList';
+import { useTokenPrice } from '../hooks/useTokenPrice';
+import { formatAssetValue, formatToken } from '../utils/format';
+import { assetsPerShare } from '../utils/tokens';
+import type { Deployment } from '../utils/deployments';
+import { Layers, Wallet, ChevronRight, Loader2 } from 'lucide-react';
+
+const shortAddress = (addr: string) => `${addr.slice(0, 6)}…${addr.slice(-4)}`;
+
+interface VaultListProps {
+  deployment: Deployment;
+}
+
+// 单个资产的汇总持仓；有价格时附带 USD 价值
+function PositionCard({ position }: { position: AssetTotal }) {
+  const { data: price } = useTokenPrice(position.token);
+  return (
+    <div className="rounded-lg bg-white/5 p-4">
+      <p className="text-sm text-gray-400 mb-1">Total {position.token.symbol}</p>
+      <p className="text-2xl font-bold text-white">{formatToken(position.userAssets, position.token)}</p>
+      <p className="text-xs text-gray-500 mt-1">
+        {price && `≈ ${formatAssetValue(position.userAssets, position.token, price)} · `}
+        across {position.vaultCount} vault{position.vaultCount > 1 ? 's' : ''}
+      </p>
+    </div>
+  );
+}
+
+function VaultRow({ vault: v }: { vault: VaultSummary }) {
+  const { data: price } = useTokenPrice(v.assetToken);
+  return (
+    <tr className="border-b border-white/5 last:border-0 hover:bg-white/5 transition-colors">
+      <td className="py-3">
+        <Link to={`/vault/${v.vault}`} className="block">
+          <p className="font-medium text-white">{v.assetToken.symbol} Vault</p>
+          <p className="text-xs text-gray-500 font-mono">{shortAddress(v.vault)}</p>
+        </Link>
+      </td>
+      <td className="py-3 text-right text-white tabular-nums">
+        {formatToken(v.totalAssets, v.assetToken)}
+        {price && <p className="text-xs text-gray-500">{formatAssetValue(v.totalAssets, v.assetToken, price)}</p>}
+      </td>
+      <td className="py-3 text-right text-white tabular-nums">
+        {formatToken(assetsPerShare(v.sharePrice, v.shareToken.decimals), v.assetToken, 4)}
+      </td>
+      <td className="py-3">
+        {v.currentStrategy === zeroAddress ? (
+          <span className="text-gray-500">None</span>
+        ) : (
+          <span className="font-mono text-gray-300">
+            {shortAddress(v.currentStrategy)}
+            {!v.strategyActive && <span className="ml-2 font-sans text-xs text-yellow-400">inactive</span>}
+          </span>
+        )}
+      </td>
+      <td className="py-3 text-right tabular-nums">
+        {v.userShares > 0n ? (
+          <span className="text-white">{formatToken(v.userAssets, v.assetToken)}</span>
+        ) : (
+          <span className="text-gray-500">—</span>
+        )}
+      </td>
+      <td className="py-3 text-right">
+        <Link to={`/vault/${v.vault}`} className="inline-flex text-gray-400 hover:text-white">
+          <ChevronRight className="h-4 w-4" />
+        </Link>
+      </td>
+    </tr>
+  );
+}
+
+// Vault 列表页：展示当前链上所有 Vault，并汇总用户在各 Vault 中的持仓
+export default function VaultList({ deployment }: VaultListProps) {
+  const { data: vaults, isLoading } = useVaultList(deployment.vaults);
+  const positions = vaults ? aggregatePositions(vaults) : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Aggregated positions */}
+      <div className="rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-white">Your Positions</h2>
+          <div className="rounded-lg bg-purple-500/10 p-2">
+            <Wallet className="h-5 w-5 text-purple-400" />
+          </div>
+        </div>
+        {positions.length === 0 ? (
+          <p className="text-sm text-gray-400">{isLoading ? 'Loading…' : 'You have no deposits in any vault yet.'}</p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {positions.map((p) => (
+              <PositionCard key={p.token.address} position={p} />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Vaults */}
+      <div className="rounded-xl border border-white/10 bg-white/5 backdrop-blur-sm p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-white">Vaults</h2>
+          <div className="rounded-lg bg-purple-500/10 p-2">
+            <Layers className="h-5 w-5 text-purple-400" />
+          </div>
+        </div>
+
+        {isLoading || !vaults ? (
+          <div className="flex items-center text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            <span className="text-sm">Loading vaults…</span>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-white/10">
+                  <th className="pb-3 font-medium">Vault</th>
+                  <th className="pb-3 font-medium text-right">TVL</th>
+                  <th className="pb-3 font-medium text-right">Share Price</th>
+                  <th className="pb-3 font-medium">Strategy</th>
+                  <th className="pb-3 font-medium text-right">Your Position</th>
+                  <th className="pb-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {vaults.map((v) => (
+                  <VaultRow key={v.vault} vault={v} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
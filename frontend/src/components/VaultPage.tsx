@@ -0,0 +1,160 @@
+import type { ReactNode } from 'react';
+import { Link, NavLink, Navigate, Route, Routes, useParams } from 'react-router';
+import { useAccount } from 'wagmi';
+import VaultStats from './VaultStats';
+import VaultChart from './VaultChart';
+import DepositWithdraw from './DepositWithdraw';
+import UserPosition from './UserPosition';
+import HolderLeaderboard from './HolderLeaderboard';
+import OperatorConsole from './OperatorConsole';
+import FeePanel from './FeePanel';
+import StrategyMonitor from './StrategyMonitor';
+import AccessAdmin from './AccessAdmin';
+import AccountingExport from './AccountingExport';
+import { VaultContext, type VaultContextValue } from '../hooks/useVault';
+import { useAccessState } from '../hooks/useAccessState';
+import { useLiveUpdates } from '../hooks/useLiveUpdates';
+import { useVaultTokens } from '../hooks/useVaultTokens';
+import { useVaultSnapshot } from '../hooks/useVaultSnapshot';
+import { findVault, type Deployment } from '../utils/deployments';
+import { ArrowLeft, SearchX } from 'lucide-react';
+
+interface VaultPageProps {
+  deployment: Deployment;
+}
+
+// /vault/:address 路由：查找 Vault 并通过 VaultContext 提供给子组件
+export default function VaultPage({ deployment }: VaultPageProps) {
+  const { address = '' } = useParams();
+  const vault = findVault(deployment, address);
+
+  if (!vault) {
+    return (
+      <div className="flex min-h-[60vh] flex-col items-center justify-center space-y-4 text-center">
+        <div className="rounded-full bg-yellow-500/10 p-6">
+          <SearchX className="h-12 w-12 text-yellow-400" />
+        </div>
+        <h2 className="text-2xl font-bold text-white">Vault not found</h2>
+        <p className="text-gray-400 max-w-md">
+          <span className="font-mono">{address}</span> is not a known vault on this network.
+        </p>
+        <Link to="/" className="text-purple-400 hover:text-purple-300">Back to all vaults</Link>
+      </div>
+    );
+  }
+
+  const value: VaultContextValue = {
+    ...vault,
+    chainId: deployment.chainId,
+    feeManager: deployment.feeManager,
+    accessControl: deployment.accessControl,
+  };
+
+  return (
+    <VaultContext.Provider value={value}>
+      <VaultRoutes vault={value} />
+    </VaultContext.Provider>
+  );
+}
+
+function VaultRoutes({ vault }: { vault: VaultContextValue }) {
+  const { address } = useAccount();
+
+  const { asset } = useVaultTokens();
+
+  // 新区块与链上事件到达时刷新受影响的余额、授权与 Vault 数据
+  useLiveUpdates(vault);
+
+  // 只有 Vault owner 才能看到运维页面
+  const { data: snapshot } = useVaultSnapshot();
+  const owner = snapshot?.owner;
+  const isOwner = Boolean(owner && address && owner.toLowerCase() === address.toLowerCase());
+
+  // 访问控制管理页面对 owner 和 guardian 可见
+  const { accountRoles, state: accessState } = useAccessState();
+  const canManageAccess = accountRoles.includes('owner') || accountRoles.includes('guardian');
+
+  // 角色读取完成前不做跳转，避免直接打开 /operator 时被误重定向
+  const home = `/vault/${vault.vault}`;
+  const guard = (allowed: boolean, loaded: boolean, element: ReactNode) =>
+    allowed ? element : loaded ? <Navigate to={home} replace /> : null;
+
+  const tabs = [
+    { to: '', label: 'Overview' },
+    ...(isOwner ? [{ to: 'operator', label: 'Operator' }] : []),
+    ...(canManageAccess ? [{ to: 'access', label: 'Access' }] : []),
+    { to: 'export', label: 'Export' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <Link to="/" className="rounded-lg bg-white/5 p-2 text-gray-400 hover:text-white transition-colors">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <div>
+            <h2 className="text-2xl font-bold text-white">{asset.symbol ? `${asset.symbol} Vault` : 'Vault'}</h2>
+            <p className="text-xs text-gray-500 font-mono">{vault.vault}</p>
+          </div>
+        </div>
+        {tabs.length > 1 && (
+          <nav className="flex space-x-1 bg-black/20 p-1 rounded-lg">
+            {tabs.map((tab) => (
+              <NavLink
+                key={tab.label}
+                to={tab.to}
+                end
+                className={({ isActive }) =>
+                  `px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                    isActive ? 'bg-purple-500 text-white' : 'text-gray-400 hover:text-white'
+                  }`
+                }
+              >
+                {tab.label}
+              </NavLink>
+            ))}
+          </nav>
+        )}
+      </div>
+
+      <Routes>
+        <Route index element={<VaultOverview />} />
+        <Route path="operator" element={guard(isOwner, owner !== undefined, <OperatorConsole />)} />
+        <Route path="access" element={guard(canManageAccess, accessState !== undefined, <AccessAdmin />)} />
+        <Route path="export" element={<AccountingExport />} />
+        <Route path="*" element={<Navigate to={home} replace />} />
+      </Routes>
+    </div>
+  );
+}
+
+function VaultOverview() {
+  return (
+    <div className="space-y-6">
+      {/* Vault Statistics */}
+      <VaultStats />
+
+      {/* Share Price / TVL History */}
+      <VaultChart />
+
+      {/* Main Grid */}
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Left Column - User Position */}
+        <div className="lg:col-span-1 space-y-6">
+          <UserPosition />
+          <FeePanel />
+        </div>
+
+        {/* Right Column - Deposit/Withdraw */}
+        <div className="lg:col-span-2 space-y-6">
+          <DepositWithdraw />
+          <StrategyMonitor />
+        </div>
+      </div>
+
+      {/* Holder Leaderboard */}
+      <HolderLeaderboard />
+    </div>
+  );
+}
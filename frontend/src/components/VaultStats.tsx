@@ -1,56 +1,89 @@
-import { useReadContract, useChainId } from 'wagmi';
-import { formatUnits } from 'viem';
-import { VAULT_ABI } from '../config/abis';
-import { getContractAddresses } from '../config/wagmi';
+import { useVault } from '../hooks/useVault';
+import { useVaultSnapshot } from '../hooks/useVaultSnapshot';
+import { useYieldAnalytics } from '../hooks/useYieldAnalytics';
+import { useHolderIndex } from '../hooks/useHolderIndex';
+import { useVaultTokens } from '../hooks/useVaultTokens';
+import { assetsPerShare } from '../utils/tokens';
+import { formatPercent } from '../utils/format';
+import type { WindowStats, YieldWindow } from '../utils/yieldAnalytics';
 import { TrendingUp, DollarSign, Percent, Users } from 'lucide-react';
 
+type ChangeType = 'positive' | 'negative' | 'neutral';
+
+// 把百分比变化转换成徽标文字和颜色；没有数据时显示占位
+function toChange(value: number | undefined, suffix = ''): { change: string; changeType: ChangeType } {
+  if (value === undefined) return { change: '—', changeType: 'neutral' };
+  return {
+    change: `${formatPercent(value, true)}${suffix}`,
+    changeType: value > 0 ? 'positive' : value < 0 ? 'negative' : 'neutral',
+  };
+}
+
+// 优先使用 7d 窗口的 APY，历史不足时退回 24h
+function headlineApy(windows?: Record<YieldWindow, WindowStats>) {
+  if (!windows) return undefined;
+  if (windows['7d'].available) return { apy: windows['7d'].apy ?? 0, label: '7d' };
+  if (windows['24h'].available) return { apy: windows['24h'].apy ?? 0, label: '24h' };
+  return undefined;
+}
+
 export default function VaultStats() {
-  const chainId = useChainId();
-  const addresses = getContractAddresses(chainId);
+  const addresses = useVault();
+  const { share, price, formatValue } = useVaultTokens();
 
-  // Read total assets
-  const { data: totalAssets } = useReadContract({
-    address: addresses.vault as `0x${string}`,
-    abi: VAULT_ABI,
-    functionName: 'totalAssets',
-  });
+  // TVL 与 share 价格来自同一区块的 Vault 快照
+  const { data: snapshot } = useVaultSnapshot();
+  const totalAssets = snapshot?.totalAssets;
+  const sharePrice = snapshot?.sharePrice;
+
+  // 历史采样得到的 APY 与 24h 变化
+  const { data: analytics, isLoading: isAnalyticsLoading } = useYieldAnalytics(addresses.vault as `0x${string}`);
+  const day = analytics?.windows['24h'];
+  const month = analytics?.windows['30d'];
+  const apy = headlineApy(analytics?.windows);
+
+  const apyValue = isAnalyticsLoading
+    ? '…'
+    : apy ? formatPercent(apy.apy) : 'Insufficient history';
+  const apyHint = apy
+    ? `Trailing ${apy.label}${month?.harvestCount ? ` · ${month.harvestCount} harvests (30d)` : ''}`
+    : analytics ? 'Vault is too new for a 24h window' : undefined;
 
-  // Read share price
-  const { data: sharePrice } = useReadContract({
-    address: addresses.vault as `0x${string}`,
-    abi: VAULT_ABI,
-    functionName: 'sharePrice',
+  // 由 Transfer 事件索引得到的持有人数量
+  const { data: holders } = useHolderIndex({
+    vault: addresses.vault as `0x${string}`,
+    vaultToken: addresses.vaultToken as `0x${string}`,
   });
 
-  // Mock data for demo (replace with real data later)
-  const stats = [
+  const stats: { label: string; value: string; hint?: string; icon: typeof DollarSign; change: string; changeType: ChangeType }[] = [
     {
       label: 'Total Value Locked',
-      value: totalAssets ? `$${formatUnits(totalAssets, 18)}` : '$0',
+      value: formatValue(totalAssets ?? 0n),
       icon: DollarSign,
-      change: '+12.5%',
-      changeType: 'positive' as const,
+      ...toChange(day?.tvlChange, ' 24h'),
     },
     {
       label: 'Current APY',
-      value: '18.5%',
+      value: apyValue,
+      hint: apyHint,
       icon: Percent,
-      change: '+2.3%',
-      changeType: 'positive' as const,
+      ...toChange(month?.apy, ' 30d'),
     },
     {
       label: 'Share Price',
-      value: sharePrice ? `$${Number(formatUnits(sharePrice, 18)).toFixed(4)}` : '$1.0000',
+      // 有 USD 价格时显示每 share 的美元价值，否则显示每 share 可兑换的资产数量
+      value: sharePrice !== undefined ? formatValue(assetsPerShare(sharePrice, share.decimals), false, 4) : '…',
+      hint: price ? `Priced via ${price.source}` : undefined,
       icon: TrendingUp,
-      change: '+5.2%',
-      changeType: 'positive' as const,
+      ...toChange(day?.sharePriceChange, ' 24h'),
     },
     {
       label: 'Total Depositors',
-      value: '1,234',
+      value: holders ? holders.holderCount.toLocaleString('en-US') : '…',
+      hint: holders ? 'New holders in the last 24h' : undefined,
       icon: Users,
-      change: '+156',
-      changeType: 'positive' as const,
+      change: holders ? `+${holders.newHolders24h}` : '—',
+      changeType: holders?.newHolders24h ? 'positive' : 'neutral',
     },
   ];
 
@@ -69,7 +102,9 @@ export default function VaultStats() {
               </div>
               <span
                 className={`text-sm font-medium ${
-                  stat.changeType === 'positive' ? 'text-green-400' : 'text-red-400'
+                  stat.changeType === 'positive'
+                    ? 'text-green-400'
+                    : stat.changeType === 'negative' ? 'text-red-400' : 'text-gray-500'
                 }`}
               >
                 {stat.change}
@@ -78,6 +113,7 @@ export default function VaultStats() {
             <div>
               <p className="text-sm text-gray-400 mb-1">{stat.label}</p>
               <p className="text-2xl font-bold text-white">{stat.value}</p>
+              {stat.hint && <p className="text-xs text-gray-500 mt-1">{stat.hint}</p>}
             </div>
           </div>
         );
@@ -1,79 +1,17 @@
-// A more complete ABI for `MinimalVault` (keep in sync with contracts/src/core/MinimalVault.sol)
-export const VAULT_ABI = [
-  // View functions
-  { inputs: [], name: 'totalAssets', outputs: [{ type: 'uint256' }], stateMutability: 'view', type: 'function' },
-  { inputs: [], name: 'sharePrice', outputs: [{ type: 'uint256' }], stateMutability: 'view', type: 'function' },
-  { inputs: [{ name: 'assets', type: 'uint256' }], name: 'previewDeposit', outputs: [{ type: 'uint256' }], stateMutability: 'view', type: 'function' },
-  { inputs: [{ name: 'shares', type: 'uint256' }], name: 'previewRedeem', outputs: [{ type: 'uint256' }], stateMutability: 'view', type: 'function' },
-  { inputs: [{ name: 'user', type: 'address' }], name: 'balanceOfAssets', outputs: [{ type: 'uint256' }], stateMutability: 'view', type: 'function' },
-  { inputs: [], name: 'initialized', outputs: [{ type: 'bool' }], stateMutability: 'view', type: 'function' },
-  { inputs: [], name: 'investRatioBps', outputs: [{ type: 'uint256' }], stateMutability: 'view', type: 'function' },
-  {
-    inputs: [],
-    name: 'getStrategyInfo',
-    outputs: [
-      { name: 'strategyAddress', type: 'address' },
-      { name: 'isStrategyActive', type: 'bool' },
-      { name: 'investedAmount', type: 'uint256' },
-      { name: 'strategyTotalAssets', type: 'uint256' },
-    ],
-    stateMutability: 'view',
-    type: 'function',
-  },
-
-  // State-changing functions
-  { inputs: [{ name: 'assets', type: 'uint256' }], name: 'deposit', outputs: [{ type: 'uint256' }], stateMutability: 'nonpayable', type: 'function' },
-  { inputs: [{ name: 'shares', type: 'uint256' }], name: 'redeem', outputs: [{ type: 'uint256' }], stateMutability: 'nonpayable', type: 'function' },
-  { inputs: [], name: 'invest', outputs: [], stateMutability: 'nonpayable', type: 'function' },
-  { inputs: [], name: 'harvest', outputs: [], stateMutability: 'nonpayable', type: 'function' },
-  { inputs: [{ name: '_strategy', type: 'address' }], name: 'setStrategy', outputs: [], stateMutability: 'nonpayable', type: 'function' },
-  { inputs: [{ name: '_investRatioBps', type: 'uint256' }], name: 'setInvestRatio', outputs: [], stateMutability: 'nonpayable', type: 'function' },
-
-  // Events (kept minimal)
-  { anonymous: false, inputs: [ { indexed: true, name: 'user', type: 'address' }, { indexed: false, name: 'assets', type: 'uint256' }, { indexed: false, name: 'shares', type: 'uint256' } ], name: 'Deposit', type: 'event' },
-  { anonymous: false, inputs: [ { indexed: true, name: 'user', type: 'address' }, { indexed: false, name: 'shares', type: 'uint256' }, { indexed: false, name: 'assets', type: 'uint256' } ], name: 'Redeem', type: 'event' },
-] as const;
-
-export const ERC20_ABI = [
-  {
-    inputs: [{ name: 'account', type: 'address' }],
-    name: 'balanceOf',
-    outputs: [{ type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [
-      { name: 'spender', type: 'address' },
-      { name: 'amount', type: 'uint256' },
-    ],
-    name: 'approve',
-    outputs: [{ type: 'bool' }],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [
-      { name: 'owner', type: 'address' },
-      { name: 'spender', type: 'address' },
-    ],
-    name: 'allowance',
-    outputs: [{ type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'decimals',
-    outputs: [{ type: 'uint8' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'symbol',
-    outputs: [{ type: 'string' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-] as const;
\ No newline at end of file
+// 合约 ABI 统一出口：ABI 由 scripts/generate-abis.ts 从 Foundry 编译产物生成（见 ./generated/abis.ts）
+// 合约变更后运行 `forge build && npm run abis:generate`，CI 中可用 `npm run abis:check` 检查是否同步
+export {
+  MINIMAL_VAULT_ABI as VAULT_ABI,
+  VAULT_TOKEN_ABI,
+  FEE_MANAGER_ABI,
+  VAULT_ACCESS_CONTROL_ABI as ACCESS_CONTROL_ABI,
+  // `BaseStrategy` 的公共接口（所有 Strategy 通用）
+  BASE_STRATEGY_ABI as STRATEGY_ABI,
+  // `MockStrategy` 在 BaseStrategy 之上增加了 APY 模拟与亏损模拟
+  MOCK_STRATEGY_ABI,
+  // 资产与 VaultToken 共用的标准 ERC20 接口
+  ERC20_METADATA_ABI as ERC20_ABI,
+  // 可选扩展：EIP-2612 permit 与 ERC-5267 EIP-712 域信息
+  ERC20_PERMIT_ABI,
+  ERC5267_ABI,
+} from './generated/abis';
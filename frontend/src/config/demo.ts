@@ -0,0 +1,151 @@
+// 演示模式：不连接任何节点与钱包扩展，wagmi 的 transport 换成浏览器内存中的模拟链（见 utils/demoChain）
+// 通过 `npm run dev:demo`（vite --mode demo）或 VITE_DEMO_MODE=true 开启
+import { createConnector } from 'wagmi';
+import { custom, fromHex, getAddress, numberToHex, type Address, type EIP1193RequestFn } from 'viem';
+import type { Chain } from 'wagmi/chains';
+import type { Wallet } from '@rainbow-me/rainbowkit';
+import { createDemoChain, type DemoChain } from '../utils/demoChain';
+import type { Deployment } from '../utils/deployments';
+
+export const DEMO_MODE = import.meta.env.MODE === 'demo' || import.meta.env.VITE_DEMO_MODE === 'true';
+
+export const demoChain: Chain = {
+  id: 1337,
+  name: 'Demo (simulated)',
+  nativeCurrency: { name: 'Ethereum', symbol: 'ETH', decimals: 18 },
+  // 不会真正请求该地址：transport 与钱包都直接调用内存链
+  rpcUrls: { default: { http: ['http://demo.invalid'] } },
+  testnet: true,
+};
+
+// 模拟链在首次使用时创建，刷新页面后重新生成（包括预置的历史数据）
+let node: DemoChain | undefined;
+export function getDemoNode(): DemoChain {
+  node ??= createDemoChain({ chainId: demoChain.id });
+  return node;
+}
+
+const request: EIP1193RequestFn = (args) => getDemoNode().request(args) as never;
+
+/** 内存链的 transport；调用不经过网络，失败后无需重试 */
+export const demoTransport = () => custom({ request }, { retryCount: 0 });
+
+export function demoDeployment(): Deployment {
+  const { addresses } = getDemoNode();
+  return {
+    chainId: demoChain.id,
+    vaults: [{ vault: addresses.vault, vaultToken: addresses.vaultToken, asset: addresses.asset, strategy: addresses.strategy }],
+    feeManager: addresses.feeManager,
+    accessControl: addresses.accessControl,
+  };
+}
+
+// 用户断开演示钱包后不再自动连接，直到再次手动连接
+const DISCONNECTED_KEY = 'yield-vault:demo:disconnected';
+
+function setDisconnected(disconnected: boolean) {
+  try {
+    if (disconnected) localStorage.setItem(DISCONNECTED_KEY, 'true');
+    else localStorage.removeItem(DISCONNECTED_KEY);
+  } catch {
+    // 存储不可用时每次刷新都会自动连接
+  }
+}
+
+function isDisconnected(): boolean {
+  try {
+    return localStorage.getItem(DISCONNECTED_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 演示钱包的 wagmi connector：账户固定为部署者（Vault 的 owner，管理面板可用），交易直接由内存链执行，无需签名
+ * 不支持签名与 EIP-5792 批量调用，存款界面会退回 approve + deposit
+ */
+function demoConnector(account: Address) {
+  let connected = false;
+
+  return createConnector<{ request: EIP1193RequestFn }>((config) => ({
+    id: 'demo',
+    name: 'Demo Wallet',
+    type: 'demo',
+    async connect({ withCapabilities } = {}) {
+      connected = true;
+      setDisconnected(false);
+      return {
+        accounts: (withCapabilities ? [{ address: account, capabilities: {} }] : [account]) as never,
+        chainId: demoChain.id,
+      };
+    },
+    async disconnect() {
+      connected = false;
+      setDisconnected(true);
+    },
+    async getAccounts() {
+      return connected ? [account] : [];
+    },
+    async getChainId() {
+      return demoChain.id;
+    },
+    async isAuthorized() {
+      return !isDisconnected();
+    },
+    async switchChain({ chainId }) {
+      const chain = config.chains.find((c) => c.id === chainId);
+      if (!chain) throw new Error(`Chain ${chainId} is not available in demo mode`);
+      return chain;
+    },
+    async getProvider() {
+      const provider = async ({ method, params }: { method: string; params?: unknown }): Promise<unknown> => {
+        switch (method) {
+          case 'eth_accounts':
+          case 'eth_requestAccounts':
+            return connected || method === 'eth_requestAccounts' ? [account] : [];
+          case 'eth_chainId':
+            return numberToHex(demoChain.id);
+          case 'wallet_switchEthereumChain': {
+            const [{ chainId }] = params as [{ chainId: `0x${string}` }];
+            await this.switchChain!({ chainId: fromHex(chainId, 'number') });
+            return null;
+          }
+          default:
+            // 交易与读取转发给内存链；签名等钱包方法由内存链返回 method not found
+            return getDemoNode().request({ method, params });
+        }
+      };
+      return { request: provider as EIP1193RequestFn };
+    },
+    onAccountsChanged(accounts) {
+      if (accounts.length === 0) this.onDisconnect();
+      else config.emitter.emit('change', { accounts: accounts.map((a) => getAddress(a)) });
+    },
+    onChainChanged(chain) {
+      config.emitter.emit('change', { chainId: Number(chain) });
+    },
+    onDisconnect() {
+      connected = false;
+      config.emitter.emit('disconnect');
+    },
+  }));
+}
+
+const DEMO_WALLET_ICON =
+  'data:image/svg+xml;utf8,' +
+  encodeURIComponent(
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 28 28"><rect width="28" height="28" rx="6" fill="#7c3aed"/><path d="M8 10h12v9a2 2 0 0 1-2 2H10a2 2 0 0 1-2-2z" fill="none" stroke="#fff" stroke-width="2"/><circle cx="17" cy="15.5" r="1.5" fill="#fff"/></svg>',
+  );
+
+/** RainbowKit 钱包列表中的演示钱包 */
+export const demoWallet = (): Wallet => ({
+  id: 'demo',
+  name: 'Demo Wallet',
+  iconUrl: DEMO_WALLET_ICON,
+  iconBackground: '#7c3aed',
+  installed: true,
+  createConnector: (walletDetails) => {
+    const connector = demoConnector(getDemoNode().deployer);
+    return createConnector((config) => ({ ...connector(config), ...walletDetails }));
+  },
+});
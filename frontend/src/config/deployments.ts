@@ -0,0 +1,22 @@
+import { createDeploymentRegistry, type BroadcastManifest, type Deployment, type DeploymentRegistry } from '../utils/deployments';
+import { DEMO_MODE, demoDeployment } from './demo';
+
+// `forge script <Script>.s.sol --broadcast` 写入的部署记录（每个脚本、每条链一份 run-latest.json）
+// 多个部署脚本创建的 Vault 会合并到同一条链的注册表中
+// 本地链的 broadcast 目录被 .gitignore 忽略，因此每次重新部署 Anvil 后刷新页面即可生效
+const broadcasts = import.meta.glob<BroadcastManifest>('../../../broadcast/*/*/run-latest.json', {
+  eager: true,
+  import: 'default',
+});
+
+// 环境变量（VITE_<CONTRACT>_ADDRESS_<NETWORK>）优先于 broadcast 记录
+const registry = createDeploymentRegistry(Object.values(broadcasts), import.meta.env);
+
+// 演示模式下加入内存模拟链上的部署
+const demo = DEMO_MODE ? demoDeployment() : undefined;
+export const DEPLOYMENTS: DeploymentRegistry = demo ? { ...registry, [demo.chainId]: demo } : registry;
+
+// 获取指定链的部署；未部署时返回 undefined
+export function getDeployment(chainId: number | undefined): Deployment | undefined {
+  return chainId === undefined ? undefined : DEPLOYMENTS[chainId];
+}
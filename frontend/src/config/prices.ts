@@ -0,0 +1,19 @@
+import { jsonPriceSource, oraclePriceSource, parsePriceFeeds, staticPriceSource, type PriceSource } from '../utils/pricing';
+
+// 已知稳定币按 $1 计价（键为 symbol 或代币地址）
+export const STATIC_USD_PRICES: Record<string, number> = {
+  USDC: 1,
+  USDT: 1,
+  DAI: 1,
+};
+
+// 本地价格文件（public/prices.json），用于 Anvil 上的非稳定币 Mock 资产
+const PRICE_JSON_URL = import.meta.env.VITE_PRICE_JSON_URL || '/prices.json';
+
+// 价格来源按顺序尝试：链上预言机（VITE_PRICE_FEED_<SYMBOL>_<NETWORK>）→ 本地 JSON → 静态配置
+// 都没有价格的资产不显示 USD，直接以代币数量展示
+export const PRICE_SOURCES: PriceSource[] = [
+  oraclePriceSource(parsePriceFeeds(import.meta.env)),
+  jsonPriceSource(PRICE_JSON_URL),
+  staticPriceSource(STATIC_USD_PRICES),
+];
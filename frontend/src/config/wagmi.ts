@@ -1,6 +1,8 @@
-import { getDefaultConfig } from '@rainbow-me/rainbowkit';
+import { connectorsForWallets, getDefaultConfig } from '@rainbow-me/rainbowkit';
+import { createConfig, http } from 'wagmi';
 import { sepolia, mainnet, hardhat } from 'wagmi/chains';
 import type { Chain } from 'wagmi/chains';
+import { DEMO_MODE, demoChain, demoTransport, demoWallet } from './demo';
 
 // 定义本地 Anvil 链（使其在钱包/网络选择中显示为 'Anvil'）
 export const anvilChain: Chain = {
@@ -28,42 +30,33 @@ const initialChains: Chain[] = [
 
 // 去重 helpers：保留首次出现的 chain（按 id）
 const seen = new Set<number>();
-const chains: Chain[] = initialChains.filter((c) => {
+const [firstChain, ...otherChains] = initialChains.filter((c) => {
   if (seen.has(c.id)) return false;
   seen.add(c.id);
   return true;
 });
+// wagmi 要求至少一条链（sepolia 总是存在）
+const chains: readonly [Chain, ...Chain[]] = [firstChain, ...otherChains];
 
-export const config = getDefaultConfig({
-  appName: 'Yield Vault',
-  projectId: import.meta.env.VITE_WALLETCONNECT_PROJECT_ID || 'YOUR_PROJECT_ID',
-  chains: chains as unknown as any,
-  ssr: false,
-});
+// 没有 Multicall3 的链（如 Anvil）在 transport 层合并同一时刻发出的请求（JSON-RPC batch），
+// Vault 快照逐个 readContract 时仍只发送一次 HTTP 请求（见 utils/vaultSnapshot）
+const transports = Object.fromEntries(chains.map((c) => [c.id, http(undefined, { batch: !c.contracts?.multicall3 })]));
 
-// 合约地址配置
-export const CONTRACT_ADDRESSES = {
-  [sepolia.id]: {
-    // 优先使用环境变量（VITE_*），未设置时回退到项目中当前示例地址
-    vault: import.meta.env.VITE_VAULT_ADDRESS_SEPOLIA || '0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9',
-    vaultToken: import.meta.env.VITE_VAULT_TOKEN_ADDRESS_SEPOLIA || '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',
-    asset: import.meta.env.VITE_ASSET_ADDRESS_SEPOLIA || '0x5FbDB2315678afecb367f032d93F642f64180aa3',
-  },
-  [hardhat.id]: {
-    // 本地默认地址（与 Foundry / Anvil 部署一致）
-    vault: '0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9',
-    vaultToken: '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',
-    asset: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
-  },
-  // anvilChain 与 hardhat 使用相同链 id (31337)，我们也为 anvilChain 映射地址
-  [anvilChain.id]: {
-    vault: '0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9',
-    vaultToken: '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',
-    asset: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
-  },
-} as const;
+const appName = 'Yield Vault';
+const projectId = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID || 'YOUR_PROJECT_ID';
 
-// 获取当前链的合约地址
-export function getContractAddresses(chainId: number) {
-  return CONTRACT_ADDRESSES[chainId as keyof typeof CONTRACT_ADDRESSES] || CONTRACT_ADDRESSES[sepolia.id];
-}
\ No newline at end of file
+// 演示模式只有模拟链与演示钱包（见 ./demo）
+export const config = DEMO_MODE
+  ? createConfig({
+      chains: [demoChain],
+      connectors: connectorsForWallets([{ groupName: 'Demo', wallets: [demoWallet] }], { appName, projectId }),
+      transports: { [demoChain.id]: demoTransport() },
+      ssr: false,
+    })
+  : getDefaultConfig({
+      appName,
+      projectId,
+      chains,
+      transports,
+      ssr: false,
+    });
@@ -0,0 +1,80 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAccount, useChainId, usePublicClient, useWatchContractEvent } from 'wagmi';
+import { zeroAddress } from 'viem';
+import { ACCESS_CONTROL_ABI } from '../config/abis';
+import { useVault } from './useVault';
+import { useVaultSnapshot } from './useVaultSnapshot';
+import { rolesOf, depositBlockReason, type AccessState } from '../utils/accessControl';
+import { findDeployBlock } from '../utils/blocks';
+
+// 每次 getLogs 的区块跨度（公共 RPC 通常限制在几千到一万个区块）
+const LOG_CHUNK_SIZE = 5_000n;
+
+interface LogPosition {
+  blockNumber: bigint;
+  logIndex: number;
+}
+
+const isAfter = (a: LogPosition, b: LogPosition) =>
+  a.blockNumber > b.blockNumber || (a.blockNumber === b.blockNumber && a.logIndex > b.logIndex);
+
+/**
+ * 当前 Vault 的 VaultAccessControl 暂停 / 白名单 / 角色状态，并判断当前账户能否存款
+ * 基础状态来自 Vault 快照（与其他卡片同一区块），紧急关闭需要额外查询事件
+ */
+export function useAccessState() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { accessControl } = useVault();
+  const { data: snapshot, isLoading, error } = useVaultSnapshot();
+
+  const contract = { address: accessControl, abi: ACCESS_CONTROL_ABI } as const;
+  const paused = snapshot?.access.paused;
+
+  // 暂停时查找最近一次 EmergencyShutdown，且之后没有 Unpaused，才视为紧急关闭
+  const { data: shutdown, refetch: refetchShutdown } = useQuery({
+    queryKey: ['emergencyShutdown', chainId, accessControl],
+    enabled: Boolean(publicClient && paused),
+    queryFn: async () => {
+      if (!publicClient) return null;
+      const latest = await publicClient.getBlockNumber();
+      const deployBlock = await findDeployBlock(publicClient, accessControl, latest);
+      if (deployBlock === undefined) return null;
+
+      // 从最新区块向部署区块分段倒查，遇到第一段包含 EmergencyShutdown 或 Unpaused 的区块即可判断
+      for (let to = latest; to >= deployBlock; to -= LOG_CHUNK_SIZE) {
+        const from = to - LOG_CHUNK_SIZE + 1n > deployBlock ? to - LOG_CHUNK_SIZE + 1n : deployBlock;
+        const [shutdowns, unpauses] = await Promise.all([
+          publicClient.getContractEvents({ ...contract, eventName: 'EmergencyShutdown', fromBlock: from, toBlock: to }),
+          publicClient.getContractEvents({ ...contract, eventName: 'Unpaused', fromBlock: from, toBlock: to }),
+        ]);
+        const lastShutdown = shutdowns.at(-1);
+        const lastUnpause = unpauses.at(-1);
+        if (lastUnpause && (!lastShutdown || isAfter(lastUnpause, lastShutdown))) return null;
+        if (lastShutdown) return { caller: lastShutdown.args.caller ?? zeroAddress, blockNumber: lastShutdown.blockNumber };
+      }
+      return null;
+    },
+  });
+
+  // 暂停 / 恢复 / 紧急关闭时重新查询紧急关闭事件（基础状态随快照在新区块刷新）
+  useWatchContractEvent({
+    ...contract,
+    onLogs: () => {
+      refetchShutdown();
+    },
+  });
+
+  const state: AccessState | undefined = snapshot
+    ? { ...snapshot.access, shutdown: paused && shutdown ? shutdown : undefined }
+    : undefined;
+
+  return {
+    state,
+    accountRoles: state ? rolesOf(address, state.roles) : [],
+    depositBlockedReason: state ? depositBlockReason(state) : undefined,
+    isLoading,
+    error,
+  };
+}
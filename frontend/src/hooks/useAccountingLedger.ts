@@ -0,0 +1,126 @@
+import { useQuery } from '@tanstack/react-query';
+import { useChainId, usePublicClient } from 'wagmi';
+import { zeroAddress, type Address, type Hash } from 'viem';
+import { ERC20_ABI, VAULT_ABI } from '../config/abis';
+import { executionPrice, type LedgerEvent } from '../utils/accountingLedger';
+import { findDeployBlock } from '../utils/blocks';
+import { PRICE_PRECISION } from '../utils/positionAccounting';
+
+// 每次 getLogs 的区块跨度（公共 RPC 通常限制在几千到一万个区块）
+const LOG_CHUNK_SIZE = 5_000n;
+
+interface AccountingLedgerParams {
+  vault: Address;
+  vaultToken: Address;
+  accounts: Address[];
+}
+
+/**
+ * 拉取多个账户的 Deposit / Redeem / VaultToken 转账事件，补充区块时间与 sharePrice
+ * 返回未经成本计算的事件；成本方法与日期区间在导出时再应用，切换时无需重新读取
+ */
+export function useAccountingLedger({ vault, vaultToken, accounts }: AccountingLedgerParams) {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    queryKey: ['accountingLedger', chainId, vault, accounts],
+    enabled: Boolean(publicClient && accounts.length > 0),
+    staleTime: 60_000,
+    queryFn: async (): Promise<LedgerEvent[]> => {
+      if (!publicClient) return [];
+
+      // 区块时间与转账时的 sharePrice 按区块缓存，多个账户、多笔事件共用
+      const timestamps = new Map<bigint, Promise<number>>();
+      const timestampAt = (blockNumber: bigint) => {
+        if (!timestamps.has(blockNumber)) {
+          timestamps.set(blockNumber, publicClient.getBlock({ blockNumber }).then((block) => Number(block.timestamp)));
+        }
+        return timestamps.get(blockNumber)!;
+      };
+      const prices = new Map<bigint, Promise<bigint>>();
+      // 读取失败（非归档节点）时按 1:1，与仓位卡片一致
+      const priceAt = (blockNumber: bigint) => {
+        if (!prices.has(blockNumber)) {
+          prices.set(
+            blockNumber,
+            publicClient
+              .readContract({ address: vault, abi: VAULT_ABI, functionName: 'sharePrice', blockNumber })
+              .catch(() => PRICE_PRECISION),
+          );
+        }
+        return prices.get(blockNumber)!;
+      };
+
+      // 从 Vault 部署区块开始分段读取；所有账户合并为同一个 topic 过滤条件，每段固定 4 次 getLogs
+      const latest = await publicClient.getBlockNumber();
+      const deployBlock = await findDeployBlock(publicClient, vault, latest);
+      if (deployBlock === undefined) throw new Error('Vault is not deployed on this network');
+
+      const fetchChunk = (fromBlock: bigint, toBlock: bigint) =>
+        Promise.all([
+          publicClient.getContractEvents({ address: vault, abi: VAULT_ABI, eventName: 'Deposit', args: { user: accounts }, fromBlock, toBlock }),
+          publicClient.getContractEvents({ address: vault, abi: VAULT_ABI, eventName: 'Redeem', args: { user: accounts }, fromBlock, toBlock }),
+          publicClient.getContractEvents({ address: vaultToken, abi: ERC20_ABI, eventName: 'Transfer', args: { to: accounts }, fromBlock, toBlock }),
+          publicClient.getContractEvents({ address: vaultToken, abi: ERC20_ABI, eventName: 'Transfer', args: { from: accounts }, fromBlock, toBlock }),
+        ]);
+      const chunks: Awaited<ReturnType<typeof fetchChunk>>[] = [];
+      for (let from = deployBlock; from <= latest; from += LOG_CHUNK_SIZE) {
+        const to = from + LOG_CHUNK_SIZE - 1n < latest ? from + LOG_CHUNK_SIZE - 1n : latest;
+        chunks.push(await fetchChunk(from, to));
+      }
+
+      const perAccount = await Promise.all(
+        accounts.map(async (account) => {
+          const isAccount = (address: Address | undefined) => address?.toLowerCase() === account.toLowerCase();
+          const deposits = chunks.flatMap(([logs]) => logs).filter((log) => isAccount(log.args.user));
+          const redeems = chunks.flatMap(([, logs]) => logs).filter((log) => isAccount(log.args.user));
+          const transfersIn = chunks.flatMap(([, , logs]) => logs).filter((log) => isAccount(log.args.to));
+          const transfersOut = chunks.flatMap(([, , , logs]) => logs).filter((log) => isAccount(log.args.from));
+
+          const base = (log: { blockNumber: bigint; logIndex: number; transactionHash: Hash }) => ({
+            account,
+            blockNumber: log.blockNumber,
+            logIndex: log.logIndex,
+            txHash: log.transactionHash,
+          });
+
+          const trades = [...deposits, ...redeems].map(async (log) => {
+            const assets = log.args.assets ?? 0n;
+            const shares = log.args.shares ?? 0n;
+            return {
+              ...base(log),
+              kind: log.eventName === 'Redeem' ? ('redeem' as const) : ('deposit' as const),
+              timestamp: await timestampAt(log.blockNumber),
+              shares,
+              assets,
+              // 成交价由实际成交的资产与 shares 得出，无需归档节点
+              sharePrice: executionPrice(assets, shares) ?? (await priceAt(log.blockNumber)),
+            };
+          });
+
+          // mint / burn 对应的 Transfer 已经由 Deposit / Redeem 记录，这里只保留用户之间的转账
+          const transfers = [
+            ...transfersIn.filter((log) => log.args.from !== zeroAddress).map((log) => ({ log, incoming: true })),
+            ...transfersOut.filter((log) => log.args.to !== zeroAddress).map((log) => ({ log, incoming: false })),
+          ].map(async ({ log, incoming }) => {
+            const shares = log.args.value ?? 0n;
+            const sharePrice = await priceAt(log.blockNumber);
+            return {
+              ...base(log),
+              kind: incoming ? ('transferIn' as const) : ('transferOut' as const),
+              timestamp: await timestampAt(log.blockNumber),
+              shares,
+              assets: (shares * sharePrice) / PRICE_PRECISION,
+              sharePrice,
+              counterparty: incoming ? log.args.from : log.args.to,
+            };
+          });
+
+          return Promise.all([...trades, ...transfers]);
+        }),
+      );
+      return perAccount.flat();
+    },
+  });
+}
@@ -0,0 +1,48 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAccount, useCapabilities, usePublicClient } from 'wagmi';
+import type { Address } from 'viem';
+import { detectDepositWithPermit, detectPermitDomain } from '../utils/permit';
+
+/**
+ * 存款前的授权方式
+ * - batch: EIP-5792 wallet_sendCalls，把 approve + deposit 打包成一次确认
+ * - permit: EIP-2612 签名授权，通过 depositWithPermit 一笔交易完成
+ * - approve: 传统的先 approve 再 deposit
+ */
+export type ApprovalMethod = 'batch' | 'permit' | 'approve';
+
+/**
+ * 检测当前钱包、资产与 Vault 支持的授权方式，按推荐顺序返回
+ */
+export function useApprovalMethods(token: Address, vault: Address) {
+  const { address, chainId } = useAccount();
+  const publicClient = usePublicClient();
+
+  // 不支持 EIP-5792 的钱包会直接报错，视为不支持批量调用
+  const { data: capabilities } = useCapabilities({
+    account: address,
+    query: { enabled: Boolean(address && chainId), retry: false },
+  });
+  const atomic = chainId !== undefined ? capabilities?.[chainId]?.atomic?.status : undefined;
+  const canBatch = atomic === 'supported' || atomic === 'ready';
+
+  // 代币的 EIP-712 域不会变化，检测一次即可
+  const { data: permitDomain } = useQuery({
+    queryKey: ['permitDomain', publicClient?.chain.id, token],
+    queryFn: () => detectPermitDomain(publicClient!, token),
+    enabled: Boolean(publicClient),
+    staleTime: Infinity,
+  });
+
+  // 资产支持 permit 还不够，Vault 也必须实现 depositWithPermit；合约代码不会变化，同样只检测一次
+  const { data: vaultSupportsPermit } = useQuery({
+    queryKey: ['depositWithPermit', publicClient?.chain.id, vault],
+    queryFn: () => detectDepositWithPermit(publicClient!, vault),
+    enabled: Boolean(publicClient && permitDomain),
+    staleTime: Infinity,
+  });
+  const canPermit = Boolean(permitDomain && vaultSupportsPermit);
+
+  const methods: ApprovalMethod[] = [...(canBatch ? ['batch' as const] : []), ...(canPermit ? ['permit' as const] : []), 'approve'];
+  return { methods, permitDomain: canPermit ? (permitDomain ?? undefined) : undefined };
+}
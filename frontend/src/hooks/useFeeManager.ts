@@ -0,0 +1,65 @@
+import { useAccount, useReadContracts } from 'wagmi';
+import type { Address } from 'viem';
+import { FEE_MANAGER_ABI } from '../config/abis';
+
+export interface FeeConfiguration {
+  performanceFeeBps: bigint;
+  withdrawalFeeBps: bigint;
+  recipient: Address;
+  performanceFeeEnabled: boolean;
+  withdrawalFeeEnabled: boolean;
+}
+
+export interface FeesCollected {
+  performanceFees: bigint;
+  withdrawalFees: bigint;
+  totalFees: bigint;
+}
+
+/**
+ * 读取 FeeManager 的费率配置、累计费用和上限，并判断当前账户是否为 owner
+ */
+export function useFeeManager(feeManager: Address) {
+  const { address } = useAccount();
+
+  const contract = { address: feeManager, abi: FEE_MANAGER_ABI } as const;
+  const { data, isLoading, error, refetch } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...contract, functionName: 'getFeeConfiguration' },
+      { ...contract, functionName: 'getTotalFeesCollected' },
+      { ...contract, functionName: 'MAX_PERFORMANCE_FEE' },
+      { ...contract, functionName: 'MAX_WITHDRAWAL_FEE' },
+      { ...contract, functionName: 'owner' },
+    ],
+  });
+
+  const config: FeeConfiguration | undefined = data
+    ? {
+        performanceFeeBps: data[0][0],
+        withdrawalFeeBps: data[0][1],
+        recipient: data[0][2],
+        performanceFeeEnabled: data[0][3],
+        withdrawalFeeEnabled: data[0][4],
+      }
+    : undefined;
+
+  const collected: FeesCollected | undefined = data
+    ? { performanceFees: data[1][0], withdrawalFees: data[1][1], totalFees: data[1][2] }
+    : undefined;
+
+  const owner = data?.[4];
+  const isOwner = Boolean(owner && address && owner.toLowerCase() === address.toLowerCase());
+
+  return {
+    config,
+    collected,
+    maxPerformanceFeeBps: data?.[2],
+    maxWithdrawalFeeBps: data?.[3],
+    owner,
+    isOwner,
+    isLoading,
+    error,
+    refetch,
+  };
+}
@@ -0,0 +1,105 @@
+import { useQuery } from '@tanstack/react-query';
+import { useChainId, usePublicClient } from 'wagmi';
+import type { Address } from 'viem';
+import { VAULT_ABI, ERC20_ABI } from '../config/abis';
+import { findBlockAtTimestamp, findDeployBlock } from '../utils/blocks';
+import { idbGet, idbSet } from '../utils/indexedDb';
+import {
+  HOLDER_INDEX_VERSION,
+  applyHolderLogs,
+  countNewHolders,
+  currentHolders,
+  emptyHolderIndex,
+  topHolders,
+  totalSupplyOf,
+  type HolderIndexState,
+  type HolderStanding,
+} from '../utils/holderIndex';
+
+// 每次 getLogs 的区块跨度（公共 RPC 通常限制在几千到一万个区块）
+const LOG_CHUNK_SIZE = 5_000n;
+const NEW_HOLDER_WINDOW = 24 * 60 * 60;
+const LEADERBOARD_SIZE = 10;
+
+interface HolderIndexParams {
+  vault: Address;
+  vaultToken: Address;
+}
+
+export interface HolderIndexSummary {
+  holderCount: number;
+  newHolders24h: number;
+  totalSupply: bigint;
+  leaderboard: HolderStanding[];
+  lastIndexedBlock: bigint;
+}
+
+/**
+ * 增量索引持有人：从 IndexedDB 读取上次的进度，只扫描新区块
+ */
+export function useHolderIndex({ vault, vaultToken }: HolderIndexParams) {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    queryKey: ['holderIndex', chainId, vault, vaultToken],
+    enabled: Boolean(publicClient),
+    refetchInterval: 30_000,
+    queryFn: async (): Promise<HolderIndexSummary> => {
+      if (!publicClient) throw new Error('No public client');
+
+      const cacheKey = `holders:${chainId}:${vaultToken.toLowerCase()}`;
+      const cached = await idbGet<HolderIndexState>(cacheKey);
+      let state = cached?.version === HOLDER_INDEX_VERSION ? cached : emptyHolderIndex();
+
+      const latest = await publicClient.getBlock();
+      // 本地链重置（例如 Anvil 重启）后缓存的进度会超过当前高度，需要重新索引
+      if (state.lastIndexedBlock > latest.number) state = emptyHolderIndex();
+
+      // 首次索引从 VaultToken 的部署区块开始，不从创世区块扫描整条链
+      if (state.lastIndexedBlock < 0n) {
+        const deployBlock = await findDeployBlock(publicClient, vaultToken, latest.number);
+        if (deployBlock === undefined) throw new Error('Vault token is not deployed on this network');
+        state = { ...state, lastIndexedBlock: deployBlock - 1n };
+      }
+
+      for (let from = state.lastIndexedBlock + 1n; from <= latest.number; from += LOG_CHUNK_SIZE) {
+        const to = from + LOG_CHUNK_SIZE - 1n < latest.number ? from + LOG_CHUNK_SIZE - 1n : latest.number;
+        const [transfers, deposits, redeems] = await Promise.all([
+          publicClient.getContractEvents({ address: vaultToken, abi: ERC20_ABI, eventName: 'Transfer', fromBlock: from, toBlock: to }),
+          publicClient.getContractEvents({ address: vault, abi: VAULT_ABI, eventName: 'Deposit', fromBlock: from, toBlock: to }),
+          publicClient.getContractEvents({ address: vault, abi: VAULT_ABI, eventName: 'Redeem', fromBlock: from, toBlock: to }),
+        ]);
+
+        state = applyHolderLogs(
+          state,
+          to,
+          transfers.map((log) => ({
+            from: log.args.from!,
+            to: log.args.to!,
+            value: log.args.value ?? 0n,
+            blockNumber: log.blockNumber,
+          })),
+          deposits.map((log) => ({ user: log.args.user!, assets: log.args.assets ?? 0n, blockNumber: log.blockNumber })),
+          redeems.map((log) => ({ user: log.args.user!, assets: log.args.assets ?? 0n, blockNumber: log.blockNumber })),
+        );
+        // 每个分段完成后保存进度，长时间扫描中途关闭页面也不会丢失
+        await idbSet(cacheKey, state);
+      }
+
+      const windowStart = await findBlockAtTimestamp(
+        publicClient,
+        Number(latest.timestamp) - NEW_HOLDER_WINDOW,
+        { number: latest.number, timestamp: Number(latest.timestamp) },
+      );
+
+      return {
+        holderCount: currentHolders(state).length,
+        newHolders24h: countNewHolders(state, windowStart?.number ?? -1n),
+        totalSupply: totalSupplyOf(state),
+        leaderboard: topHolders(state, LEADERBOARD_SIZE),
+        lastIndexedBlock: state.lastIndexedBlock,
+      };
+    },
+  });
+}
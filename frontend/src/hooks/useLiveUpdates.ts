@@ -0,0 +1,95 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAccount, useChainId, usePublicClient, useWatchBlockNumber, useWatchContractEvent } from 'wagmi';
+import { zeroAddress, type WatchContractEventOnLogsParameter } from 'viem';
+import { ERC20_ABI, VAULT_ABI } from '../config/abis';
+import { useVaultSnapshot } from './useVaultSnapshot';
+import type { VaultDeployment } from '../utils/deployments';
+import {
+  blockInvalidation,
+  matchesInvalidation,
+  mergeInvalidations,
+  supportsSubscriptions,
+  tokenEventInvalidation,
+  vaultEventInvalidation,
+  type Invalidation,
+  type LiveContext,
+} from '../utils/liveUpdates';
+
+/**
+ * 监听新区块、Vault 事件以及用户的资产 / VaultToken 转账与授权，只刷新受影响的查询
+ * WebSocket / IPC 传输使用 eth_subscribe，其余传输（或订阅出错时）改为轮询
+ * Vault 快照（useVaultSnapshot）以区块号为 key 自动刷新，这里负责其余单独的读取
+ */
+export function useLiveUpdates({ vault, vaultToken, asset }: Pick<VaultDeployment, 'vault' | 'vaultToken' | 'asset'>) {
+  const chainId = useChainId();
+  const { address: user } = useAccount();
+  const publicClient = usePublicClient();
+  const queryClient = useQueryClient();
+
+  const { data: snapshot } = useVaultSnapshot();
+  const strategy = snapshot?.strategy;
+
+  const [subscriptionFailed, setSubscriptionFailed] = useState(false);
+  const poll = subscriptionFailed || !supportsSubscriptions(publicClient?.transport);
+  const onError = useCallback(() => {
+    if (!poll) setSubscriptionFailed(true);
+  }, [poll]);
+
+  const ctx = useMemo<LiveContext>(
+    () => ({ chainId, vault, vaultToken, asset, user, strategy: strategy && strategy !== zeroAddress ? strategy : undefined }),
+    [chainId, vault, vaultToken, asset, user, strategy],
+  );
+
+  const invalidate = useCallback(
+    (invalidation: Invalidation) => {
+      if (invalidation.reads.length === 0 && invalidation.keys.length === 0) return;
+      queryClient.invalidateQueries({ predicate: (query) => matchesInvalidation(query.queryKey, chainId, invalidation) });
+    },
+    [queryClient, chainId],
+  );
+
+  useWatchBlockNumber({
+    poll,
+    onError,
+    onBlockNumber: useCallback(() => invalidate(blockInvalidation(ctx)), [invalidate, ctx]),
+  });
+
+  useWatchContractEvent({
+    address: vault,
+    abi: VAULT_ABI,
+    poll,
+    onError,
+    onLogs: useCallback(
+      (logs: WatchContractEventOnLogsParameter<typeof VAULT_ABI>) =>
+        invalidate(
+          mergeInvalidations(
+            logs.map((log) => vaultEventInvalidation(ctx, log.eventName, 'user' in log.args ? log.args.user : undefined)),
+          ),
+        ),
+      [invalidate, ctx],
+    ),
+  });
+
+  // 用户作为转出方与转入方需要两个过滤器（indexed 参数之间是 AND 关系）
+  const tokens = useMemo(() => [asset, vaultToken], [asset, vaultToken]);
+  const fromUser = useMemo(() => ({ from: user }), [user]);
+  const toUser = useMemo(() => ({ to: user }), [user]);
+  const ownerIsUser = useMemo(() => ({ owner: user }), [user]);
+  const onTokenLogs = useCallback(
+    (logs: WatchContractEventOnLogsParameter<typeof ERC20_ABI>) =>
+      invalidate(
+        mergeInvalidations(
+          logs.map((log) => tokenEventInvalidation(ctx, log.address, log.eventName === 'Approval' ? 'Approval' : 'Transfer')),
+        ),
+      ),
+    [invalidate, ctx],
+  );
+
+  const tokenWatch = { abi: ERC20_ABI, poll, onError, onLogs: onTokenLogs, enabled: Boolean(user) } as const;
+  useWatchContractEvent({ ...tokenWatch, address: tokens, eventName: 'Transfer', args: fromUser });
+  useWatchContractEvent({ ...tokenWatch, address: tokens, eventName: 'Transfer', args: toUser });
+  useWatchContractEvent({ ...tokenWatch, address: asset, eventName: 'Approval', args: ownerIsUser });
+
+  return { isPolling: poll };
+}
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * 每隔 intervalMs 更新一次的当前时间（毫秒），用于实时刷新的倒计时 / 累计值
+ */
+export function useNow(intervalMs = 1_000) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,58 @@
+import { useAccount, useReadContract, useReadContracts } from 'wagmi';
+import { zeroAddress, type Address } from 'viem';
+import { VAULT_ABI, STRATEGY_ABI } from '../config/abis';
+import type { VaultOperatorState } from '../utils/operatorPreview';
+
+/**
+ * 读取运维面板需要的 Vault 状态，并判断当前账户是否为 owner
+ */
+export function useOperatorState(vault: Address) {
+  const { address } = useAccount();
+
+  const vaultContract = { address: vault, abi: VAULT_ABI } as const;
+  const { data, isLoading, refetch: refetchVault } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...vaultContract, functionName: 'owner' },
+      { ...vaultContract, functionName: 'totalIdleAssets' },
+      { ...vaultContract, functionName: 'totalInvestedAssets' },
+      { ...vaultContract, functionName: 'investRatioBps' },
+      { ...vaultContract, functionName: 'MAX_INVEST_RATIO' },
+      { ...vaultContract, functionName: 'getStrategyInfo' },
+    ],
+  });
+
+  const strategyInfo = data?.[5];
+  const strategy = strategyInfo?.[0] ?? zeroAddress;
+
+  const { data: estimated, refetch: refetchStrategy } = useReadContract({
+    address: strategy,
+    abi: STRATEGY_ABI,
+    functionName: 'estimatedProfit',
+    query: { enabled: strategy !== zeroAddress },
+  });
+
+  const owner = data?.[0];
+  const isOwner = Boolean(owner && address && owner.toLowerCase() === address.toLowerCase());
+
+  const state: VaultOperatorState | undefined = data && strategyInfo
+    ? {
+        totalIdleAssets: data[1],
+        totalInvestedAssets: data[2],
+        investRatioBps: data[3],
+        maxInvestRatioBps: data[4],
+        strategy,
+        strategyActive: strategyInfo[1],
+        strategyTotalAssets: strategyInfo[3],
+        estimatedProfit: estimated?.[0] ?? 0n,
+        estimatedLoss: estimated?.[1] ?? 0n,
+      }
+    : undefined;
+
+  const refetch = () => {
+    refetchVault();
+    if (strategy !== zeroAddress) refetchStrategy();
+  };
+
+  return { owner, isOwner, state, isLoading, refetch };
+}
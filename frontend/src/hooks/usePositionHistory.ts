@@ -0,0 +1,117 @@
+import { useQuery } from '@tanstack/react-query';
+import { useChainId, usePublicClient } from 'wagmi';
+import { zeroAddress, type Address } from 'viem';
+import { VAULT_ABI, ERC20_ABI } from '../config/abis';
+import { findDeployBlock } from '../utils/blocks';
+import { PRICE_PRECISION, sortPositionEvents, type PositionEvent } from '../utils/positionAccounting';
+
+// 每次 getLogs 的区块跨度（公共 RPC 通常限制在几千到一万个区块）
+const LOG_CHUNK_SIZE = 5_000n;
+
+interface PositionHistoryParams {
+  vault: Address;
+  vaultToken: Address;
+  user?: Address;
+}
+
+export interface PositionHistory {
+  events: PositionEvent[];
+  /** 第一次获得 shares 的区块时间（秒），没有记录时为 undefined */
+  firstAcquiredAt?: number;
+}
+
+/**
+ * 拉取用户在 Vault 中的 Deposit / Redeem 事件以及 VaultToken 的转入转出
+ */
+export function usePositionHistory({ vault, vaultToken, user }: PositionHistoryParams) {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    queryKey: ['positionHistory', chainId, vault, vaultToken, user],
+    enabled: Boolean(publicClient && user),
+    queryFn: async (): Promise<PositionHistory> => {
+      if (!publicClient || !user) return { events: [] };
+
+      // 从 Vault 部署区块开始分段读取，避免单次 getLogs 超出 RPC 的区块跨度限制
+      const latest = await publicClient.getBlockNumber();
+      const deployBlock = await findDeployBlock(publicClient, vault, latest);
+      if (deployBlock === undefined) throw new Error('Vault is not deployed on this network');
+
+      const fetchChunk = (fromBlock: bigint, toBlock: bigint) =>
+        Promise.all([
+          publicClient.getContractEvents({ address: vault, abi: VAULT_ABI, eventName: 'Deposit', args: { user }, fromBlock, toBlock }),
+          publicClient.getContractEvents({ address: vault, abi: VAULT_ABI, eventName: 'Redeem', args: { user }, fromBlock, toBlock }),
+          publicClient.getContractEvents({ address: vaultToken, abi: ERC20_ABI, eventName: 'Transfer', args: { to: user }, fromBlock, toBlock }),
+          publicClient.getContractEvents({ address: vaultToken, abi: ERC20_ABI, eventName: 'Transfer', args: { from: user }, fromBlock, toBlock }),
+        ]);
+      const chunks: Awaited<ReturnType<typeof fetchChunk>>[] = [];
+      for (let from = deployBlock; from <= latest; from += LOG_CHUNK_SIZE) {
+        const to = from + LOG_CHUNK_SIZE - 1n < latest ? from + LOG_CHUNK_SIZE - 1n : latest;
+        chunks.push(await fetchChunk(from, to));
+      }
+      const deposits = chunks.flatMap(([logs]) => logs);
+      const redeems = chunks.flatMap(([, logs]) => logs);
+      const transfersIn = chunks.flatMap(([, , logs]) => logs);
+      const transfersOut = chunks.flatMap(([, , , logs]) => logs);
+
+      // 转入的 shares 按当时区块的 sharePrice 计成本；读取失败（非归档节点）时按 1:1
+      const priceAt = async (blockNumber: bigint) => {
+        try {
+          return await publicClient.readContract({
+            address: vault,
+            abi: VAULT_ABI,
+            functionName: 'sharePrice',
+            blockNumber,
+          });
+        } catch {
+          return PRICE_PRECISION;
+        }
+      };
+
+      // mint / burn 对应的 Transfer 已经由 Deposit / Redeem 记录，这里只保留用户之间的转账
+      const peerIn = transfersIn.filter((log) => log.args.from !== zeroAddress);
+      const peerOut = transfersOut.filter((log) => log.args.to !== zeroAddress);
+
+      const events: PositionEvent[] = [
+        ...deposits.map((log) => ({
+          kind: 'deposit' as const,
+          blockNumber: log.blockNumber,
+          logIndex: log.logIndex,
+          assets: log.args.assets ?? 0n,
+          shares: log.args.shares ?? 0n,
+        })),
+        ...redeems.map((log) => ({
+          kind: 'redeem' as const,
+          blockNumber: log.blockNumber,
+          logIndex: log.logIndex,
+          assets: log.args.assets ?? 0n,
+          shares: log.args.shares ?? 0n,
+        })),
+        ...(await Promise.all(
+          peerIn.map(async (log) => ({
+            kind: 'transferIn' as const,
+            blockNumber: log.blockNumber,
+            logIndex: log.logIndex,
+            shares: log.args.value ?? 0n,
+            priceAtBlock: await priceAt(log.blockNumber),
+          })),
+        )),
+        ...peerOut.map((log) => ({
+          kind: 'transferOut' as const,
+          blockNumber: log.blockNumber,
+          logIndex: log.logIndex,
+          shares: log.args.value ?? 0n,
+        })),
+      ];
+
+      const sorted = sortPositionEvents(events);
+      const first = sorted.find((e) => e.kind === 'deposit' || e.kind === 'transferIn');
+      const firstAcquiredAt = first
+        ? Number((await publicClient.getBlock({ blockNumber: first.blockNumber })).timestamp)
+        : undefined;
+
+      return { events: sorted, firstAcquiredAt };
+    },
+  });
+}
@@ -0,0 +1,143 @@
+import { useQuery } from '@tanstack/react-query';
+import { useBlock, useChainId, usePublicClient, useReadContracts } from 'wagmi';
+import { zeroAddress, type Address } from 'viem';
+import { VAULT_ABI, STRATEGY_ABI, MOCK_STRATEGY_ABI } from '../config/abis';
+import { findDeployBlock } from '../utils/blocks';
+
+const REFRESH_INTERVAL = 15_000;
+// 每次 getLogs 的区块跨度（公共 RPC 通常限制在几千到一万个区块）
+const LOG_CHUNK_SIZE = 5_000n;
+
+export interface MockStrategyExtras {
+  apyBps: bigint;
+  lastHarvestTime: bigint;
+  pendingYield: bigint;
+  expectedYearlyYield: bigint;
+  totalYieldHarvested: bigint;
+  shouldSimulateLoss: boolean;
+  lossBps: bigint;
+}
+
+export interface StrategyMonitorData {
+  strategy: Address;
+  isActive: boolean;
+  investedAssets: bigint;
+  strategyTotalAssets: bigint;
+  estimatedProfit: bigint;
+  estimatedLoss: bigint;
+  vaultTotalAssets: bigint;
+  investRatioBps: bigint;
+  /** 仅当 Strategy 实现了 MockStrategy 的扩展接口时存在 */
+  mock?: MockStrategyExtras;
+}
+
+/**
+ * 读取 Vault 当前 Strategy 的状态；对任意 BaseStrategy 可用，并自动识别 MockStrategy 的扩展字段
+ */
+export function useStrategyMonitor(vault: Address) {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+
+  const vaultContract = { address: vault, abi: VAULT_ABI } as const;
+  const { data: vaultData, isLoading: isVaultLoading } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...vaultContract, functionName: 'getStrategyInfo' },
+      { ...vaultContract, functionName: 'investRatioBps' },
+      { ...vaultContract, functionName: 'totalAssets' },
+    ],
+    query: { refetchInterval: REFRESH_INTERVAL },
+  });
+
+  const strategy = vaultData?.[0][0] ?? zeroAddress;
+  const hasStrategy = strategy !== zeroAddress;
+
+  const strategyContract = { address: strategy, abi: STRATEGY_ABI } as const;
+  const { data: baseData, isLoading: isStrategyLoading } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...strategyContract, functionName: 'isActive' },
+      { ...strategyContract, functionName: 'investedAssets' },
+      { ...strategyContract, functionName: 'totalAssets' },
+      { ...strategyContract, functionName: 'estimatedProfit' },
+    ],
+    query: { enabled: hasStrategy, refetchInterval: REFRESH_INTERVAL },
+  });
+
+  // MockStrategy 的扩展接口：任何一个调用失败都视为普通 BaseStrategy
+  const mockContract = { address: strategy, abi: MOCK_STRATEGY_ABI } as const;
+  const { data: mockData } = useReadContracts({
+    allowFailure: true,
+    contracts: [
+      { ...mockContract, functionName: 'apyBps' },
+      { ...mockContract, functionName: 'lastHarvestTime' },
+      { ...mockContract, functionName: 'pendingYield' },
+      { ...mockContract, functionName: 'expectedYearlyYield' },
+      { ...mockContract, functionName: 'totalYieldHarvested' },
+      { ...mockContract, functionName: 'shouldSimulateLoss' },
+      { ...mockContract, functionName: 'lossBps' },
+    ],
+    query: { enabled: hasStrategy, refetchInterval: REFRESH_INTERVAL },
+  });
+
+  const mock: MockStrategyExtras | undefined =
+    mockData && mockData.every((r) => r.status === 'success')
+      ? {
+          apyBps: mockData[0].result as bigint,
+          lastHarvestTime: mockData[1].result as bigint,
+          pendingYield: mockData[2].result as bigint,
+          expectedYearlyYield: mockData[3].result as bigint,
+          totalYieldHarvested: mockData[4].result as bigint,
+          shouldSimulateLoss: mockData[5].result as boolean,
+          lossBps: mockData[6].result as bigint,
+        }
+      : undefined;
+
+  // 普通 Strategy 没有 lastHarvestTime，用 Vault 最近一次 Harvested 事件的区块时间代替
+  const { data: lastHarvestEventTime } = useQuery({
+    queryKey: ['lastHarvest', chainId, vault],
+    enabled: Boolean(publicClient && hasStrategy && mockData && !mock),
+    refetchInterval: REFRESH_INTERVAL * 4,
+    queryFn: async () => {
+      if (!publicClient) return null;
+      const latest = await publicClient.getBlockNumber();
+      const deployBlock = await findDeployBlock(publicClient, vault, latest);
+      if (deployBlock === undefined) return null;
+
+      // 从最新区块向部署区块分段倒查，找到的第一段即包含最近一次 Harvested
+      for (let to = latest; to >= deployBlock; to -= LOG_CHUNK_SIZE) {
+        const from = to - LOG_CHUNK_SIZE + 1n > deployBlock ? to - LOG_CHUNK_SIZE + 1n : deployBlock;
+        const logs = await publicClient.getContractEvents({ ...vaultContract, eventName: 'Harvested', fromBlock: from, toBlock: to });
+        const last = logs.at(-1);
+        if (last) return (await publicClient.getBlock({ blockNumber: last.blockNumber })).timestamp;
+      }
+      return null;
+    },
+  });
+
+  // 最近的区块时间与读取时刻，用于推算链上当前时间
+  const { data: block, dataUpdatedAt: blockFetchedAt } = useBlock({ query: { refetchInterval: REFRESH_INTERVAL } });
+
+  const data: StrategyMonitorData | undefined =
+    vaultData && (!hasStrategy || baseData)
+      ? {
+          strategy,
+          isActive: baseData?.[0] ?? false,
+          investedAssets: baseData?.[1] ?? 0n,
+          strategyTotalAssets: baseData?.[2] ?? 0n,
+          estimatedProfit: baseData?.[3][0] ?? 0n,
+          estimatedLoss: baseData?.[3][1] ?? 0n,
+          vaultTotalAssets: vaultData[2],
+          investRatioBps: vaultData[1],
+          mock,
+        }
+      : undefined;
+
+  return {
+    data,
+    lastHarvestTime: mock?.lastHarvestTime ?? lastHarvestEventTime ?? undefined,
+    blockTimestamp: block?.timestamp,
+    blockFetchedAt,
+    isLoading: isVaultLoading || (hasStrategy && isStrategyLoading),
+  };
+}
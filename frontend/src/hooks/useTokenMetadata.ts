@@ -0,0 +1,34 @@
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { useChainId, usePublicClient } from 'wagmi';
+import type { Address, PublicClient } from 'viem';
+import { fetchTokenMetadata } from '../utils/tokens';
+
+// 单个代币与批量读取共用同一个 query key，缓存互通
+const tokenMetadataQuery = (chainId: number, client: PublicClient | undefined, token: Address | undefined) => ({
+  queryKey: ['tokenMetadata', chainId, token],
+  enabled: Boolean(client && token),
+  staleTime: Infinity,
+  queryFn: () => fetchTokenMetadata(client!, token!),
+});
+
+/**
+ * 读取代币的 name / symbol / decimals；元数据不会变化，同一代币在整个会话中只读取一次
+ */
+export function useTokenMetadata(token: Address | undefined) {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  return useQuery(tokenMetadataQuery(chainId, publicClient, token));
+}
+
+/** 批量读取多个代币的元数据（如 Vault 列表），全部加载完成前 data 为 undefined */
+export function useTokenMetadataList(tokens: Address[]) {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  return useQueries({
+    queries: tokens.map((token) => tokenMetadataQuery(chainId, publicClient, token)),
+    combine: (results) => ({
+      data: results.every((r) => r.data) ? results.map((r) => r.data!) : undefined,
+      isLoading: results.some((r) => r.isLoading),
+    }),
+  });
+}
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { useChainId, usePublicClient } from 'wagmi';
+import { PRICE_SOURCES } from '../config/prices';
+import { resolvePrice } from '../utils/pricing';
+import type { TokenMetadata } from '../utils/tokens';
+
+/**
+ * 代币的 USD 价格（按 PRICE_SOURCES 顺序解析）；没有任何来源时为 null
+ */
+export function useTokenPrice(token: TokenMetadata | undefined) {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    queryKey: ['usdPrice', chainId, token?.address, token?.symbol],
+    enabled: Boolean(publicClient && token),
+    refetchInterval: 60_000,
+    queryFn: async () => (await resolvePrice(PRICE_SOURCES, token!, { client: publicClient!, chainId })) ?? null,
+  });
+}
@@ -0,0 +1,62 @@
+import { createContext, useCallback, useContext, useState } from 'react';
+import type { Hash, TransactionReceipt } from 'viem';
+import type { TxRecord } from '../utils/txHistory';
+
+export type TxResult =
+  | { status: 'confirmed'; hash: Hash; receipt: TransactionReceipt }
+  | { status: 'failed'; hash?: Hash; error: string };
+
+export interface TransactionManager {
+  /** 当前账户的交易历史（最新在前） */
+  history: TxRecord[];
+  /** 尚未确认的交易 */
+  pending: TxRecord[];
+  /**
+   * 发送一笔交易并跟踪到确认：`write` 负责唤起钱包并返回交易 hash（通常是 writeContractAsync）
+   * 错误会被解码并以 toast 提示，不会抛出
+   */
+  submit: (title: string, write: () => Promise<Hash>, onSubmitted?: (hash: Hash) => void) => Promise<TxResult>;
+  clearHistory: () => void;
+}
+
+export const TransactionContext = createContext<TransactionManager | null>(null);
+
+export function useTransactionManager(): TransactionManager {
+  const manager = useContext(TransactionContext);
+  if (!manager) throw new Error('useTransactionManager must be used inside TransactionProvider');
+  return manager;
+}
+
+export type TxState =
+  | { status: 'idle' }
+  | { status: 'signing' }
+  | { status: 'pending'; hash: Hash }
+  | { status: 'confirmed'; hash: Hash }
+  | { status: 'failed'; hash?: Hash; error: string };
+
+/**
+ * 单个操作（如 Approve / Deposit）的交易状态，底层由共享的 TransactionManager 处理
+ */
+export function useTransaction() {
+  const { submit } = useTransactionManager();
+  const [state, setState] = useState<TxState>({ status: 'idle' });
+
+  const send = useCallback(
+    async (title: string, write: () => Promise<Hash>) => {
+      setState({ status: 'signing' });
+      const result = await submit(title, write, (hash) => setState({ status: 'pending', hash }));
+      setState(result.status === 'confirmed' ? { status: 'confirmed', hash: result.hash } : result);
+      return result;
+    },
+    [submit],
+  );
+
+  const reset = useCallback(() => setState({ status: 'idle' }), []);
+
+  return {
+    ...state,
+    send,
+    reset,
+    isBusy: state.status === 'signing' || state.status === 'pending',
+  };
+}
@@ -0,0 +1,16 @@
+import { createContext, useContext } from 'react';
+import type { Deployment, VaultDeployment } from '../utils/deployments';
+
+/** 当前页面所操作的 Vault 及其所在链的共享合约 */
+export type VaultContextValue = VaultDeployment & Pick<Deployment, 'chainId' | 'feeManager' | 'accessControl'>;
+
+export const VaultContext = createContext<VaultContextValue | null>(null);
+
+/**
+ * 读取当前 Vault；只能在 /vault/:address 路由（VaultPage）内使用
+ */
+export function useVault(): VaultContextValue {
+  const vault = useContext(VaultContext);
+  if (!vault) throw new Error('useVault must be used inside a VaultContext provider');
+  return vault;
+}
@@ -0,0 +1,193 @@
+import { useCallback, useEffect } from 'react';
+import { useBlockNumber, useChainId, useReadContracts, useWatchContractEvent } from 'wagmi';
+import { zeroAddress, type Address, type Hash, type WatchContractEventOnLogsParameter } from 'viem';
+import { ACCESS_CONTROL_ABI, STRATEGY_ABI, VAULT_ABI } from '../config/abis';
+import { useTokenMetadata } from './useTokenMetadata';
+import { formatToken } from '../utils/format';
+import type { VaultDeployment } from '../utils/deployments';
+import {
+  evaluateSharePrice,
+  harvestLossSeverity,
+  loadHighWaterMark,
+  lossBps,
+  saveHighWaterMark,
+  type Alert,
+  type AlertSettings,
+} from '../utils/alerts';
+
+/** 新告警的回调；createdAt / read 由告警中心补充 */
+export type PushAlert = (alert: Omit<Alert, 'createdAt' | 'read'>) => void;
+
+const shortAddress = (addr: string) => `${addr.slice(0, 6)}…${addr.slice(-4)}`;
+const percent = (bps: number) => `${(bps / 100).toFixed(2)}%`;
+
+type LogMeta = { transactionHash: Hash | null; logIndex: number | null; blockNumber: bigint | null };
+const logMeta = (log: LogMeta) => ({
+  id: `${log.transactionHash}:${log.logIndex}`,
+  txHash: log.transactionHash ?? undefined,
+  blockNumber: log.blockNumber?.toString(),
+});
+
+/**
+ * 监听单个 Vault 的健康状况：Harvest 亏损、Strategy 更换 / 停用，以及 share price 跌破历史高点
+ * share price 与 TVL 以区块号为 key 每个区块读取一次，高水位保存在 localStorage，刷新页面后继续比较
+ */
+export function useVaultAlerts({ vault, asset }: VaultDeployment, settings: AlertSettings, push: PushAlert) {
+  const chainId = useChainId();
+  const { data: token } = useTokenMetadata(asset);
+  const { data: blockNumber } = useBlockNumber({ watch: true });
+  const { data } = useReadContracts({
+    contracts: [
+      { address: vault, abi: VAULT_ABI, functionName: 'sharePrice' },
+      { address: vault, abi: VAULT_ABI, functionName: 'totalAssets' },
+      { address: vault, abi: VAULT_ABI, functionName: 'strategy' },
+    ],
+    allowFailure: false,
+    blockNumber,
+    query: { enabled: blockNumber !== undefined },
+  });
+  const [sharePrice, totalAssets, strategy] = data ?? [];
+  const vaultLabel = `Vault ${shortAddress(vault)}`;
+
+  useWatchContractEvent({
+    address: vault,
+    abi: VAULT_ABI,
+    eventName: 'Harvested',
+    onLogs: useCallback(
+      (logs: WatchContractEventOnLogsParameter<typeof VAULT_ABI, 'Harvested'>) => {
+        for (const log of logs) {
+          const loss = log.args.loss ?? 0n;
+          if (loss === 0n) continue;
+          // 读取到的 TVL 可能已扣除本次亏损，加回后作为亏损前的近似值
+          const bps = lossBps(loss, (totalAssets ?? 0n) + loss);
+          const severity = harvestLossSeverity(bps, settings);
+          if (!severity) continue;
+          push({
+            ...logMeta(log),
+            chainId,
+            vault,
+            kind: 'harvestLoss',
+            severity,
+            title: `${vaultLabel}: harvest reported a loss`,
+            message: `Loss of ${token ? formatToken(loss, token, 4) : loss.toString()} (≈${percent(bps)} of TVL)`,
+          });
+        }
+      },
+      [chainId, vault, vaultLabel, token, totalAssets, settings, push],
+    ),
+  });
+
+  useWatchContractEvent({
+    address: vault,
+    abi: VAULT_ABI,
+    eventName: 'StrategySet',
+    onLogs: useCallback(
+      (logs: WatchContractEventOnLogsParameter<typeof VAULT_ABI, 'StrategySet'>) => {
+        for (const log of logs) {
+          const next = log.args.newStrategy;
+          push({
+            ...logMeta(log),
+            chainId,
+            vault,
+            kind: 'strategyChanged',
+            severity: 'info',
+            title: `${vaultLabel}: strategy changed`,
+            message: next && next !== zeroAddress ? `New strategy ${shortAddress(next)}` : 'Strategy removed',
+          });
+        }
+      },
+      [chainId, vault, vaultLabel, push],
+    ),
+  });
+
+  const activeStrategy: Address | undefined = strategy && strategy !== zeroAddress ? strategy : undefined;
+  useWatchContractEvent({
+    address: activeStrategy,
+    abi: STRATEGY_ABI,
+    eventName: 'StrategyDeactivated',
+    enabled: Boolean(activeStrategy),
+    onLogs: useCallback(
+      (logs: WatchContractEventOnLogsParameter<typeof STRATEGY_ABI, 'StrategyDeactivated'>) => {
+        for (const log of logs) {
+          push({
+            ...logMeta(log),
+            chainId,
+            vault,
+            kind: 'strategyDeactivated',
+            severity: 'warning',
+            title: `${vaultLabel}: strategy deactivated`,
+            message: `Strategy ${shortAddress(log.address)} no longer accepts funds`,
+          });
+        }
+      },
+      [chainId, vault, vaultLabel, push],
+    ),
+  });
+
+  // 每次读取到新的 share price 时与高水位比较；同一轮回撤只告警一次
+  useEffect(() => {
+    if (sharePrice === undefined || blockNumber === undefined) return;
+    const { mark, drawdown } = evaluateSharePrice(loadHighWaterMark(chainId, vault), sharePrice, settings);
+    saveHighWaterMark(chainId, vault, mark);
+    if (!drawdown) return;
+    push({
+      id: `drawdown:${vault}:${blockNumber}`,
+      chainId,
+      vault,
+      kind: 'sharePriceDrawdown',
+      severity: drawdown.severity,
+      blockNumber: blockNumber.toString(),
+      title: `${vaultLabel}: share price below high-water mark`,
+      message: `Share price is ${percent(drawdown.bps)} below its previous high`,
+    });
+  }, [chainId, vault, vaultLabel, sharePrice, blockNumber, settings, push]);
+}
+
+/**
+ * 监听 AccessControl 的暂停与紧急关闭；同一条链上的所有 Vault 共用一个 AccessControl，只需监听一次
+ */
+export function useAccessAlerts(accessControl: Address, push: PushAlert) {
+  const chainId = useChainId();
+
+  useWatchContractEvent({
+    address: accessControl,
+    abi: ACCESS_CONTROL_ABI,
+    eventName: 'Paused',
+    onLogs: useCallback(
+      (logs: WatchContractEventOnLogsParameter<typeof ACCESS_CONTROL_ABI, 'Paused'>) => {
+        for (const log of logs) {
+          push({
+            ...logMeta(log),
+            chainId,
+            kind: 'paused',
+            severity: 'warning',
+            title: 'Vaults paused',
+            message: `Deposits and withdrawals are paused${log.args.account ? ` by ${shortAddress(log.args.account)}` : ''}`,
+          });
+        }
+      },
+      [chainId, push],
+    ),
+  });
+
+  useWatchContractEvent({
+    address: accessControl,
+    abi: ACCESS_CONTROL_ABI,
+    eventName: 'EmergencyShutdown',
+    onLogs: useCallback(
+      (logs: WatchContractEventOnLogsParameter<typeof ACCESS_CONTROL_ABI, 'EmergencyShutdown'>) => {
+        for (const log of logs) {
+          push({
+            ...logMeta(log),
+            chainId,
+            kind: 'emergencyShutdown',
+            severity: 'critical',
+            title: 'Emergency shutdown',
+            message: `Emergency shutdown triggered${log.args.caller ? ` by ${shortAddress(log.args.caller)}` : ''}`,
+          });
+        }
+      },
+      [chainId, push],
+    ),
+  });
+}
@@ -0,0 +1,133 @@
+import { useQuery } from '@tanstack/react-query';
+import { useChainId, usePublicClient } from 'wagmi';
+import type { Address } from 'viem';
+import { VAULT_ABI } from '../config/abis';
+import { findBlockAtTimestamp, findDeployBlock } from '../utils/blocks';
+import { idbGet, idbSet } from '../utils/indexedDb';
+import type { VaultSample } from '../utils/yieldAnalytics';
+import {
+  CHART_RANGES,
+  TARGET_POINTS,
+  VAULT_HISTORY_VERSION,
+  applyMarkers,
+  emptyVaultHistory,
+  mergePoints,
+  missingSamples,
+  planSamples,
+  selectRange,
+  type ChartRange,
+  type HistoryMarker,
+  type HistorySeries,
+  type VaultHistoryState,
+} from '../utils/vaultHistory';
+
+// 每次 getLogs 的区块跨度（公共 RPC 通常限制在几千到一万个区块）
+const LOG_CHUNK_SIZE = 5_000n;
+// 同时读取的采样区块数，避免事件很多时一次性发出上百个请求
+const SAMPLE_CONCURRENCY = 5;
+
+export interface VaultHistory extends HistorySeries {
+  startBlock: bigint;
+  latestBlock: bigint;
+}
+
+/**
+ * sharePrice / totalAssets 历史曲线：事件增量索引，采样点缓存在 IndexedDB 中，切换范围时只补读缺失的区块
+ */
+export function useVaultHistory(vault: Address, range: ChartRange) {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    queryKey: ['vaultHistory', chainId, vault, range],
+    enabled: Boolean(publicClient),
+    refetchInterval: 60_000,
+    queryFn: async (): Promise<VaultHistory> => {
+      if (!publicClient) throw new Error('No public client');
+
+      const cacheKey = `history:${chainId}:${vault.toLowerCase()}`;
+      const cached = await idbGet<VaultHistoryState>(cacheKey);
+      let state = cached?.version === VAULT_HISTORY_VERSION ? cached : emptyVaultHistory();
+
+      const latestBlock = await publicClient.getBlock();
+      const latest = { number: latestBlock.number, timestamp: Number(latestBlock.timestamp) };
+      // 本地链重置（例如 Anvil 重启）后缓存的进度会超过当前高度，需要重新索引
+      if (state.lastIndexedBlock > latest.number) state = emptyVaultHistory();
+
+      if (state.deployBlock === undefined) {
+        const deployBlock = await findDeployBlock(publicClient, vault, latest.number);
+        if (deployBlock === undefined) throw new Error('Vault is not deployed on this network');
+        state = { ...state, deployBlock, lastIndexedBlock: deployBlock - 1n };
+      }
+      const deployBlock = state.deployBlock!;
+
+      for (let from = state.lastIndexedBlock + 1n; from <= latest.number; from += LOG_CHUNK_SIZE) {
+        const to = from + LOG_CHUNK_SIZE - 1n < latest.number ? from + LOG_CHUNK_SIZE - 1n : latest.number;
+        const events = { address: vault, abi: VAULT_ABI, fromBlock: from, toBlock: to } as const;
+        const [harvests, strategies, ratios] = await Promise.all([
+          publicClient.getContractEvents({ ...events, eventName: 'Harvested' }),
+          publicClient.getContractEvents({ ...events, eventName: 'StrategySet' }),
+          publicClient.getContractEvents({ ...events, eventName: 'InvestRatioUpdated' }),
+        ]);
+
+        const markers: HistoryMarker[] = [
+          ...harvests.map((log) => ({
+            kind: 'harvest' as const,
+            blockNumber: log.blockNumber,
+            profit: log.args.profit ?? 0n,
+            loss: log.args.loss ?? 0n,
+          })),
+          ...strategies.map((log) => ({
+            kind: 'strategy' as const,
+            blockNumber: log.blockNumber,
+            oldStrategy: log.args.oldStrategy!,
+            newStrategy: log.args.newStrategy!,
+          })),
+          ...ratios.map((log) => ({
+            kind: 'investRatio' as const,
+            blockNumber: log.blockNumber,
+            oldRatio: log.args.oldRatio ?? 0n,
+            newRatio: log.args.newRatio ?? 0n,
+          })),
+        ];
+        state = applyMarkers(state, to, markers);
+        // 每个分段完成后保存进度，长时间扫描中途关闭页面也不会丢失
+        await idbSet(cacheKey, state);
+      }
+
+      const seconds = CHART_RANGES[range];
+      const rangeStart = seconds === undefined
+        ? undefined
+        : await findBlockAtTimestamp(publicClient, latest.timestamp - seconds, latest);
+      const startBlock = rangeStart && rangeStart.number > deployBlock ? rangeStart.number : deployBlock;
+
+      // 距离计划区块不超过半个采样间隔的缓存点可以直接复用；最新区块和事件所在区块总是精确采样
+      const tolerance = (latest.number - startBlock) / BigInt(TARGET_POINTS * 2);
+      const planned = planSamples(startBlock, latest.number);
+      const known = new Set(state.points.map((p) => p.blockNumber));
+      const exact = [latest.number, ...state.markers.map((m) => m.blockNumber).filter((b) => b >= startBlock)];
+      const toSample = [
+        ...new Set([...missingSamples(state.points, planned, tolerance), ...exact.filter((b) => !known.has(b))]),
+      ];
+
+      // 逐个读取（Anvil 默认没有 Multicall3），每批最多 SAMPLE_CONCURRENCY 个区块；
+      // 每批完成后写入缓存，首次加载大量事件区块时中途关闭页面，下次也只需补读剩下的部分
+      const readSample = async (blockNumber: bigint): Promise<VaultSample> => {
+        const contract = { address: vault, abi: VAULT_ABI, blockNumber } as const;
+        const [block, sharePrice, totalAssets] = await Promise.all([
+          publicClient.getBlock({ blockNumber }),
+          publicClient.readContract({ ...contract, functionName: 'sharePrice' }),
+          publicClient.readContract({ ...contract, functionName: 'totalAssets' }),
+        ]);
+        return { blockNumber, timestamp: Number(block.timestamp), sharePrice, totalAssets };
+      };
+      for (let i = 0; i < toSample.length; i += SAMPLE_CONCURRENCY) {
+        const samples = await Promise.all(toSample.slice(i, i + SAMPLE_CONCURRENCY).map(readSample));
+        state = mergePoints(state, samples);
+        await idbSet(cacheKey, state);
+      }
+
+      return { ...selectRange(state, startBlock), startBlock, latestBlock: latest.number };
+    },
+  });
+}
@@ -0,0 +1,98 @@
+import { useAccount, useReadContracts } from 'wagmi';
+import { zeroAddress, type Address } from 'viem';
+import { VAULT_ABI, ERC20_ABI } from '../config/abis';
+import type { VaultDeployment } from '../utils/deployments';
+import type { TokenMetadata } from '../utils/tokens';
+import { useTokenMetadataList } from './useTokenMetadata';
+
+export interface VaultSummary extends VaultDeployment {
+  totalAssets: bigint;
+  sharePrice: bigint;
+  /** Vault 当前的 Strategy（链上读取，可能与部署时不同） */
+  currentStrategy: Address;
+  strategyActive: boolean;
+  assetToken: TokenMetadata;
+  shareToken: TokenMetadata;
+  userShares: bigint;
+  userAssets: bigint;
+}
+
+// 每个 Vault 读取的字段数 / 代币数，用于从扁平化结果中按下标取值
+const VAULT_READS = 4;
+const TOKEN_READS = 2;
+
+/**
+ * 批量读取注册表中所有 Vault 的 TVL、Share Price、Strategy 以及当前账户的持仓
+ */
+export function useVaultList(vaults: VaultDeployment[]) {
+  const { address } = useAccount();
+  const user = address ?? zeroAddress;
+
+  const { data: vaultData, isLoading: isVaultLoading } = useReadContracts({
+    allowFailure: false,
+    contracts: vaults.flatMap(({ vault }) => {
+      const contract = { address: vault, abi: VAULT_ABI } as const;
+      return [
+        { ...contract, functionName: 'totalAssets' },
+        { ...contract, functionName: 'sharePrice' },
+        { ...contract, functionName: 'getStrategyInfo' },
+        { ...contract, functionName: 'balanceOfAssets', args: [user] },
+      ] as const;
+    }),
+  });
+
+  const { data: userShares, isLoading: isSharesLoading } = useReadContracts({
+    allowFailure: false,
+    contracts: vaults.map(({ vaultToken }) => ({ address: vaultToken, abi: ERC20_ABI, functionName: 'balanceOf', args: [user] }) as const),
+  });
+
+  // 资产与 VaultToken 的 symbol / decimals 来自共享的元数据缓存
+  const { data: tokens, isLoading: isTokenLoading } = useTokenMetadataList(
+    vaults.flatMap(({ asset, vaultToken }) => [asset, vaultToken]),
+  );
+
+  const summaries: VaultSummary[] | undefined =
+    vaultData && userShares && tokens
+      ? vaults.map((deployment, i) => {
+          const v = vaultData.slice(i * VAULT_READS, (i + 1) * VAULT_READS);
+          const [asset, share] = tokens.slice(i * TOKEN_READS, (i + 1) * TOKEN_READS);
+          const [strategy, strategyActive] = v[2] as readonly [Address, boolean, bigint, bigint];
+          return {
+            ...deployment,
+            totalAssets: v[0] as bigint,
+            sharePrice: v[1] as bigint,
+            currentStrategy: strategy,
+            strategyActive,
+            assetToken: asset,
+            shareToken: share,
+            userShares: userShares[i],
+            userAssets: v[3] as bigint,
+          };
+        })
+      : undefined;
+
+  return { data: summaries, isLoading: isVaultLoading || isSharesLoading || isTokenLoading };
+}
+
+export interface AssetTotal {
+  token: TokenMetadata;
+  userAssets: bigint;
+  vaultCount: number;
+}
+
+/**
+ * 按底层资产汇总当前账户在所有 Vault 中的持仓（不同资产之间不直接相加）
+ */
+export function aggregatePositions(summaries: VaultSummary[]): AssetTotal[] {
+  const totals = new Map<Address, AssetTotal>();
+  for (const s of summaries) {
+    if (s.userShares === 0n) continue;
+    const total = totals.get(s.asset) ?? {
+      token: s.assetToken,
+      userAssets: 0n,
+      vaultCount: 0,
+    };
+    totals.set(s.asset, { ...total, userAssets: total.userAssets + s.userAssets, vaultCount: total.vaultCount + 1 });
+  }
+  return [...totals.values()];
+}
@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAccount, useBlockNumber, useChainId, usePublicClient } from 'wagmi';
+import { useVault } from './useVault';
+import { fetchVaultSnapshot } from '../utils/vaultSnapshot';
+
+/**
+ * 当前 Vault 的一致性快照：每个新区块读取一次（Multicall3 可用时为一次 eth_call）
+ * 所有卡片共用同一份数据，显示的数值都来自同一个区块；新区块的数据到达前保留上一份快照
+ * 区块号是 query key 的一部分，新区块自动触发刷新（多个组件的区块监听由 viem 合并为一个轮询）
+ */
+export function useVaultSnapshot() {
+  const { vault, vaultToken, asset, feeManager, accessControl } = useVault();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { address: user } = useAccount();
+  const { data: blockNumber } = useBlockNumber({ watch: true });
+
+  return useQuery({
+    queryKey: ['vaultSnapshot', chainId, vault, user, blockNumber?.toString()],
+    enabled: Boolean(publicClient && blockNumber !== undefined),
+    // 只沿用同一 Vault、同一账户的上一份快照，切换账户时不显示旧账户的余额
+    placeholderData: (previous, previousQuery) =>
+      previousQuery?.queryKey[2] === vault && previousQuery.queryKey[3] === user ? previous : undefined,
+    queryFn: () =>
+      fetchVaultSnapshot(publicClient!, { vault, vaultToken, asset, feeManager, accessControl }, user, blockNumber!),
+  });
+}
@@ -0,0 +1,37 @@
+import { useCallback } from 'react';
+import { useVault } from './useVault';
+import { useTokenMetadata } from './useTokenMetadata';
+import { useTokenPrice } from './useTokenPrice';
+import { formatAssetValue, formatToken } from '../utils/format';
+import { placeholderToken } from '../utils/tokens';
+
+/**
+ * 当前 Vault 的资产 / share 元数据与资产价格，以及统一的金额格式化
+ * - formatAsset / formatShares: 代币数量，如 "1,234.56 USDC"
+ * - formatValue: 有价格时显示 USD，否则退回代币数量
+ */
+export function useVaultTokens() {
+  const { asset: assetAddress, vaultToken } = useVault();
+  const { data: assetMeta, isLoading: isAssetLoading } = useTokenMetadata(assetAddress);
+  const { data: shareMeta, isLoading: isShareLoading } = useTokenMetadata(vaultToken);
+  const asset = assetMeta ?? placeholderToken(assetAddress);
+  const share = shareMeta ?? placeholderToken(vaultToken);
+  const { data: price } = useTokenPrice(assetMeta);
+
+  const formatAsset = useCallback((value: bigint, fractionDigits?: number) => formatToken(value, asset, fractionDigits), [asset]);
+  const formatShares = useCallback((value: bigint, fractionDigits?: number) => formatToken(value, share, fractionDigits), [share]);
+  const formatValue = useCallback(
+    (value: bigint, signed = false, fractionDigits = 2) => formatAssetValue(value, asset, price ?? undefined, signed, fractionDigits),
+    [asset, price],
+  );
+
+  return {
+    asset,
+    share,
+    price: price ?? undefined,
+    isLoading: isAssetLoading || isShareLoading,
+    formatAsset,
+    formatShares,
+    formatValue,
+  };
+}
@@ -0,0 +1,94 @@
+import { useQuery } from '@tanstack/react-query';
+import { useChainId, usePublicClient } from 'wagmi';
+import type { Address } from 'viem';
+import { VAULT_ABI } from '../config/abis';
+import { findBlockAtTimestamp, findDeployBlock } from '../utils/blocks';
+import {
+  YIELD_WINDOWS,
+  computeWindowStats,
+  type HarvestRecord,
+  type VaultSample,
+  type WindowStats,
+  type YieldWindow,
+} from '../utils/yieldAnalytics';
+
+// 每次 getLogs 的区块跨度（公共 RPC 通常限制在几千到一万个区块）
+const LOG_CHUNK_SIZE = 5_000n;
+
+export interface YieldAnalytics {
+  current: VaultSample;
+  windows: Record<YieldWindow, WindowStats>;
+}
+
+/**
+ * 采样历史区块的 sharePrice / totalAssets，并读取 Harvested 事件，计算各窗口的收益数据
+ */
+export function useYieldAnalytics(vault: Address) {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    queryKey: ['yieldAnalytics', chainId, vault],
+    enabled: Boolean(publicClient),
+    refetchInterval: 60_000,
+    queryFn: async (): Promise<YieldAnalytics> => {
+      if (!publicClient) throw new Error('No public client');
+
+      const latestBlock = await publicClient.getBlock();
+      const latest = { number: latestBlock.number, timestamp: Number(latestBlock.timestamp) };
+
+      // 读取指定区块的状态；Vault 当时尚未部署时返回 undefined
+      const sampleAt = async (blockNumber: bigint, timestamp: number): Promise<VaultSample | undefined> => {
+        try {
+          const [sharePrice, totalAssets] = await Promise.all([
+            publicClient.readContract({ address: vault, abi: VAULT_ABI, functionName: 'sharePrice', blockNumber }),
+            publicClient.readContract({ address: vault, abi: VAULT_ABI, functionName: 'totalAssets', blockNumber }),
+          ]);
+          return { blockNumber, timestamp, sharePrice, totalAssets };
+        } catch {
+          return undefined;
+        }
+      };
+
+      const current = await sampleAt(latest.number, latest.timestamp);
+      if (!current) throw new Error('Vault is not readable on this network');
+
+      const windowNames = Object.keys(YIELD_WINDOWS) as YieldWindow[];
+      const starts = await Promise.all(
+        windowNames.map(async (name) => {
+          const ref = await findBlockAtTimestamp(publicClient, latest.timestamp - YIELD_WINDOWS[name], latest);
+          return ref ? sampleAt(ref.number, ref.timestamp) : undefined;
+        }),
+      );
+
+      // 只需要最长窗口内的 Harvested 事件；Vault 晚于窗口起点部署时从部署区块开始，分段读取
+      const oldest = starts[starts.length - 1];
+      const fromBlock = oldest ? oldest.blockNumber + 1n : await findDeployBlock(publicClient, vault, latest.number);
+      if (fromBlock === undefined) throw new Error('Vault is not deployed on this network');
+      const harvestedLogs = [];
+      for (let from = fromBlock; from <= latest.number; from += LOG_CHUNK_SIZE) {
+        const to = from + LOG_CHUNK_SIZE - 1n < latest.number ? from + LOG_CHUNK_SIZE - 1n : latest.number;
+        harvestedLogs.push(
+          ...(await publicClient.getContractEvents({
+            address: vault,
+            abi: VAULT_ABI,
+            eventName: 'Harvested',
+            fromBlock: from,
+            toBlock: to,
+          })),
+        );
+      }
+      const harvests: HarvestRecord[] = harvestedLogs.map((log) => ({
+        blockNumber: log.blockNumber,
+        profit: log.args.profit ?? 0n,
+        loss: log.args.loss ?? 0n,
+      }));
+
+      const windows = Object.fromEntries(
+        windowNames.map((name, i) => [name, computeWindowStats(name, current, starts[i], harvests)]),
+      ) as Record<YieldWindow, WindowStats>;
+
+      return { current, windows };
+    },
+  });
+}
@@ -0,0 +1,44 @@
+import type { Address } from 'viem';
+
+// VaultAccessControl 相关的纯函数：角色识别与存款限制原因
+
+export type Role = 'owner' | 'strategist' | 'guardian' | 'keeper';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: 'Owner',
+  strategist: 'Strategist',
+  guardian: 'Guardian',
+  keeper: 'Keeper',
+};
+
+export type RoleAddresses = Record<Role, Address>;
+
+export interface AccessState {
+  paused: boolean;
+  /** 暂停由 emergencyShutdown 触发（之后没有 unpause） */
+  shutdown?: { caller: Address; blockNumber: bigint };
+  publicDeposits: boolean;
+  isWhitelisted: boolean;
+  canDeposit: boolean;
+  roles: RoleAddresses;
+}
+
+export function rolesOf(account: Address | undefined, roles: RoleAddresses): Role[] {
+  if (!account) return [];
+  const lower = account.toLowerCase();
+  return (Object.keys(roles) as Role[]).filter((role) => roles[role].toLowerCase() === lower);
+}
+
+/**
+ * 返回不能存款的具体原因；可以存款时返回 undefined
+ */
+export function depositBlockReason(state: AccessState): string | undefined {
+  if (state.shutdown) return 'The vault is in emergency shutdown. Deposits are disabled.';
+  if (state.paused) return 'The vault is paused. Deposits are disabled until it is unpaused.';
+  if (!state.canDeposit) {
+    return state.publicDeposits
+      ? 'Your account is not allowed to deposit.'
+      : 'Public deposits are turned off and your account is not on the whitelist.';
+  }
+  return undefined;
+}
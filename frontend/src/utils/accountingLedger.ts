@@ -0,0 +1,276 @@
+// 会计导出：把 Deposit / Redeem / VaultToken Transfer 事件整理成逐笔台账，按 FIFO 或平均成本法计算已实现收益
+// 金额均为最小单位的 bigint，导出时才按 decimals 转成十进制字符串；sharePrice 与合约一致使用 1e18 精度
+// MinimalVault.redeem 按 previewRedeem 全额转出，不经过 FeeManager，因此台账中没有提款手续费
+import { formatUnits, type Address, type Hash } from 'viem';
+import { PRICE_PRECISION } from './positionAccounting';
+
+export type LedgerEventKind = 'deposit' | 'redeem' | 'transferIn' | 'transferOut';
+
+export interface LedgerEvent {
+  account: Address;
+  kind: LedgerEventKind;
+  blockNumber: bigint;
+  logIndex: number;
+  /** 区块时间（秒） */
+  timestamp: number;
+  txHash: Hash;
+  shares: bigint;
+  /** 存款 / 赎回为实际成交的资产；转账为按当时 sharePrice 折算的价值 */
+  assets: bigint;
+  /** 当时的 sharePrice（1e18 精度） */
+  sharePrice: bigint;
+  /** 转账的对方地址 */
+  counterparty?: Address;
+}
+
+export type CostMethod = 'fifo' | 'average';
+
+export const COST_METHOD_LABELS: Record<CostMethod, string> = {
+  fifo: 'FIFO',
+  average: 'Average cost',
+};
+
+export interface LedgerRow extends LedgerEvent {
+  /** 本笔移出的成本（赎回 / 转出）或新增的成本（存款 / 转入） */
+  costBasis: bigint;
+  /** 已实现收益 = 赎回资产 - 成本（仅赎回） */
+  realizedGain: bigint;
+  sharesAfter: bigint;
+  costBasisAfter: bigint;
+}
+
+export interface LedgerSummary {
+  account: Address;
+  deposited: bigint;
+  redeemed: bigint;
+  realizedGain: bigint;
+  /** 区间开始前的持仓 */
+  openingShares: bigint;
+  openingCostBasis: bigint;
+  /** 区间结束时的持仓 */
+  closingShares: bigint;
+  closingCostBasis: bigint;
+}
+
+/** 时间区间（秒，包含两端）；未设置的一端不限制 */
+export interface DateRange {
+  from?: number;
+  to?: number;
+}
+
+interface Lot {
+  shares: bigint;
+  cost: bigint;
+}
+
+// 持仓的成本记录：FIFO 保留每一批买入，平均成本法只保留一个合并批次
+function createCostPool(method: CostMethod) {
+  let lots: Lot[] = [];
+  const totals = () => lots.reduce((acc, lot) => ({ shares: acc.shares + lot.shares, cost: acc.cost + lot.cost }), { shares: 0n, cost: 0n });
+
+  return {
+    add(shares: bigint, cost: bigint) {
+      if (method === 'average' && lots.length > 0) lots = [{ shares: lots[0].shares + shares, cost: lots[0].cost + cost }];
+      else lots.push({ shares, cost });
+    },
+    /** 移出 shares 并返回对应的成本；超出持仓的部分（事件缺失）成本按 0 计 */
+    remove(shares: bigint): bigint {
+      let remaining = shares;
+      let cost = 0n;
+      while (remaining > 0n && lots.length > 0) {
+        const lot = lots[0];
+        if (lot.shares <= remaining) {
+          cost += lot.cost;
+          remaining -= lot.shares;
+          lots.shift();
+        } else {
+          const portion = (lot.cost * remaining) / lot.shares;
+          cost += portion;
+          lots[0] = { shares: lot.shares - remaining, cost: lot.cost - portion };
+          remaining = 0n;
+        }
+      }
+      return cost;
+    },
+    totals,
+  };
+}
+
+const compareEvents = (a: LedgerEvent, b: LedgerEvent) => {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+  return a.logIndex - b.logIndex;
+};
+
+/**
+ * 按账户回放全部历史事件（成本需要从第一笔开始计算），返回按时间排序的台账
+ * 转出不视为卖出，只按所选方法移出成本，不确认收益（与仓位卡片一致）
+ */
+export function buildLedger(events: LedgerEvent[], method: CostMethod): LedgerRow[] {
+  const pools = new Map<string, ReturnType<typeof createCostPool>>();
+  const rows: LedgerRow[] = [];
+
+  for (const event of [...events].sort(compareEvents)) {
+    const key = event.account.toLowerCase();
+    let pool = pools.get(key);
+    if (!pool) {
+      pool = createCostPool(method);
+      pools.set(key, pool);
+    }
+
+    let costBasis = 0n;
+    let realizedGain = 0n;
+    switch (event.kind) {
+      case 'deposit':
+      case 'transferIn':
+        costBasis = event.assets;
+        pool.add(event.shares, costBasis);
+        break;
+      case 'redeem':
+        costBasis = pool.remove(event.shares);
+        realizedGain = event.assets - costBasis;
+        break;
+      case 'transferOut':
+        costBasis = pool.remove(event.shares);
+        break;
+    }
+    const { shares, cost } = pool.totals();
+    rows.push({ ...event, costBasis, realizedGain, sharesAfter: shares, costBasisAfter: cost });
+  }
+  return rows;
+}
+
+export function inRange(timestamp: number, range: DateRange): boolean {
+  return (range.from === undefined || timestamp >= range.from) && (range.to === undefined || timestamp <= range.to);
+}
+
+/** 每个账户在区间内的汇总，以及区间前后的持仓 */
+export function summarizeLedger(rows: LedgerRow[], accounts: Address[], range: DateRange): LedgerSummary[] {
+  return accounts.map((account) => {
+    const own = rows.filter((row) => row.account.toLowerCase() === account.toLowerCase());
+    const before = own.filter((row) => range.from !== undefined && row.timestamp < range.from).at(-1);
+    const through = own.filter((row) => range.to === undefined || row.timestamp <= range.to).at(-1);
+    const within = own.filter((row) => inRange(row.timestamp, range));
+    const sum = (pick: (row: LedgerRow) => bigint) => within.reduce((acc, row) => acc + pick(row), 0n);
+
+    return {
+      account,
+      deposited: sum((row) => (row.kind === 'deposit' ? row.assets : 0n)),
+      redeemed: sum((row) => (row.kind === 'redeem' ? row.assets : 0n)),
+      realizedGain: sum((row) => row.realizedGain),
+      openingShares: before?.sharesAfter ?? 0n,
+      openingCostBasis: before?.costBasisAfter ?? 0n,
+      closingShares: through?.sharesAfter ?? 0n,
+      closingCostBasis: through?.costBasisAfter ?? 0n,
+    };
+  });
+}
+
+// ============ 导出 ============
+
+export interface LedgerUnits {
+  assetSymbol: string;
+  assetDecimals: number;
+  shareDecimals: number;
+}
+
+export interface LedgerExport {
+  vault: Address;
+  chainId: number;
+  method: CostMethod;
+  range: DateRange;
+  units: LedgerUnits;
+  rows: LedgerRow[];
+  summaries: LedgerSummary[];
+}
+
+const isoDate = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+// 金额按 decimals 输出为精确的十进制字符串，便于表格软件与会计系统导入
+function formatRow(row: LedgerRow, units: LedgerUnits) {
+  const assets = (value: bigint) => formatUnits(value, units.assetDecimals);
+  return {
+    date: isoDate(row.timestamp),
+    timestamp: row.timestamp,
+    account: row.account,
+    type: row.kind,
+    txHash: row.txHash,
+    blockNumber: row.blockNumber.toString(),
+    shares: formatUnits(row.shares, units.shareDecimals),
+    assets: assets(row.assets),
+    sharePrice: formatUnits(row.sharePrice, 18),
+    costBasis: assets(row.costBasis),
+    realizedGain: assets(row.realizedGain),
+    sharesAfter: formatUnits(row.sharesAfter, units.shareDecimals),
+    costBasisAfter: assets(row.costBasisAfter),
+    counterparty: row.counterparty ?? '',
+  };
+}
+
+const CSV_COLUMNS = [
+  'date',
+  'timestamp',
+  'account',
+  'type',
+  'txHash',
+  'blockNumber',
+  'shares',
+  'assets',
+  'sharePrice',
+  'costBasis',
+  'realizedGain',
+  'sharesAfter',
+  'costBasisAfter',
+  'counterparty',
+] as const;
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** 区间内的逐笔台账（CSV），金额单位为资产 / share 代币 */
+export function ledgerToCsv({ rows, range, units }: LedgerExport): string {
+  const lines = rows
+    .filter((row) => inRange(row.timestamp, range))
+    .map((row) => {
+      const formatted = formatRow(row, units);
+      return CSV_COLUMNS.map((column) => csvCell(formatted[column])).join(',');
+    });
+  return [CSV_COLUMNS.join(','), ...lines].join('\r\n');
+}
+
+/** 带元数据与账户汇总的 JSON 导出 */
+export function ledgerToJson(report: LedgerExport): string {
+  const assets = (value: bigint) => formatUnits(value, report.units.assetDecimals);
+  const shares = (value: bigint) => formatUnits(value, report.units.shareDecimals);
+  return JSON.stringify(
+    {
+      vault: report.vault,
+      chainId: report.chainId,
+      asset: report.units.assetSymbol,
+      costMethod: report.method,
+      // Vault 赎回不收取 FeeManager 配置的提款手续费，已实现收益中没有扣除手续费
+      withdrawalFeeCharged: false,
+      from: report.range.from !== undefined ? isoDate(report.range.from) : null,
+      to: report.range.to !== undefined ? isoDate(report.range.to) : null,
+      summaries: report.summaries.map((s) => ({
+        account: s.account,
+        deposited: assets(s.deposited),
+        redeemed: assets(s.redeemed),
+        realizedGain: assets(s.realizedGain),
+        openingShares: shares(s.openingShares),
+        openingCostBasis: assets(s.openingCostBasis),
+        closingShares: shares(s.closingShares),
+        closingCostBasis: assets(s.closingCostBasis),
+      })),
+      rows: report.rows.filter((row) => inRange(row.timestamp, report.range)).map((row) => formatRow(row, report.units)),
+    },
+    null,
+    2,
+  );
+}
+
+/** 存款 / 赎回的成交价（1e18 精度）；shares 为 0 时返回 undefined */
+export function executionPrice(assets: bigint, shares: bigint): bigint | undefined {
+  return shares > 0n ? (assets * PRICE_PRECISION) / shares : undefined;
+}
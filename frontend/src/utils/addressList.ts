@@ -0,0 +1,88 @@
+import { getAddress, isAddress, type Address } from 'viem';
+
+// 批量地址处理：解析 CSV / 粘贴文本、校验 checksum、去重、按 gas 分批
+
+export interface InvalidEntry {
+  line: number;
+  value: string;
+  reason: string;
+}
+
+export interface ParsedAddressList {
+  /** 校验通过并转换为 checksum 格式的地址（已去重，保持输入顺序） */
+  addresses: Address[];
+  invalid: InvalidEntry[];
+  /** 重复出现被忽略的条目数 */
+  duplicates: number;
+}
+
+const HEADER_PATTERN = /^(address|addresses|wallet|account)$/i;
+
+/**
+ * 解析 CSV 或粘贴的地址列表：支持逗号、分号、制表符、空白分隔，每行取第一个像地址的列
+ */
+export function parseAddressList(text: string): ParsedAddressList {
+  const addresses: Address[] = [];
+  const invalid: InvalidEntry[] = [];
+  const seen = new Set<string>();
+  let duplicates = 0;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const cells = rawLine
+      .split(/[,;\t ]+/)
+      .map((cell) => cell.trim().replace(/^["']|["']$/g, ''))
+      .filter(Boolean);
+    if (cells.length === 0) return;
+
+    // 每行取第一个 0x 开头的单元格，其余列（备注等）忽略
+    const value = cells.find((cell) => cell.startsWith('0x')) ?? cells[0];
+    if (HEADER_PATTERN.test(value)) return;
+
+    if (!isAddress(value, { strict: false })) {
+      invalid.push({ line: index + 1, value, reason: 'Not a valid address' });
+      return;
+    }
+    // 大小写混合但 checksum 错误的地址很可能是手误，直接拒绝
+    const isMixedCase = value !== value.toLowerCase() && value.slice(2) !== value.slice(2).toUpperCase();
+    if (isMixedCase && !isAddress(value, { strict: true })) {
+      invalid.push({ line: index + 1, value, reason: 'Invalid checksum' });
+      return;
+    }
+    if (/^0x0{40}$/i.test(value)) {
+      invalid.push({ line: index + 1, value, reason: 'Zero address' });
+      return;
+    }
+
+    const checksummed = getAddress(value);
+    if (seen.has(checksummed)) {
+      duplicates++;
+      return;
+    }
+    seen.add(checksummed);
+    addresses.push(checksummed);
+  });
+
+  return { addresses, invalid, duplicates };
+}
+
+export interface GasPlan {
+  /** 单个地址的边际 gas */
+  perItemGas: bigint;
+  /** 每笔交易的固定开销 */
+  baseGas: bigint;
+  /** 单笔交易允许使用的 gas 上限 */
+  gasBudget: bigint;
+}
+
+/**
+ * 按 gas 预算把地址切分成多个批次，每批次至少一个地址
+ */
+export function chunkByGas(addresses: Address[], plan: GasPlan): Address[][] {
+  const perBatch = plan.perItemGas > 0n ? (plan.gasBudget - plan.baseGas) / plan.perItemGas : BigInt(addresses.length);
+  const size = Math.max(1, Number(perBatch));
+  const batches: Address[][] = [];
+  for (let i = 0; i < addresses.length; i += size) {
+    batches.push(addresses.slice(i, i + size));
+  }
+  return batches;
+}
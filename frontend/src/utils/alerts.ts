@@ -0,0 +1,152 @@
+// 告警：Vault / Strategy 的异常事件（亏损、暂停、紧急关闭、策略变更、share price 回撤）
+// 告警记录、每个 Vault 的阈值设置与 share price 高水位都保存在 localStorage
+import type { Address, Hash } from 'viem';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type AlertKind =
+  | 'harvestLoss'
+  | 'emergencyShutdown'
+  | 'paused'
+  | 'strategyChanged'
+  | 'strategyDeactivated'
+  | 'sharePriceDrawdown';
+
+export interface Alert {
+  /** 事件告警为 txHash:logIndex，回撤告警为区块号；用于去重 */
+  id: string;
+  chainId: number;
+  /** AccessControl 的告警（暂停 / 紧急关闭）影响同一条链上的所有 Vault，此时为 undefined */
+  vault?: Address;
+  kind: AlertKind;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  txHash?: Hash;
+  blockNumber?: string;
+  /** 收到时间（毫秒） */
+  createdAt: number;
+  read: boolean;
+}
+
+export const SEVERITY_ORDER: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+/** 每个 Vault 的告警设置 */
+export interface AlertSettings {
+  /** 亏损占 TVL 的比例达到该值（基点）才告警，0 表示任何亏损都告警 */
+  minLossBps: number;
+  /** share price 低于历史高点该比例（基点）时告警 */
+  drawdownBps: number;
+  /** 是否发送浏览器通知 */
+  notifications: boolean;
+  /** 浏览器通知的最低级别 */
+  notifyMinSeverity: AlertSeverity;
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  minLossBps: 0,
+  drawdownBps: 50,
+  notifications: false,
+  notifyMinSeverity: 'warning',
+};
+
+// 亏损 / 回撤达到该比例时升级为 critical
+export const CRITICAL_LOSS_BPS = 500;
+export const CRITICAL_DRAWDOWN_BPS = 1_000;
+
+// 每条链最多保留的告警数
+export const MAX_ALERTS = 100;
+
+const BPS = 10_000n;
+
+/** 亏损占 TVL 的基点；TVL 为 0 时视为 100% */
+export function lossBps(loss: bigint, totalAssets: bigint): number {
+  if (totalAssets === 0n) return Number(BPS);
+  return Number((loss * BPS) / totalAssets);
+}
+
+export function harvestLossSeverity(bps: number, settings: AlertSettings): AlertSeverity | undefined {
+  if (bps < settings.minLossBps) return undefined;
+  return bps >= CRITICAL_LOSS_BPS ? 'critical' : 'warning';
+}
+
+/** share price 高水位；alerted 表示本轮回撤已经告警过，回到高点后重置 */
+export interface HighWaterMark {
+  price: bigint;
+  alerted: boolean;
+}
+
+/**
+ * 用最新的 share price 更新高水位，回撤首次超过阈值时返回告警级别与回撤幅度（基点）
+ */
+export function evaluateSharePrice(
+  mark: HighWaterMark | undefined,
+  price: bigint,
+  settings: AlertSettings,
+): { mark: HighWaterMark; drawdown?: { bps: number; severity: AlertSeverity } } {
+  if (!mark || price >= mark.price) return { mark: { price, alerted: false } };
+  const bps = Number(((mark.price - price) * BPS) / mark.price);
+  if (mark.alerted || bps < settings.drawdownBps) return { mark };
+  return {
+    mark: { ...mark, alerted: true },
+    drawdown: { bps, severity: bps >= CRITICAL_DRAWDOWN_BPS ? 'critical' : 'warning' },
+  };
+}
+
+/** 插入新告警（按 id 去重，最新在前） */
+export function addAlert(alerts: Alert[], alert: Alert): Alert[] {
+  if (alerts.some((a) => a.id === alert.id)) return alerts;
+  return [alert, ...alerts].slice(0, MAX_ALERTS);
+}
+
+export function shouldNotify(alert: Alert, settings: AlertSettings): boolean {
+  return settings.notifications && SEVERITY_ORDER[alert.severity] >= SEVERITY_ORDER[settings.notifyMinSeverity];
+}
+
+// ============ 持久化 ============
+
+const alertsKey = (chainId: number) => `yield-vault:alerts:${chainId}`;
+const SETTINGS_KEY = 'yield-vault:alertSettings';
+const HIGH_WATER_KEY = 'yield-vault:highWaterMarks';
+const vaultKey = (chainId: number, vault: Address) => `${chainId}:${vault.toLowerCase()}`;
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // 存储已满或被禁用时只保留内存中的状态
+  }
+}
+
+export const loadAlerts = (chainId: number) => readJson<Alert[]>(alertsKey(chainId), []);
+export const saveAlerts = (chainId: number, alerts: Alert[]) => writeJson(alertsKey(chainId), alerts.slice(0, MAX_ALERTS));
+
+export function loadAlertSettings(chainId: number, vault: Address): AlertSettings {
+  const all = readJson<Record<string, Partial<AlertSettings>>>(SETTINGS_KEY, {});
+  return { ...DEFAULT_ALERT_SETTINGS, ...all[vaultKey(chainId, vault)] };
+}
+
+export function saveAlertSettings(chainId: number, vault: Address, settings: AlertSettings): void {
+  const all = readJson<Record<string, AlertSettings>>(SETTINGS_KEY, {});
+  writeJson(SETTINGS_KEY, { ...all, [vaultKey(chainId, vault)]: settings });
+}
+
+// bigint 以字符串保存
+export function loadHighWaterMark(chainId: number, vault: Address): HighWaterMark | undefined {
+  const stored = readJson<Record<string, { price: string; alerted: boolean }>>(HIGH_WATER_KEY, {})[vaultKey(chainId, vault)];
+  return stored ? { price: BigInt(stored.price), alerted: stored.alerted } : undefined;
+}
+
+export function saveHighWaterMark(chainId: number, vault: Address, mark: HighWaterMark): void {
+  const all = readJson<Record<string, { price: string; alerted: boolean }>>(HIGH_WATER_KEY, {});
+  writeJson(HIGH_WATER_KEY, { ...all, [vaultKey(chainId, vault)]: { price: mark.price.toString(), alerted: mark.alerted } });
+}
@@ -0,0 +1,144 @@
+// 本地 Anvil 会话的开发工具：模拟任意账户发送交易、推进时间、快照 / 恢复链状态
+// 通过 Anvil 的 anvil_* / evm_* RPC 直接操作节点，不经过浏览器钱包
+import {
+  createTestClient,
+  http,
+  parseAbi,
+  parseEther,
+  publicActions,
+  walletActions,
+  type Abi,
+  type Address,
+  type Chain,
+  type Hash,
+  type Hex,
+  type Transport,
+} from 'viem';
+
+/** Anvil 默认助记词派生的前 10 个账户（节点已解锁，无需模拟） */
+export const ANVIL_ACCOUNTS: readonly Address[] = [
+  '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+  '0x90F79bf6EB2c4f870365E785982E1f101E93b906',
+  '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65',
+  '0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc',
+  '0x976EA74026E726554dB657fA54763abd0C3a0aa9',
+  '0x14dC79964da2C08b23698B3D3cc7Ca32193d9955',
+  '0x23618e81E3f5cdF7f54C3d65f7FBc0aBf5B21E8f',
+  '0xa0Ee7A142d267C1f36714E4a8F75612F20a79720',
+];
+
+/** 部署脚本中的 MockERC20 / MockPermitToken 都开放了任意地址可调用的 mint */
+export const MOCK_ASSET_ABI = parseAbi(['function mint(address to, uint256 amount)']);
+
+// 模拟账户余额低于该值时补充 gas
+const MIN_GAS_BALANCE = parseEther('1');
+const GAS_TOP_UP = parseEther('10');
+
+/** 默认通过 HTTP 连接链配置中的节点；演示模式传入内存链的 transport */
+export function createAnvilClient(chain: Chain, transport: Transport = http(chain.rpcUrls.default.http[0])) {
+  return createTestClient({ mode: 'anvil', chain, transport })
+    .extend(publicActions)
+    .extend(walletActions);
+}
+
+export type AnvilClient = ReturnType<typeof createAnvilClient>;
+
+/** 任意合约调用；参数在发送前由 simulateContract 校验 */
+export interface ContractCall {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+const isDefaultAccount = (account: Address) =>
+  ANVIL_ACCOUNTS.some((a) => a.toLowerCase() === account.toLowerCase());
+
+/**
+ * 以任意地址的身份发送合约调用：非默认账户先 anvil_impersonateAccount，余额不足时补充 ETH 作为 gas
+ * 等待回执，revert 时抛出异常
+ */
+export async function sendAs(
+  client: AnvilClient,
+  from: Address,
+  request: ContractCall,
+): Promise<Hash> {
+  const impersonate = !isDefaultAccount(from);
+  if (impersonate) await client.impersonateAccount({ address: from });
+  try {
+    const balance = await client.getBalance({ address: from });
+    if (balance < MIN_GAS_BALANCE) await client.setBalance({ address: from, value: balance + GAS_TOP_UP });
+
+    // 先模拟一次，revert 时得到可解码的错误
+    await client.simulateContract({ ...request, account: from });
+    const hash = await client.writeContract({ ...request, account: from, chain: client.chain });
+    const receipt = await client.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') throw new Error(`Transaction ${hash} reverted`);
+    return hash;
+  } finally {
+    if (impersonate) await client.stopImpersonatingAccount({ address: from });
+  }
+}
+
+/** 推进链上时间并出一个块，使 MockStrategy 按新的 block.timestamp 累积收益 */
+export async function increaseTime(client: AnvilClient, seconds: number): Promise<void> {
+  await client.increaseTime({ seconds });
+  await client.mine({ blocks: 1 });
+}
+
+// ============ 快照 ============
+
+export interface AnvilSnapshot {
+  /** evm_snapshot 返回的 id */
+  id: Hex;
+  label: string;
+  blockNumber: number;
+  /** 拍摄时间（毫秒） */
+  takenAt: number;
+}
+
+// 快照保存在 localStorage；Anvil 重启后旧 id 失效，恢复失败时会被移除
+const SNAPSHOT_STORAGE_KEY = 'yield-vault:anvilSnapshots';
+
+export function loadSnapshots(): AnvilSnapshot[] {
+  try {
+    const raw = localStorage.getItem(SNAPSHOT_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as AnvilSnapshot[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveSnapshots(snapshots: AnvilSnapshot[]): void {
+  try {
+    localStorage.setItem(SNAPSHOT_STORAGE_KEY, JSON.stringify(snapshots));
+  } catch {
+    // 存储被禁用时快照只在当前页面有效
+  }
+}
+
+export async function takeSnapshot(client: AnvilClient, label: string): Promise<AnvilSnapshot> {
+  const id = await client.snapshot();
+  const blockNumber = Number(await client.getBlockNumber());
+  return { id, label: label || `Block ${blockNumber}`, blockNumber, takenAt: Date.now() };
+}
+
+/**
+ * 恢复到快照；evm_revert 会同时使该快照及之后拍摄的快照失效，返回仍然有效的快照列表
+ * 快照已失效（例如 Anvil 重启过）时抛出异常，并由调用方移除它
+ */
+export async function revertToSnapshot(
+  client: AnvilClient,
+  snapshots: AnvilSnapshot[],
+  snapshot: AnvilSnapshot,
+): Promise<AnvilSnapshot[]> {
+  // Anvil 返回是否恢复成功（viem 的 TestRpcSchema 声明为 void，这里按实际返回值指定类型）
+  const reverted = await client.request<{ Method: 'evm_revert'; Parameters: [Hex]; ReturnType: boolean }>({
+    method: 'evm_revert',
+    params: [snapshot.id],
+  });
+  if (!reverted) throw new Error(`Snapshot ${snapshot.id} is no longer available`);
+  return snapshots.filter((s) => s.takenAt < snapshot.takenAt);
+}
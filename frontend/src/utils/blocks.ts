@@ -0,0 +1,76 @@
+import type { Address, PublicClient } from 'viem';
+
+export interface BlockRef {
+  number: bigint;
+  timestamp: number;
+}
+
+/**
+ * 查找时间戳 <= target 的最后一个区块（插值 + 二分）
+ * @returns 目标时间早于创世区块时返回 undefined
+ */
+export async function findBlockAtTimestamp(
+  client: PublicClient,
+  target: number,
+  latest: BlockRef,
+): Promise<BlockRef | undefined> {
+  if (target >= latest.timestamp) return latest;
+
+  const getRef = async (number: bigint): Promise<BlockRef> => {
+    const block = await client.getBlock({ blockNumber: number });
+    return { number, timestamp: Number(block.timestamp) };
+  };
+
+  let low = await getRef(0n);
+  if (low.timestamp > target) return undefined;
+  let high = latest;
+
+  // 最多 32 轮，足够覆盖任意链高度
+  for (let i = 0; i < 32 && high.number - low.number > 1n; i++) {
+    const span = high.timestamp - low.timestamp;
+    // 按出块速度插值估算，限制在 (low, high) 区间内；时间相同时退化为二分
+    let guess = span > 0
+      ? low.number + BigInt(Math.floor(Number(high.number - low.number) * ((target - low.timestamp) / span)))
+      : (low.number + high.number) / 2n;
+    if (guess <= low.number) guess = low.number + 1n;
+    if (guess >= high.number) guess = high.number - 1n;
+
+    const mid = await getRef(guess);
+    if (mid.timestamp <= target) low = mid;
+    else high = mid;
+
+    // 插值偏向一侧时补一次二分，避免退化为线性扫描
+    if (high.number - low.number > 1n && i % 2 === 1) {
+      const half = await getRef((low.number + high.number) / 2n);
+      if (half.timestamp <= target) low = half;
+      else high = half;
+    }
+  }
+
+  return low;
+}
+
+/**
+ * 二分查找合约部署所在的区块（第一个存在代码的区块）
+ * @returns 当前区块也没有代码时返回 undefined
+ */
+export async function findDeployBlock(
+  client: PublicClient,
+  address: Address,
+  latest: bigint,
+): Promise<bigint | undefined> {
+  const hasCode = async (blockNumber: bigint) => {
+    const code = await client.getCode({ address, blockNumber });
+    return Boolean(code && code !== '0x');
+  };
+
+  if (!(await hasCode(latest))) return undefined;
+  let low = 0n;
+  let high = latest;
+  while (low < high) {
+    const mid = (low + high) / 2n;
+    if (await hasCode(mid)) high = mid;
+    else low = mid + 1n;
+  }
+  return low;
+}
@@ -0,0 +1,490 @@
+// 演示模式的内存链：在 ./demoContracts 的合约模拟之上提供区块、交易、事件日志与 EIP-1193 JSON-RPC 接口
+// 每个区块保存完整状态，历史区块的 eth_call / eth_getLogs 与归档节点一致；并支持 Anvil 的模拟账户、时间推进与快照，
+// 开发工具抽屉无需修改即可使用。纯函数模块，不依赖浏览器
+import {
+  RpcRequestError,
+  encodeFunctionData,
+  hexToBigInt,
+  keccak256,
+  numberToHex,
+  parseEther,
+  stringToHex,
+  zeroAddress,
+  zeroHash,
+  type Abi,
+  type Address,
+  type Hash,
+  type Hex,
+} from 'viem';
+import { ERC20_ABI, MOCK_STRATEGY_ABI, VAULT_ABI, VAULT_TOKEN_ABI } from '../config/abis';
+import { ANVIL_ACCOUNTS, MOCK_ASSET_ABI } from './anvil';
+import {
+  DEFAULT_ETH_BALANCE,
+  DemoRevert,
+  createDemoContracts,
+  createInitialState,
+  demoAddresses,
+  executeCall,
+  hasCode,
+  type DemoAddresses,
+  type DemoLog,
+  type DemoState,
+} from './demoContracts';
+
+// 出块间隔：没有交易时也按该间隔产生空区块，时间相关的收益随之增长
+export const DEMO_BLOCK_TIME = 12;
+
+const GAS_LIMIT = 30_000_000n;
+const GAS_PER_TX = 150_000n;
+const BASE_FEE = 1_000_000_000n;
+const PRIORITY_FEE = 100_000_000n;
+
+// 合约地址的 eth_getCode 返回值；模拟合约没有真实字节码，只需非空
+const PLACEHOLDER_CODE: Hex = '0x60806040';
+
+interface DemoTransaction {
+  hash: Hash;
+  from: Address;
+  to: Address;
+  input: Hex;
+  value: bigint;
+  nonce: number;
+  index: number;
+  logs: (DemoLog & { logIndex: number })[];
+}
+
+interface DemoBlock {
+  number: bigint;
+  hash: Hash;
+  parentHash: Hash;
+  timestamp: bigint;
+  /** 区块执行后的状态；空区块与上一个区块共用同一份（状态不可变，交易在副本上执行） */
+  state: DemoState;
+  transactions: DemoTransaction[];
+}
+
+export interface DemoChainOptions {
+  chainId: number;
+  /** 部署者，同时是 Vault / FeeManager / AccessControl 的 owner */
+  deployer?: Address;
+  /** 当前时间（毫秒），测试时可替换 */
+  now?: () => number;
+  /** 预置的历史天数：部署与 MockData.s.sol 的存款、收获等操作分布在这段时间内 */
+  historyDays?: number;
+}
+
+export interface DemoChain {
+  chainId: number;
+  deployer: Address;
+  addresses: DemoAddresses;
+  /** EIP-1193 request；错误以 viem 的 RpcRequestError 抛出 */
+  request: (args: { method: string; params?: unknown }) => Promise<unknown>;
+}
+
+type RpcCall = { from?: Address; to?: Address; data?: Hex; input?: Hex; value?: Hex };
+type BlockTag = Hex | 'latest' | 'earliest' | 'pending' | 'safe' | 'finalized';
+type LogFilter = {
+  fromBlock?: BlockTag;
+  toBlock?: BlockTag;
+  blockHash?: Hash;
+  address?: Address | Address[];
+  topics?: (Hex | Hex[] | null)[];
+};
+
+const lower = (value: string) => value.toLowerCase();
+
+/** JSON-RPC 错误（与节点返回的格式一致，viem 按 code 转换为对应的错误类型） */
+function rpcError(method: string, params: unknown, code: number, message: string, data?: Hex): RpcRequestError {
+  return new RpcRequestError({ body: { method, params }, error: { code, message, data }, url: 'demo://in-memory' });
+}
+
+/**
+ * 创建内存链并执行预置场景：Deploy.s.sol 的 setStrategy 与铸币、MockData.s.sol 的测试账户存款，
+ * 以及之后数周的收获、赎回、转账和一次亏损模拟，让图表与历史记录一开始就有数据
+ */
+export function createDemoChain({ chainId, deployer = ANVIL_ACCOUNTS[0], now = Date.now, historyDays = 30 }: DemoChainOptions): DemoChain {
+  const addresses = demoAddresses(deployer);
+  const contracts = createDemoContracts(addresses);
+  const clock = () => BigInt(Math.floor(now() / 1000)) + timeOffset;
+
+  let timeOffset = 0n;
+  let hashSerial = 0;
+  const impersonated = new Set<string>();
+  const snapshots = new Map<bigint, { height: number; timeOffset: bigint }>();
+  let nextSnapshotId = 1n;
+
+  const uniqueHash = (label: string) => keccak256(stringToHex(`${chainId}:${label}:${hashSerial++}`));
+
+  const genesisTime = clock() - BigInt(historyDays) * 86_400n;
+  const blocks: DemoBlock[] = [
+    {
+      number: 0n,
+      hash: uniqueHash('block:0'),
+      parentHash: zeroHash,
+      timestamp: genesisTime,
+      state: createInitialState(addresses, deployer, genesisTime),
+      transactions: [],
+    },
+  ];
+  const txIndex = new Map<string, { tx: DemoTransaction; block: DemoBlock }>();
+
+  const latest = () => blocks[blocks.length - 1];
+
+  function mineBlock(timestamp: bigint, state: DemoState, transactions: (Omit<DemoTransaction, 'index' | 'logs'> & { logs: DemoLog[] })[] = []): DemoBlock {
+    const parent = latest();
+    let logIndex = 0;
+    const block: DemoBlock = {
+      number: parent.number + 1n,
+      hash: uniqueHash(`block:${parent.number + 1n}`),
+      parentHash: parent.hash,
+      timestamp: timestamp > parent.timestamp ? timestamp : parent.timestamp + 1n,
+      state,
+      transactions: transactions.map((tx, index) => ({
+        ...tx,
+        index,
+        logs: tx.logs.map((log) => ({ ...log, logIndex: logIndex++ })),
+      })),
+    };
+    blocks.push(block);
+    for (const tx of block.transactions) txIndex.set(lower(tx.hash), { tx, block });
+    return block;
+  }
+
+  // 距上一个区块超过出块间隔时补一个空区块（只补一个，长时间闲置后不会一次生成大量区块）
+  function sync() {
+    const time = clock();
+    if (time - latest().timestamp >= BigInt(DEMO_BLOCK_TIME)) mineBlock(time, latest().state);
+  }
+
+  const unlocked = (account: Address) =>
+    impersonated.has(lower(account)) || ANVIL_ACCOUNTS.some((a) => lower(a) === lower(account));
+
+  /** 执行一笔交易并单独出块（与 Anvil 的 automine 一致）；revert 时不出块，直接抛出 */
+  function sendTransaction(call: { from: Address; to: Address; data: Hex; value?: bigint }, timestamp = clock()): Hash {
+    const parent = latest();
+    const blockTime = timestamp > parent.timestamp ? timestamp : parent.timestamp + 1n;
+    const state = structuredClone(parent.state);
+    const { logs } = executeCall(contracts, state, call, blockTime);
+
+    const nonce = state.nonces[lower(call.from)] ?? 0;
+    state.nonces[lower(call.from)] = nonce + 1;
+    const gasCost = GAS_PER_TX * BASE_FEE;
+    const balance = state.ethBalances[lower(call.from)] ?? DEFAULT_ETH_BALANCE;
+    state.ethBalances[lower(call.from)] = balance > gasCost ? balance - gasCost : 0n;
+
+    const hash = uniqueHash(`tx:${call.from}:${nonce}`);
+    mineBlock(blockTime, state, [{ hash, from: call.from, to: call.to, input: call.data, value: call.value ?? 0n, nonce, logs }]);
+    return hash;
+  }
+
+  function resolveBlock(tag: unknown): DemoBlock | undefined {
+    if (tag && typeof tag === 'object') {
+      const ref = tag as { blockNumber?: Hex; blockHash?: Hash };
+      if (ref.blockHash) return blocks.find((b) => lower(b.hash) === lower(ref.blockHash!));
+      tag = ref.blockNumber;
+    }
+    if (tag === undefined || tag === 'latest' || tag === 'pending' || tag === 'safe' || tag === 'finalized') return latest();
+    if (tag === 'earliest') return blocks[0];
+    const number = hexToBigInt(tag as Hex);
+    return blocks[Number(number)];
+  }
+
+  function blockNumberOf(tag: BlockTag | undefined, fallback: bigint): bigint {
+    if (tag === undefined) return fallback;
+    return resolveBlock(tag)?.number ?? hexToBigInt(tag as Hex);
+  }
+
+  // ============ RPC 格式 ============
+
+  const formatLog = (log: DemoTransaction['logs'][number], tx: DemoTransaction, block: DemoBlock) => ({
+    address: log.address,
+    topics: log.topics,
+    data: log.data,
+    blockNumber: numberToHex(block.number),
+    blockHash: block.hash,
+    transactionHash: tx.hash,
+    transactionIndex: numberToHex(tx.index),
+    logIndex: numberToHex(log.logIndex),
+    removed: false,
+  });
+
+  const formatTransaction = (tx: DemoTransaction, block: DemoBlock) => ({
+    hash: tx.hash,
+    from: tx.from,
+    to: tx.to,
+    input: tx.input,
+    value: numberToHex(tx.value),
+    nonce: numberToHex(tx.nonce),
+    gas: numberToHex(GAS_PER_TX * 2n),
+    gasPrice: numberToHex(BASE_FEE),
+    maxFeePerGas: numberToHex(BASE_FEE * 2n),
+    maxPriorityFeePerGas: numberToHex(PRIORITY_FEE),
+    type: '0x2',
+    chainId: numberToHex(chainId),
+    accessList: [],
+    blockHash: block.hash,
+    blockNumber: numberToHex(block.number),
+    transactionIndex: numberToHex(tx.index),
+    v: '0x0',
+    r: zeroHash,
+    s: zeroHash,
+    yParity: '0x0',
+  });
+
+  const formatReceipt = (tx: DemoTransaction, block: DemoBlock) => ({
+    transactionHash: tx.hash,
+    transactionIndex: numberToHex(tx.index),
+    blockHash: block.hash,
+    blockNumber: numberToHex(block.number),
+    from: tx.from,
+    to: tx.to,
+    cumulativeGasUsed: numberToHex(GAS_PER_TX * BigInt(tx.index + 1)),
+    gasUsed: numberToHex(GAS_PER_TX),
+    effectiveGasPrice: numberToHex(BASE_FEE),
+    contractAddress: null,
+    logs: tx.logs.map((log) => formatLog(log, tx, block)),
+    logsBloom: `0x${'0'.repeat(512)}`,
+    status: '0x1',
+    type: '0x2',
+  });
+
+  const formatBlock = (block: DemoBlock, full: boolean) => ({
+    number: numberToHex(block.number),
+    hash: block.hash,
+    parentHash: block.parentHash,
+    timestamp: numberToHex(block.timestamp),
+    nonce: '0x0000000000000000',
+    difficulty: '0x0',
+    totalDifficulty: '0x0',
+    gasLimit: numberToHex(GAS_LIMIT),
+    gasUsed: numberToHex(GAS_PER_TX * BigInt(block.transactions.length)),
+    baseFeePerGas: numberToHex(BASE_FEE),
+    miner: zeroAddress,
+    extraData: '0x',
+    logsBloom: `0x${'0'.repeat(512)}`,
+    mixHash: zeroHash,
+    sha3Uncles: zeroHash,
+    stateRoot: zeroHash,
+    receiptsRoot: zeroHash,
+    transactionsRoot: zeroHash,
+    size: '0x0',
+    uncles: [],
+    transactions: block.transactions.map((tx) => (full ? formatTransaction(tx, block) : tx.hash)),
+  });
+
+  function getLogs(filter: LogFilter) {
+    const head = latest().number;
+    const range = filter.blockHash
+      ? blocks.filter((b) => lower(b.hash) === lower(filter.blockHash!))
+      : blocks.slice(Number(blockNumberOf(filter.fromBlock, head)), Number(blockNumberOf(filter.toBlock, head)) + 1);
+    const addresses = filter.address ? [filter.address].flat().map(lower) : undefined;
+    const topics = filter.topics ?? [];
+
+    return range.flatMap((block) =>
+      block.transactions.flatMap((tx) =>
+        tx.logs
+          .filter(
+            (log) =>
+              (!addresses || addresses.includes(lower(log.address))) &&
+              topics.every((expected, i) => {
+                if (expected === null || expected === undefined) return true;
+                const actual = log.topics[i];
+                return actual !== undefined && [expected].flat().some((t) => lower(t) === lower(actual));
+              }),
+          )
+          .map((log) => formatLog(log, tx, block)),
+      ),
+    );
+  }
+
+  // ============ 预置场景 ============
+
+  const DAY = 86_400n;
+  const units = (amount: number) => parseEther(amount.toString());
+  const [, user1, user2, user3] = ANVIL_ACCOUNTS;
+  const transact = (from: Address, to: Address, abi: Abi, functionName: string, args: readonly unknown[], timestamp: bigint) =>
+    sendTransaction({ from, to, data: encodeFunctionData({ abi, functionName, args } as Parameters<typeof encodeFunctionData>[0]) }, timestamp);
+  const at = (days: number, hours = 0) => genesisTime + BigInt(Math.round(days * 24 + hours)) * (DAY / 24n);
+  const deposit = (user: Address, amount: number, time: bigint) => {
+    transact(user, addresses.asset, ERC20_ABI, 'approve', [addresses.vault, units(amount)], time);
+    transact(user, addresses.vault, VAULT_ABI, 'deposit', [units(amount)], time + 12n);
+  };
+
+  // Deploy.s.sol：接入 Strategy，给部署者铸造 100 万测试资产
+  transact(deployer, addresses.vault, VAULT_ABI, 'setStrategy', [addresses.strategy], at(0));
+  transact(deployer, addresses.asset, MOCK_ASSET_ABI, 'mint', [deployer, units(1_000_000)], at(0) + 12n);
+  // MockData.s.sol：测试账户各 1 万，三个用户存款，并向 Vault 直接转入 200 作为收益
+  for (const account of [deployer, user1, user2, user3]) {
+    transact(deployer, addresses.asset, MOCK_ASSET_ABI, 'mint', [account, units(10_000)], at(0, 1));
+  }
+  deposit(user1, 1_000, at(1));
+  deposit(user2, 2_500, at(2));
+  deposit(user3, 500, at(3));
+  transact(deployer, addresses.asset, MOCK_ASSET_ABI, 'mint', [addresses.vault, units(200)], at(3, 2));
+  // 之后的日常操作：部署者存款、定期收获、赎回与转账
+  const harvest = (days: number) => transact(deployer, addresses.vault, VAULT_ABI, 'harvest', [], at(days));
+  deposit(deployer, 5_000, at(6));
+  harvest(7);
+  deposit(user1, 500, at(10));
+  harvest(12);
+  transact(user2, addresses.vault, VAULT_ABI, 'redeem', [units(1_000)], at(14));
+  harvest(17);
+  // 一次亏损模拟（MockStrategy 的 onlyVault 函数，与开发工具一样以 Vault 身份调用）
+  transact(addresses.vault, addresses.strategy, MOCK_STRATEGY_ABI, 'toggleLossSimulation', [true, 50n], at(20));
+  harvest(20.5);
+  transact(addresses.vault, addresses.strategy, MOCK_STRATEGY_ABI, 'toggleLossSimulation', [false, 0n], at(21));
+  transact(user3, addresses.vaultToken, VAULT_TOKEN_ABI, 'transfer', [user1, units(100)], at(23));
+  harvest(25);
+  deposit(user2, 1_500, at(27));
+  sync();
+
+  // ============ JSON-RPC ============
+
+  async function request({ method, params }: { method: string; params?: unknown }): Promise<unknown> {
+    const args = (params ?? []) as unknown[];
+    const revert = (err: unknown) => {
+      if (err instanceof DemoRevert) return rpcError(method, params, 3, err.message, err.data);
+      return err;
+    };
+    sync();
+
+    switch (method) {
+      case 'eth_chainId':
+        return numberToHex(chainId);
+      case 'net_version':
+        return String(chainId);
+      case 'web3_clientVersion':
+        return 'yield-vault-demo/1.0';
+      case 'eth_accounts':
+        return [...ANVIL_ACCOUNTS];
+      case 'eth_blockNumber':
+        return numberToHex(latest().number);
+      case 'eth_gasPrice':
+        return numberToHex(BASE_FEE + PRIORITY_FEE);
+      case 'eth_maxPriorityFeePerGas':
+        return numberToHex(PRIORITY_FEE);
+
+      case 'eth_getBlockByNumber':
+      case 'eth_getBlockByHash': {
+        const block =
+          method === 'eth_getBlockByHash' ? blocks.find((b) => lower(b.hash) === lower(args[0] as string)) : resolveBlock(args[0]);
+        return block ? formatBlock(block, Boolean(args[1])) : null;
+      }
+      case 'eth_getTransactionByHash': {
+        const found = txIndex.get(lower(args[0] as string));
+        return found ? formatTransaction(found.tx, found.block) : null;
+      }
+      case 'eth_getTransactionReceipt': {
+        const found = txIndex.get(lower(args[0] as string));
+        return found ? formatReceipt(found.tx, found.block) : null;
+      }
+      case 'eth_getLogs':
+        return getLogs(args[0] as LogFilter);
+
+      case 'eth_getBalance': {
+        const block = resolveBlock(args[1]);
+        return numberToHex(block?.state.ethBalances[lower(args[0] as string)] ?? DEFAULT_ETH_BALANCE);
+      }
+      case 'eth_getTransactionCount': {
+        const block = resolveBlock(args[1]);
+        return numberToHex(block?.state.nonces[lower(args[0] as string)] ?? 0);
+      }
+      case 'eth_getCode':
+        return hasCode(contracts, args[0] as Address) ? PLACEHOLDER_CODE : '0x';
+
+      case 'eth_call': {
+        const call = args[0] as RpcCall;
+        const block = resolveBlock(args[1]);
+        if (!block) throw rpcError(method, params, -32000, 'header not found');
+        try {
+          const { returnData } = executeCall(
+            contracts,
+            structuredClone(block.state),
+            { from: call.from ?? zeroAddress, to: call.to ?? zeroAddress, data: call.data ?? call.input ?? '0x' },
+            block.timestamp,
+          );
+          return returnData;
+        } catch (err) {
+          throw revert(err);
+        }
+      }
+      case 'eth_estimateGas': {
+        const call = args[0] as RpcCall;
+        try {
+          executeCall(
+            contracts,
+            structuredClone(latest().state),
+            { from: call.from ?? zeroAddress, to: call.to ?? zeroAddress, data: call.data ?? call.input ?? '0x' },
+            clock(),
+          );
+          return numberToHex(GAS_PER_TX);
+        } catch (err) {
+          throw revert(err);
+        }
+      }
+      case 'eth_sendTransaction': {
+        const call = args[0] as RpcCall;
+        if (!call.from || !unlocked(call.from)) throw rpcError(method, params, -32000, 'No Signer available');
+        if (!call.to) throw rpcError(method, params, -32000, 'Contract deployment is not supported in demo mode');
+        try {
+          return sendTransaction({
+            from: call.from,
+            to: call.to,
+            data: call.data ?? call.input ?? '0x',
+            value: call.value ? hexToBigInt(call.value) : 0n,
+          });
+        } catch (err) {
+          throw revert(err);
+        }
+      }
+
+      // Anvil 扩展：开发工具使用
+      case 'anvil_impersonateAccount':
+        impersonated.add(lower(args[0] as string));
+        return null;
+      case 'anvil_stopImpersonatingAccount':
+        impersonated.delete(lower(args[0] as string));
+        return null;
+      case 'anvil_setBalance': {
+        // 直接修改最新状态（与 Anvil 一样不出块）
+        const head = latest();
+        head.state = structuredClone(head.state);
+        head.state.ethBalances[lower(args[0] as string)] = hexToBigInt(args[1] as Hex);
+        return null;
+      }
+      case 'evm_increaseTime':
+        timeOffset += BigInt(args[0] as number | string);
+        return numberToHex(timeOffset);
+      case 'evm_mine':
+      case 'anvil_mine': {
+        const count = method === 'anvil_mine' && args[0] !== undefined ? Number(hexToBigInt(args[0] as Hex)) : 1;
+        const interval = method === 'anvil_mine' && args[1] !== undefined ? hexToBigInt(args[1] as Hex) : 1n;
+        for (let i = 0; i < count; i++) mineBlock(clock() + BigInt(i) * interval, latest().state);
+        return method === 'evm_mine' ? '0x0' : null;
+      }
+      case 'evm_snapshot': {
+        const id = nextSnapshotId++;
+        snapshots.set(id, { height: blocks.length, timeOffset });
+        return numberToHex(id);
+      }
+      case 'evm_revert': {
+        const id = hexToBigInt(args[0] as Hex);
+        const snapshot = snapshots.get(id);
+        if (!snapshot) return false;
+        for (const block of blocks.splice(snapshot.height)) {
+          for (const tx of block.transactions) txIndex.delete(lower(tx.hash));
+        }
+        timeOffset = snapshot.timeOffset;
+        // 与 Anvil 一致：恢复后该快照及之后的快照失效
+        for (const existing of [...snapshots.keys()]) if (existing >= id) snapshots.delete(existing);
+        return true;
+      }
+
+      default:
+        // 不支持过滤器：viem 的事件监听会自动改用 eth_getLogs 轮询
+        throw rpcError(method, params, -32601, `Method ${method} is not supported in demo mode`);
+    }
+  }
+
+  return { chainId, deployer, addresses, request };
+}
@@ -0,0 +1,992 @@
+// 演示模式的合约模拟：在内存中重现 Deploy.s.sol 部署的 MockERC20 资产、VaultAccessControl、FeeManager、VaultToken、
+// MinimalVault 与 MockStrategy。逐个函数对照 Solidity 实现：整数舍入、revert 条件（含 checked arithmetic 的 Panic）、
+// 跨合约调用的 msg.sender 与事件顺序都与链上一致，前端无需区分演示链与真实链
+// 纯函数模块，不依赖浏览器；区块、交易与 JSON-RPC 见 ./demoChain
+import {
+  concat,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  encodeFunctionResult,
+  getContractAddress,
+  maxUint256,
+  parseAbi,
+  zeroAddress,
+  type Abi,
+  type AbiEvent,
+  type Address,
+  type Hex,
+} from 'viem';
+import { ACCESS_CONTROL_ABI, ERC20_ABI, FEE_MANAGER_ABI, MOCK_STRATEGY_ABI, VAULT_ABI, VAULT_TOKEN_ABI } from '../config/abis';
+
+// ============ 状态 ============
+
+/** 以小写地址为 key，便于直接比较 */
+type AddressMap<T> = Record<string, T>;
+
+export interface DemoToken {
+  name: string;
+  symbol: string;
+  decimals: number;
+  totalSupply: bigint;
+  balances: AddressMap<bigint>;
+  /** key 为 `${owner}:${spender}` */
+  allowances: AddressMap<bigint>;
+}
+
+export interface DemoVaultToken extends DemoToken {
+  owner: Address;
+  vault: Address;
+}
+
+export interface DemoVault {
+  owner: Address;
+  strategy: Address;
+  totalIdleAssets: bigint;
+  totalInvestedAssets: bigint;
+  initialized: boolean;
+  investRatioBps: bigint;
+}
+
+export interface DemoStrategy {
+  investedAssets: bigint;
+  isActive: boolean;
+  apyBps: bigint;
+  lastHarvestTime: bigint;
+  totalYieldGenerated: bigint;
+  totalYieldHarvested: bigint;
+  shouldSimulateLoss: boolean;
+  lossBps: bigint;
+}
+
+export interface DemoFeeManager {
+  owner: Address;
+  performanceFeeBps: bigint;
+  withdrawalFeeBps: bigint;
+  feeRecipient: Address;
+  totalPerformanceFeesCollected: bigint;
+  totalWithdrawalFeesCollected: bigint;
+  performanceFeeEnabled: boolean;
+  withdrawalFeeEnabled: boolean;
+}
+
+export interface DemoAccessControl {
+  owner: Address;
+  paused: boolean;
+  strategist: Address;
+  guardian: Address;
+  keeper: Address;
+  publicDepositsEnabled: boolean;
+  whitelisted: AddressMap<boolean>;
+}
+
+/** 某个区块之后的完整链上状态；交易在副本上执行，成功后才成为新区块的状态 */
+export interface DemoState {
+  asset: DemoToken;
+  shares: DemoVaultToken;
+  vault: DemoVault;
+  strategies: AddressMap<DemoStrategy>;
+  fees: DemoFeeManager;
+  access: DemoAccessControl;
+  /** 账户的 ETH 余额（仅用于 gas 显示与 anvil_setBalance） */
+  ethBalances: AddressMap<bigint>;
+  nonces: AddressMap<number>;
+}
+
+export interface DemoAddresses {
+  asset: Address;
+  accessControl: Address;
+  feeManager: Address;
+  vaultToken: Address;
+  vault: Address;
+  strategy: Address;
+  /** 第二个 MockStrategy，部署后未接入 Vault，用于演示 setStrategy */
+  alternateStrategy: Address;
+}
+
+// 与 Deploy.s.sol 一致
+export const MINIMUM_SHARES = 1_000n;
+export const MAX_INVEST_RATIO = 9_500n;
+export const MAX_PERFORMANCE_FEE = 5_000n;
+export const MAX_WITHDRAWAL_FEE = 500n;
+const MAX_BPS = 10_000n;
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+const PRICE_PRECISION = 10n ** 18n;
+
+export const DEFAULT_ETH_BALANCE = 10_000n * 10n ** 18n;
+
+/**
+ * 与 Deploy.s.sol 在全新 Anvil 上的部署地址一致（按部署者 nonce 推导）：
+ * 资产、AccessControl、FeeManager、VaultToken、Vault，setVault 之后部署 Strategy
+ */
+export function demoAddresses(deployer: Address): DemoAddresses {
+  const at = (nonce: number) => getContractAddress({ from: deployer, nonce: BigInt(nonce) });
+  return {
+    asset: at(0),
+    accessControl: at(1),
+    feeManager: at(2),
+    vaultToken: at(3),
+    vault: at(4),
+    strategy: at(6),
+    alternateStrategy: at(7),
+  };
+}
+
+// Deploy.s.sol 部署的 MockStrategy 为 10% APY；备用 Strategy 为 15%
+const STRATEGY_APY_BPS = 1_000n;
+const ALTERNATE_STRATEGY_APY_BPS = 1_500n;
+
+/** 部署脚本执行完构造函数后的状态（setStrategy 与铸币作为交易另行执行，以便产生事件） */
+export function createInitialState(addresses: DemoAddresses, deployer: Address, timestamp: bigint): DemoState {
+  const strategy = (apyBps: bigint): DemoStrategy => ({
+    investedAssets: 0n,
+    isActive: true,
+    apyBps,
+    lastHarvestTime: timestamp,
+    totalYieldGenerated: 0n,
+    totalYieldHarvested: 0n,
+    shouldSimulateLoss: false,
+    lossBps: 0n,
+  });
+  return {
+    asset: { name: 'Mock USDC', symbol: 'USDC', decimals: 18, totalSupply: 0n, balances: {}, allowances: {} },
+    shares: {
+      name: 'Vault Token',
+      symbol: 'VLT',
+      decimals: 18,
+      totalSupply: 0n,
+      balances: {},
+      allowances: {},
+      owner: deployer,
+      vault: addresses.vault,
+    },
+    vault: {
+      owner: deployer,
+      strategy: zeroAddress,
+      totalIdleAssets: 0n,
+      totalInvestedAssets: 0n,
+      initialized: false,
+      investRatioBps: 9_500n,
+    },
+    strategies: {
+      [key(addresses.strategy)]: strategy(STRATEGY_APY_BPS),
+      [key(addresses.alternateStrategy)]: strategy(ALTERNATE_STRATEGY_APY_BPS),
+    },
+    fees: {
+      owner: deployer,
+      performanceFeeBps: 1_000n,
+      withdrawalFeeBps: 100n,
+      feeRecipient: deployer,
+      totalPerformanceFeesCollected: 0n,
+      totalWithdrawalFeesCollected: 0n,
+      performanceFeeEnabled: true,
+      withdrawalFeeEnabled: true,
+    },
+    access: {
+      owner: deployer,
+      paused: false,
+      strategist: deployer,
+      guardian: deployer,
+      keeper: deployer,
+      publicDepositsEnabled: true,
+      whitelisted: {},
+    },
+    ethBalances: {},
+    // 部署已经用掉了 8 个 nonce（7 个合约 + setVault）
+    nonces: { [key(deployer)]: 8 },
+  };
+}
+
+// ============ 执行环境 ============
+
+export interface DemoLog {
+  address: Address;
+  topics: Hex[];
+  data: Hex;
+}
+
+/** 合约调用 revert；data 为 ABI 编码的错误，与节点返回的 revert data 相同 */
+export class DemoRevert extends Error {
+  readonly data: Hex;
+
+  constructor(data: Hex, message = 'execution reverted') {
+    super(message);
+    this.name = 'DemoRevert';
+    this.data = data;
+  }
+}
+
+interface Context {
+  state: DemoState;
+  sender: Address;
+  timestamp: bigint;
+  logs: DemoLog[];
+}
+
+type Handler = (ctx: Context, args: readonly unknown[]) => unknown;
+
+interface DemoContract {
+  abi: Abi;
+  functions: Record<string, Handler>;
+}
+
+function key(address: Address | string): string {
+  return address.toLowerCase();
+}
+
+const same = (a: Address, b: Address) => key(a) === key(b);
+
+// Solidity 的 require(string) 与 checked arithmetic 的 Panic
+function revertString(message: string): never {
+  throw new DemoRevert(concat(['0x08c379a0', encodeAbiParameters([{ type: 'string' }], [message])]), `execution reverted: ${message}`);
+}
+
+function panic(code: bigint): never {
+  throw new DemoRevert(concat(['0x4e487b71', encodeAbiParameters([{ type: 'uint256' }], [code])]), 'execution reverted: panic');
+}
+
+function fail(abi: Abi, errorName: string, args?: readonly unknown[]): never {
+  throw new DemoRevert(encodeErrorResult({ abi, errorName, args } as Parameters<typeof encodeErrorResult>[0]), `execution reverted: ${errorName}`);
+}
+
+const sub = (a: bigint, b: bigint) => (b > a ? panic(0x11n) : a - b);
+const div = (a: bigint, b: bigint) => (b === 0n ? panic(0x12n) : a / b);
+const min = (a: bigint, b: bigint) => (a < b ? a : b);
+
+function emit(ctx: Context, address: Address, abi: Abi, eventName: string, args: Record<string, unknown>) {
+  const event = abi.find((item): item is AbiEvent => item.type === 'event' && item.name === eventName);
+  if (!event) throw new Error(`Unknown event ${eventName}`);
+  const topics = encodeEventTopics({ abi: [event], eventName, args } as Parameters<typeof encodeEventTopics>[0]) as Hex[];
+  const inputs = event.inputs.filter((input) => !input.indexed);
+  const data = encodeAbiParameters(inputs, inputs.map((input) => args[input.name!]));
+  ctx.logs.push({ address, topics, data });
+}
+
+/** 以另一个地址（通常是调用方合约）的身份执行，对应 Solidity 中的外部调用 */
+function as<T>(ctx: Context, sender: Address, fn: () => T): T {
+  const previous = ctx.sender;
+  ctx.sender = sender;
+  try {
+    return fn();
+  } finally {
+    ctx.sender = previous;
+  }
+}
+
+const balanceOf = (token: DemoToken, account: Address) => token.balances[key(account)] ?? 0n;
+const allowanceOf = (token: DemoToken, owner: Address, spender: Address) => token.allowances[`${key(owner)}:${key(spender)}`] ?? 0n;
+const setAllowance = (token: DemoToken, owner: Address, spender: Address, amount: bigint) => {
+  token.allowances[`${key(owner)}:${key(spender)}`] = amount;
+};
+const addBalance = (token: DemoToken, account: Address, amount: bigint) => {
+  token.balances[key(account)] = balanceOf(token, account) + amount;
+};
+
+// ============ 合约 ============
+
+/** Deploy.s.sol 中的 MockERC20：任何人可以 mint，错误为 require 字符串，无限授权也会递减 */
+const ASSET_ABI = [...ERC20_ABI, ...parseAbi(['function mint(address to, uint256 amount)'])] as Abi;
+
+function createAsset(address: Address): DemoContract & {
+  address: Address;
+  transfer: (ctx: Context, to: Address, amount: bigint) => void;
+  transferFrom: (ctx: Context, from: Address, to: Address, amount: bigint) => void;
+  approve: (ctx: Context, spender: Address, amount: bigint) => void;
+} {
+  const move = (ctx: Context, from: Address, to: Address, amount: bigint) => {
+    const token = ctx.state.asset;
+    if (balanceOf(token, from) < amount) revertString('Insufficient balance');
+    token.balances[key(from)] = balanceOf(token, from) - amount;
+    addBalance(token, to, amount);
+    emit(ctx, address, ASSET_ABI, 'Transfer', { from, to, value: amount });
+  };
+  const transfer = (ctx: Context, to: Address, amount: bigint) => move(ctx, ctx.sender, to, amount);
+  const transferFrom = (ctx: Context, from: Address, to: Address, amount: bigint) => {
+    const token = ctx.state.asset;
+    if (balanceOf(token, from) < amount) revertString('Insufficient balance');
+    const allowance = allowanceOf(token, from, ctx.sender);
+    if (allowance < amount) revertString('Insufficient allowance');
+    move(ctx, from, to, amount);
+    setAllowance(token, from, ctx.sender, allowance - amount);
+  };
+  const approve = (ctx: Context, spender: Address, amount: bigint) => {
+    setAllowance(ctx.state.asset, ctx.sender, spender, amount);
+    emit(ctx, address, ASSET_ABI, 'Approval', { owner: ctx.sender, spender, value: amount });
+  };
+
+  return {
+    abi: ASSET_ABI,
+    address,
+    transfer,
+    transferFrom,
+    approve,
+    functions: {
+      name: ({ state }) => state.asset.name,
+      symbol: ({ state }) => state.asset.symbol,
+      decimals: ({ state }) => state.asset.decimals,
+      totalSupply: ({ state }) => state.asset.totalSupply,
+      balanceOf: ({ state }, [account]) => balanceOf(state.asset, account as Address),
+      allowance: ({ state }, [owner, spender]) => allowanceOf(state.asset, owner as Address, spender as Address),
+      mint: (ctx, [to, amount]) => {
+        addBalance(ctx.state.asset, to as Address, amount as bigint);
+        ctx.state.asset.totalSupply += amount as bigint;
+        emit(ctx, address, ASSET_ABI, 'Transfer', { from: zeroAddress, to, value: amount });
+      },
+      approve: (ctx, [spender, amount]) => {
+        approve(ctx, spender as Address, amount as bigint);
+        return true;
+      },
+      transfer: (ctx, [to, amount]) => {
+        transfer(ctx, to as Address, amount as bigint);
+        return true;
+      },
+      transferFrom: (ctx, [from, to, amount]) => {
+        transferFrom(ctx, from as Address, to as Address, amount as bigint);
+        return true;
+      },
+    },
+  };
+}
+
+function requireOwner(ctx: Context, owner: Address, abi: Abi) {
+  if (!same(ctx.sender, owner)) fail(abi, 'OwnableUnauthorizedAccount', [ctx.sender]);
+}
+
+// OpenZeppelin Ownable 的 owner / transferOwnership / renounceOwnership
+function ownable(abi: Abi, address: Address, owned: (state: DemoState) => { owner: Address }): Record<string, Handler> {
+  const transfer = (ctx: Context, next: Address) => {
+    const target = owned(ctx.state);
+    const previous = target.owner;
+    target.owner = next;
+    emit(ctx, address, abi, 'OwnershipTransferred', { previousOwner: previous, newOwner: next });
+  };
+  return {
+    owner: ({ state }) => owned(state).owner,
+    transferOwnership: (ctx, [next]) => {
+      requireOwner(ctx, owned(ctx.state).owner, abi);
+      if (same(next as Address, zeroAddress)) fail(abi, 'OwnableInvalidOwner', [zeroAddress]);
+      transfer(ctx, next as Address);
+    },
+    renounceOwnership: (ctx) => {
+      requireOwner(ctx, owned(ctx.state).owner, abi);
+      transfer(ctx, zeroAddress);
+    },
+  };
+}
+
+/** VaultToken：OpenZeppelin ERC20，只有 Vault 能 mint / burn */
+function createVaultToken(address: Address) {
+  const abi = VAULT_TOKEN_ABI as Abi;
+  const update = (ctx: Context, from: Address, to: Address, amount: bigint) => {
+    const token = ctx.state.shares;
+    if (same(from, zeroAddress)) {
+      token.totalSupply += amount;
+    } else {
+      const balance = balanceOf(token, from);
+      if (balance < amount) fail(abi, 'ERC20InsufficientBalance', [from, balance, amount]);
+      token.balances[key(from)] = balance - amount;
+    }
+    if (same(to, zeroAddress)) token.totalSupply -= amount;
+    else addBalance(token, to, amount);
+    emit(ctx, address, abi, 'Transfer', { from, to, value: amount });
+  };
+  const transfer = (ctx: Context, from: Address, to: Address, amount: bigint) => {
+    if (same(from, zeroAddress)) fail(abi, 'ERC20InvalidSender', [zeroAddress]);
+    if (same(to, zeroAddress)) fail(abi, 'ERC20InvalidReceiver', [zeroAddress]);
+    update(ctx, from, to, amount);
+  };
+  const onlyVault = (ctx: Context) => {
+    if (!same(ctx.sender, ctx.state.shares.vault)) fail(abi, 'OnlyVault');
+  };
+
+  const mint = (ctx: Context, to: Address, amount: bigint) => {
+    onlyVault(ctx);
+    if (same(to, zeroAddress)) fail(abi, 'ERC20InvalidReceiver', [zeroAddress]);
+    update(ctx, zeroAddress, to, amount);
+  };
+  const burn = (ctx: Context, from: Address, amount: bigint) => {
+    onlyVault(ctx);
+    if (same(from, zeroAddress)) fail(abi, 'ERC20InvalidSender', [zeroAddress]);
+    update(ctx, from, zeroAddress, amount);
+  };
+
+  const contract: DemoContract = {
+    abi,
+    functions: {
+      ...ownable(abi, address, (state) => state.shares),
+      name: ({ state }) => state.shares.name,
+      symbol: ({ state }) => state.shares.symbol,
+      decimals: ({ state }) => state.shares.decimals,
+      totalSupply: ({ state }) => state.shares.totalSupply,
+      balanceOf: ({ state }, [account]) => balanceOf(state.shares, account as Address),
+      allowance: ({ state }, [owner, spender]) => allowanceOf(state.shares, owner as Address, spender as Address),
+      vault: ({ state }) => state.shares.vault,
+      vaultInitialized: () => true,
+      approve: (ctx, [spender, amount]) => {
+        if (same(spender as Address, zeroAddress)) fail(abi, 'ERC20InvalidSpender', [zeroAddress]);
+        setAllowance(ctx.state.shares, ctx.sender, spender as Address, amount as bigint);
+        emit(ctx, address, abi, 'Approval', { owner: ctx.sender, spender, value: amount });
+        return true;
+      },
+      transfer: (ctx, [to, amount]) => {
+        transfer(ctx, ctx.sender, to as Address, amount as bigint);
+        return true;
+      },
+      transferFrom: (ctx, [from, to, amount]) => {
+        // _spendAllowance：无限授权不递减，也不发出 Approval
+        const allowance = allowanceOf(ctx.state.shares, from as Address, ctx.sender);
+        if (allowance !== maxUint256) {
+          if (allowance < (amount as bigint)) fail(abi, 'ERC20InsufficientAllowance', [ctx.sender, allowance, amount]);
+          setAllowance(ctx.state.shares, from as Address, ctx.sender, allowance - (amount as bigint));
+        }
+        transfer(ctx, from as Address, to as Address, amount as bigint);
+        return true;
+      },
+      mint: (ctx, [to, amount]) => mint(ctx, to as Address, amount as bigint),
+      burn: (ctx, [from, amount]) => burn(ctx, from as Address, amount as bigint),
+      setVault: (ctx) => {
+        requireOwner(ctx, ctx.state.shares.owner, abi);
+        fail(abi, 'VaultAlreadySet');
+      },
+    },
+  };
+  return { ...contract, mint, burn };
+}
+
+/** MockStrategy（继承 BaseStrategy）：收益按时间线性累积，亏损模拟在 harvest 时按比例扣除 */
+function createStrategy(address: Address, vault: Address, asset: ReturnType<typeof createAsset>) {
+  const abi = MOCK_STRATEGY_ABI as Abi;
+  const read = (state: DemoState) => state.strategies[key(address)];
+  const onlyVault = (ctx: Context) => {
+    if (!same(ctx.sender, vault)) fail(abi, 'OnlyVault');
+  };
+  const whenActive = (ctx: Context) => {
+    if (!read(ctx.state).isActive) fail(abi, 'StrategyNotActive');
+  };
+  const pending = (s: DemoStrategy, timestamp: bigint) =>
+    (s.investedAssets * s.apyBps * sub(timestamp, s.lastHarvestTime)) / (MAX_BPS * SECONDS_PER_YEAR);
+
+  const totalAssets = (ctx: Context) => {
+    const s = read(ctx.state);
+    if (s.investedAssets === 0n) return 0n;
+    if (s.shouldSimulateLoss) return s.investedAssets;
+    return s.investedAssets + pending(s, ctx.timestamp);
+  };
+
+  const estimatedProfit = (ctx: Context): [bigint, bigint] => {
+    const s = read(ctx.state);
+    if (s.investedAssets === 0n) return [0n, 0n];
+    if (s.shouldSimulateLoss) return [0n, (s.investedAssets * s.lossBps) / MAX_BPS];
+    return [pending(s, ctx.timestamp), 0n];
+  };
+
+  const invest = (ctx: Context, amount: bigint) => {
+    onlyVault(ctx);
+    whenActive(ctx);
+    if (amount === 0n) return;
+    as(ctx, address, () => asset.transferFrom(ctx, vault, address, amount));
+    const s = read(ctx.state);
+    s.investedAssets += amount;
+    s.lastHarvestTime = ctx.timestamp;
+    emit(ctx, address, abi, 'Invested', { amount });
+  };
+
+  const harvest = (ctx: Context): [bigint, bigint] => {
+    onlyVault(ctx);
+    whenActive(ctx);
+    const s = read(ctx.state);
+    let profit = 0n;
+    let loss = 0n;
+    if (s.investedAssets !== 0n) {
+      if (s.shouldSimulateLoss) {
+        loss = (s.investedAssets * s.lossBps) / MAX_BPS;
+      } else {
+        profit = pending(s, ctx.timestamp);
+        s.totalYieldGenerated += profit;
+      }
+      s.totalYieldHarvested += profit;
+      s.lastHarvestTime = ctx.timestamp;
+    }
+    s.investedAssets = profit > loss ? s.investedAssets + (profit - loss) : sub(s.investedAssets, loss - profit);
+    emit(ctx, address, abi, 'Harvested', { profit, loss });
+    return [profit, loss];
+  };
+
+  const withdraw = (ctx: Context, amount: bigint) => {
+    onlyVault(ctx);
+    if (amount === 0n) return 0n;
+    const s = read(ctx.state);
+    if (amount > s.investedAssets) fail(abi, 'InsufficientAssets');
+    s.investedAssets -= amount;
+    as(ctx, address, () => asset.transfer(ctx, vault, amount));
+    emit(ctx, address, abi, 'Withdrawn', { amount });
+    return amount;
+  };
+
+  const emergencyWithdraw = (ctx: Context) => {
+    onlyVault(ctx);
+    const amount = balanceOf(ctx.state.asset, address);
+    const s = read(ctx.state);
+    s.investedAssets = 0n;
+    s.isActive = false;
+    if (amount > 0n) as(ctx, address, () => asset.transfer(ctx, vault, amount));
+    emit(ctx, address, abi, 'EmergencyWithdrawn', { amount });
+    return amount;
+  };
+
+  const contract: DemoContract = {
+    abi,
+    functions: {
+      vault: () => vault,
+      asset: () => asset.address,
+      investedAssets: ({ state }) => read(state).investedAssets,
+      isActive: ({ state }) => read(state).isActive,
+      apyBps: ({ state }) => read(state).apyBps,
+      lastHarvestTime: ({ state }) => read(state).lastHarvestTime,
+      totalYieldGenerated: ({ state }) => read(state).totalYieldGenerated,
+      totalYieldHarvested: ({ state }) => read(state).totalYieldHarvested,
+      shouldSimulateLoss: ({ state }) => read(state).shouldSimulateLoss,
+      lossBps: ({ state }) => read(state).lossBps,
+      currentAPY: ({ state }) => read(state).apyBps,
+      totalAssets: (ctx) => totalAssets(ctx),
+      estimatedProfit: (ctx) => estimatedProfit(ctx),
+      pendingYield: (ctx) => {
+        const s = read(ctx.state);
+        return s.investedAssets === 0n || s.shouldSimulateLoss ? 0n : pending(s, ctx.timestamp);
+      },
+      expectedYearlyYield: ({ state }) => (read(state).investedAssets * read(state).apyBps) / MAX_BPS,
+      invest: (ctx, [amount]) => invest(ctx, amount as bigint),
+      harvest: (ctx) => harvest(ctx),
+      withdraw: (ctx, [amount]) => withdraw(ctx, amount as bigint),
+      emergencyWithdraw: (ctx) => emergencyWithdraw(ctx),
+      activate: (ctx) => {
+        onlyVault(ctx);
+        if (read(ctx.state).isActive) fail(abi, 'StrategyAlreadyActive');
+        read(ctx.state).isActive = true;
+        emit(ctx, address, abi, 'StrategyActivated', {});
+      },
+      deactivate: (ctx) => {
+        onlyVault(ctx);
+        whenActive(ctx);
+        read(ctx.state).isActive = false;
+        emit(ctx, address, abi, 'StrategyDeactivated', {});
+      },
+      setAPY: (ctx, [apyBps]) => {
+        onlyVault(ctx);
+        if ((apyBps as bigint) > MAX_BPS * 10n) fail(abi, 'InvalidAPY');
+        const s = read(ctx.state);
+        const oldAPY = s.apyBps;
+        s.apyBps = apyBps as bigint;
+        emit(ctx, address, abi, 'APYUpdated', { oldAPY, newAPY: apyBps });
+      },
+      toggleLossSimulation: (ctx, [enabled, lossBps]) => {
+        onlyVault(ctx);
+        if ((lossBps as bigint) > MAX_BPS) fail(abi, 'InvalidLossRate');
+        const s = read(ctx.state);
+        s.shouldSimulateLoss = enabled as boolean;
+        s.lossBps = lossBps as bigint;
+        emit(ctx, address, abi, 'LossSimulationToggled', { enabled, lossBps });
+      },
+    },
+  };
+  return { ...contract, isActive: (ctx: Context) => read(ctx.state).isActive, totalAssets, invest, harvest, withdraw, emergencyWithdraw };
+}
+
+/** MinimalVault：deposit / redeem、自动投资到 Strategy、收获 */
+function createVault(
+  address: Address,
+  addresses: DemoAddresses,
+  asset: ReturnType<typeof createAsset>,
+  shares: ReturnType<typeof createVaultToken>,
+  strategies: Record<string, ReturnType<typeof createStrategy>>,
+) {
+  const abi = VAULT_ABI as Abi;
+  const onlyOwner = (ctx: Context) => requireOwner(ctx, ctx.state.vault.owner, abi);
+
+  // 调用没有代码的地址会直接 revert（Solidity 的 extcodesize 检查）
+  const strategyOf = (ctx: Context) => {
+    const current = ctx.state.vault.strategy;
+    if (same(current, zeroAddress)) return undefined;
+    return strategies[key(current)] ?? throwNoCode();
+  };
+  const throwNoCode = (): never => {
+    throw new DemoRevert('0x');
+  };
+
+  const totalAssets = (ctx: Context) => {
+    const strategy = strategyOf(ctx);
+    return ctx.state.vault.totalIdleAssets + (strategy ? strategy.totalAssets(ctx) : 0n);
+  };
+  const previewDeposit = (ctx: Context, assets: bigint) => {
+    const supply = ctx.state.shares.totalSupply;
+    return supply === 0n ? assets : div(assets * supply, totalAssets(ctx));
+  };
+  const previewRedeem = (ctx: Context, amount: bigint) => {
+    const supply = ctx.state.shares.totalSupply;
+    return supply === 0n ? 0n : (amount * totalAssets(ctx)) / supply;
+  };
+
+  const investAmount = (ctx: Context, amount: bigint) => {
+    if (amount === 0n) return;
+    const strategy = strategyOf(ctx)!;
+    as(ctx, address, () => {
+      asset.approve(ctx, ctx.state.vault.strategy, amount);
+      strategy.invest(ctx, amount);
+    });
+    ctx.state.vault.totalIdleAssets = sub(ctx.state.vault.totalIdleAssets, amount);
+    ctx.state.vault.totalInvestedAssets += amount;
+    emit(ctx, address, abi, 'Invested', { amount });
+  };
+
+  const autoInvest = (ctx: Context) => {
+    const strategy = strategyOf(ctx);
+    if (!strategy || !strategy.isActive(ctx)) return;
+    const { vault } = ctx.state;
+    const target = (totalAssets(ctx) * vault.investRatioBps) / MAX_BPS;
+    if (target > vault.totalInvestedAssets) {
+      const toInvest = min(target - vault.totalInvestedAssets, vault.totalIdleAssets);
+      if (toInvest > 0n) investAmount(ctx, toInvest);
+    }
+  };
+
+  const withdrawFromStrategy = (ctx: Context, amount: bigint) => {
+    const strategy = strategyOf(ctx);
+    if (!strategy) return;
+    const toWithdraw = min(amount, ctx.state.vault.totalInvestedAssets);
+    if (toWithdraw === 0n) return;
+    const withdrawn = as(ctx, address, () => strategy.withdraw(ctx, toWithdraw));
+    ctx.state.vault.totalInvestedAssets = sub(ctx.state.vault.totalInvestedAssets, withdrawn);
+    ctx.state.vault.totalIdleAssets += withdrawn;
+  };
+
+  const deposit = (ctx: Context, assets: bigint) => {
+    if (assets === 0n) fail(abi, 'ZeroAmount');
+    const amount = previewDeposit(ctx, assets);
+    if (amount === 0n) fail(abi, 'ZeroShares');
+    if (!ctx.state.vault.initialized) {
+      if (amount < MINIMUM_SHARES) fail(abi, 'FirstDepositTooSmall');
+      ctx.state.vault.initialized = true;
+    }
+    const user = ctx.sender;
+    as(ctx, address, () => asset.transferFrom(ctx, user, address, assets));
+    ctx.state.vault.totalIdleAssets += assets;
+    as(ctx, address, () => shares.mint(ctx, user, amount));
+    emit(ctx, address, abi, 'Deposit', { user, assets, shares: amount });
+    autoInvest(ctx);
+    return amount;
+  };
+
+  const strategyInfo = (ctx: Context) => {
+    const strategyAddress = ctx.state.vault.strategy;
+    const strategy = strategyOf(ctx);
+    const active = Boolean(strategy?.isActive(ctx));
+    return [strategyAddress, active, ctx.state.vault.totalInvestedAssets, active ? strategy!.totalAssets(ctx) : 0n];
+  };
+
+  const contract: DemoContract = {
+    abi,
+    functions: {
+      ...ownable(abi, address, (state) => state.vault),
+      asset: () => addresses.asset,
+      shares: () => addresses.vaultToken,
+      strategy: ({ state }) => state.vault.strategy,
+      totalIdleAssets: ({ state }) => state.vault.totalIdleAssets,
+      totalInvestedAssets: ({ state }) => state.vault.totalInvestedAssets,
+      MINIMUM_SHARES: () => MINIMUM_SHARES,
+      MAX_INVEST_RATIO: () => MAX_INVEST_RATIO,
+      initialized: ({ state }) => state.vault.initialized,
+      investRatioBps: ({ state }) => state.vault.investRatioBps,
+      totalAssets: (ctx) => totalAssets(ctx),
+      previewDeposit: (ctx, [assets]) => previewDeposit(ctx, assets as bigint),
+      previewRedeem: (ctx, [amount]) => previewRedeem(ctx, amount as bigint),
+      sharePrice: (ctx) => {
+        const supply = ctx.state.shares.totalSupply;
+        return supply === 0n ? PRICE_PRECISION : (totalAssets(ctx) * PRICE_PRECISION) / supply;
+      },
+      balanceOfAssets: (ctx, [user]) => previewRedeem(ctx, balanceOf(ctx.state.shares, user as Address)),
+      getStrategyInfo: (ctx) => strategyInfo(ctx),
+      deposit: (ctx, [assets]) => deposit(ctx, assets as bigint),
+      // 模拟资产与部署脚本的 MockERC20 一样不支持 permit：permit 调用失败后只检查已有授权
+      depositWithPermit: (ctx, [assets]) => {
+        if (allowanceOf(ctx.state.asset, ctx.sender, address) < (assets as bigint)) fail(abi, 'PermitFailed');
+        return deposit(ctx, assets as bigint);
+      },
+      redeem: (ctx, [amountArg]) => {
+        const amount = amountArg as bigint;
+        if (amount === 0n) fail(abi, 'ZeroAmount');
+        const assets = previewRedeem(ctx, amount);
+        if (assets === 0n) fail(abi, 'ZeroShares');
+        if (assets > totalAssets(ctx)) fail(abi, 'InsufficientAssets');
+        if (assets > ctx.state.vault.totalIdleAssets) withdrawFromStrategy(ctx, assets - ctx.state.vault.totalIdleAssets);
+        ctx.state.vault.totalIdleAssets = sub(ctx.state.vault.totalIdleAssets, assets);
+        const user = ctx.sender;
+        as(ctx, address, () => {
+          shares.burn(ctx, user, amount);
+          asset.transfer(ctx, user, assets);
+        });
+        emit(ctx, address, abi, 'Redeem', { user, shares: amount, assets });
+        return assets;
+      },
+      invest: (ctx) => {
+        onlyOwner(ctx);
+        const strategy = strategyOf(ctx);
+        if (!strategy || !strategy.isActive(ctx)) return;
+        investAmount(ctx, (ctx.state.vault.totalIdleAssets * ctx.state.vault.investRatioBps) / MAX_BPS);
+      },
+      harvest: (ctx) => {
+        onlyOwner(ctx);
+        const strategy = strategyOf(ctx);
+        if (!strategy || !strategy.isActive(ctx)) return;
+        const [profit, loss] = as(ctx, address, () => strategy.harvest(ctx));
+        const { vault } = ctx.state;
+        if (profit > loss) vault.totalInvestedAssets += profit - loss;
+        else if (loss > profit) vault.totalInvestedAssets = vault.totalInvestedAssets > loss - profit ? vault.totalInvestedAssets - (loss - profit) : 0n;
+        emit(ctx, address, abi, 'Harvested', { profit, loss });
+      },
+      setStrategy: (ctx, [next]) => {
+        onlyOwner(ctx);
+        if (same(next as Address, zeroAddress)) fail(abi, 'InvalidStrategy');
+        const oldStrategy = ctx.state.vault.strategy;
+        const previous = strategyOf(ctx);
+        if (previous) {
+          const withdrawn = as(ctx, address, () => previous.emergencyWithdraw(ctx));
+          ctx.state.vault.totalInvestedAssets = 0n;
+          ctx.state.vault.totalIdleAssets += withdrawn;
+        }
+        ctx.state.vault.strategy = next as Address;
+        emit(ctx, address, abi, 'StrategySet', { oldStrategy, newStrategy: next });
+      },
+      setInvestRatio: (ctx, [ratio]) => {
+        onlyOwner(ctx);
+        if ((ratio as bigint) > MAX_INVEST_RATIO) fail(abi, 'InvalidInvestRatio');
+        const oldRatio = ctx.state.vault.investRatioBps;
+        ctx.state.vault.investRatioBps = ratio as bigint;
+        emit(ctx, address, abi, 'InvestRatioUpdated', { oldRatio, newRatio: ratio });
+      },
+    },
+  };
+  return contract;
+}
+
+/** FeeManager：只保存费率与累计记录，Vault 本身不收取费用（与合约一致） */
+function createFeeManager(address: Address): DemoContract {
+  const abi = FEE_MANAGER_ABI as Abi;
+  const onlyOwner = (ctx: Context) => requireOwner(ctx, ctx.state.fees.owner, abi);
+  return {
+    abi,
+    functions: {
+      ...ownable(abi, address, (state) => state.fees),
+      performanceFeeBps: ({ state }) => state.fees.performanceFeeBps,
+      withdrawalFeeBps: ({ state }) => state.fees.withdrawalFeeBps,
+      feeRecipient: ({ state }) => state.fees.feeRecipient,
+      totalPerformanceFeesCollected: ({ state }) => state.fees.totalPerformanceFeesCollected,
+      totalWithdrawalFeesCollected: ({ state }) => state.fees.totalWithdrawalFeesCollected,
+      performanceFeeEnabled: ({ state }) => state.fees.performanceFeeEnabled,
+      withdrawalFeeEnabled: ({ state }) => state.fees.withdrawalFeeEnabled,
+      MAX_PERFORMANCE_FEE: () => MAX_PERFORMANCE_FEE,
+      MAX_WITHDRAWAL_FEE: () => MAX_WITHDRAWAL_FEE,
+      calculatePerformanceFee: ({ state }, [profit]) =>
+        !state.fees.performanceFeeEnabled || profit === 0n ? 0n : ((profit as bigint) * state.fees.performanceFeeBps) / MAX_BPS,
+      calculateWithdrawalFee: ({ state }, [amount]) =>
+        !state.fees.withdrawalFeeEnabled || amount === 0n ? 0n : ((amount as bigint) * state.fees.withdrawalFeeBps) / MAX_BPS,
+      recordPerformanceFee: (ctx, [feeAmount, profit]) => {
+        onlyOwner(ctx);
+        if ((feeAmount as bigint) > (profit as bigint)) fail(abi, 'InvalidFeeAmount');
+        ctx.state.fees.totalPerformanceFeesCollected += feeAmount as bigint;
+        emit(ctx, address, abi, 'PerformanceFeeCollected', { amount: feeAmount, profit });
+      },
+      recordWithdrawalFee: (ctx, [feeAmount, withdrawn]) => {
+        onlyOwner(ctx);
+        if ((feeAmount as bigint) > (withdrawn as bigint)) fail(abi, 'InvalidFeeAmount');
+        ctx.state.fees.totalWithdrawalFeesCollected += feeAmount as bigint;
+        emit(ctx, address, abi, 'WithdrawalFeeCollected', { amount: feeAmount, withdrawn });
+      },
+      setPerformanceFee: (ctx, [fee]) => {
+        onlyOwner(ctx);
+        if ((fee as bigint) > MAX_PERFORMANCE_FEE) fail(abi, 'FeeTooHigh');
+        const oldFee = ctx.state.fees.performanceFeeBps;
+        ctx.state.fees.performanceFeeBps = fee as bigint;
+        emit(ctx, address, abi, 'PerformanceFeeUpdated', { oldFee, newFee: fee });
+      },
+      setWithdrawalFee: (ctx, [fee]) => {
+        onlyOwner(ctx);
+        if ((fee as bigint) > MAX_WITHDRAWAL_FEE) fail(abi, 'FeeTooHigh');
+        const oldFee = ctx.state.fees.withdrawalFeeBps;
+        ctx.state.fees.withdrawalFeeBps = fee as bigint;
+        emit(ctx, address, abi, 'WithdrawalFeeUpdated', { oldFee, newFee: fee });
+      },
+      setFeeRecipient: (ctx, [recipient]) => {
+        onlyOwner(ctx);
+        if (same(recipient as Address, zeroAddress)) fail(abi, 'ZeroAddress');
+        const oldRecipient = ctx.state.fees.feeRecipient;
+        ctx.state.fees.feeRecipient = recipient as Address;
+        emit(ctx, address, abi, 'FeeRecipientUpdated', { oldRecipient, newRecipient: recipient });
+      },
+      togglePerformanceFee: (ctx, [enabled]) => {
+        onlyOwner(ctx);
+        ctx.state.fees.performanceFeeEnabled = enabled as boolean;
+        emit(ctx, address, abi, 'PerformanceFeeToggled', { enabled });
+      },
+      toggleWithdrawalFee: (ctx, [enabled]) => {
+        onlyOwner(ctx);
+        ctx.state.fees.withdrawalFeeEnabled = enabled as boolean;
+        emit(ctx, address, abi, 'WithdrawalFeeToggled', { enabled });
+      },
+      getFeeConfiguration: ({ state: { fees } }) => [
+        fees.performanceFeeBps,
+        fees.withdrawalFeeBps,
+        fees.feeRecipient,
+        fees.performanceFeeEnabled,
+        fees.withdrawalFeeEnabled,
+      ],
+      getTotalFeesCollected: ({ state: { fees } }) => [
+        fees.totalPerformanceFeesCollected,
+        fees.totalWithdrawalFeesCollected,
+        fees.totalPerformanceFeesCollected + fees.totalWithdrawalFeesCollected,
+      ],
+    },
+  };
+}
+
+/** VaultAccessControl：角色、白名单与暂停（与合约一致，Vault 本身并不检查这些状态） */
+function createAccessControl(address: Address): DemoContract {
+  const abi = ACCESS_CONTROL_ABI as Abi;
+  const onlyOwner = (ctx: Context) => requireOwner(ctx, ctx.state.access.owner, abi);
+  const onlyGuardianOrOwner = (ctx: Context) => {
+    const { guardian, owner } = ctx.state.access;
+    if (!same(ctx.sender, guardian) && !same(ctx.sender, owner)) fail(abi, 'OnlyGuardianOrOwner');
+  };
+  const pause = (ctx: Context) => {
+    if (ctx.state.access.paused) fail(abi, 'EnforcedPause');
+    ctx.state.access.paused = true;
+    emit(ctx, address, abi, 'Paused', { account: ctx.sender });
+  };
+  const setRole = (role: 'strategist' | 'guardian' | 'keeper', eventName: string, oldName: string, newName: string): Handler => (ctx, [next]) => {
+    onlyOwner(ctx);
+    if (same(next as Address, zeroAddress)) fail(abi, 'ZeroAddress');
+    const previous = ctx.state.access[role];
+    ctx.state.access[role] = next as Address;
+    emit(ctx, address, abi, eventName, { [oldName]: previous, [newName]: next });
+  };
+
+  return {
+    abi,
+    functions: {
+      ...ownable(abi, address, (state) => state.access),
+      paused: ({ state }) => state.access.paused,
+      strategist: ({ state }) => state.access.strategist,
+      guardian: ({ state }) => state.access.guardian,
+      keeper: ({ state }) => state.access.keeper,
+      publicDepositsEnabled: ({ state }) => state.access.publicDepositsEnabled,
+      whitelisted: ({ state }, [user]) => state.access.whitelisted[key(user as Address)] ?? false,
+      canDeposit: ({ state }, [user]) => state.access.publicDepositsEnabled || (state.access.whitelisted[key(user as Address)] ?? false),
+      getRoles: ({ state: { access } }) => [access.owner, access.strategist, access.guardian, access.keeper],
+      getAccessControlState: ({ state: { access } }) => [
+        access.paused,
+        access.publicDepositsEnabled,
+        access.strategist,
+        access.guardian,
+        access.keeper,
+      ],
+      setStrategist: setRole('strategist', 'StrategistUpdated', 'oldStrategist', 'newStrategist'),
+      setGuardian: setRole('guardian', 'GuardianUpdated', 'oldGuardian', 'newGuardian'),
+      setKeeper: setRole('keeper', 'KeeperUpdated', 'oldKeeper', 'newKeeper'),
+      setWhitelist: (ctx, [user, status]) => {
+        onlyOwner(ctx);
+        ctx.state.access.whitelisted[key(user as Address)] = status as boolean;
+        emit(ctx, address, abi, 'UserWhitelisted', { user, status });
+      },
+      setWhitelistBatch: (ctx, [users, status]) => {
+        onlyOwner(ctx);
+        for (const user of users as readonly Address[]) {
+          ctx.state.access.whitelisted[key(user)] = status as boolean;
+          emit(ctx, address, abi, 'UserWhitelisted', { user, status });
+        }
+      },
+      togglePublicDeposits: (ctx, [enabled]) => {
+        onlyOwner(ctx);
+        ctx.state.access.publicDepositsEnabled = enabled as boolean;
+        emit(ctx, address, abi, 'PublicDepositsToggled', { enabled });
+      },
+      pause: (ctx) => {
+        onlyGuardianOrOwner(ctx);
+        pause(ctx);
+      },
+      unpause: (ctx) => {
+        onlyOwner(ctx);
+        if (!ctx.state.access.paused) fail(abi, 'ExpectedPause');
+        ctx.state.access.paused = false;
+        emit(ctx, address, abi, 'Unpaused', { account: ctx.sender });
+      },
+      emergencyShutdown: (ctx) => {
+        onlyGuardianOrOwner(ctx);
+        pause(ctx);
+        emit(ctx, address, abi, 'EmergencyShutdown', { caller: ctx.sender });
+      },
+    },
+  };
+}
+
+// ============ 调用入口 ============
+
+export type DemoContracts = Record<string, DemoContract>;
+
+/** 按地址索引的全部模拟合约 */
+export function createDemoContracts(addresses: DemoAddresses): DemoContracts {
+  const asset = createAsset(addresses.asset);
+  const shares = createVaultToken(addresses.vaultToken);
+  const strategies = Object.fromEntries(
+    [addresses.strategy, addresses.alternateStrategy].map((address) => [key(address), createStrategy(address, addresses.vault, asset)]),
+  );
+  return {
+    [key(addresses.asset)]: asset,
+    [key(addresses.vaultToken)]: shares,
+    [key(addresses.vault)]: createVault(addresses.vault, addresses, asset, shares, strategies),
+    [key(addresses.feeManager)]: createFeeManager(addresses.feeManager),
+    [key(addresses.accessControl)]: createAccessControl(addresses.accessControl),
+    ...strategies,
+  };
+}
+
+export interface DemoCall {
+  from: Address;
+  to: Address;
+  data: Hex;
+}
+
+/**
+ * 在给定状态上执行一次调用（会直接修改 state，调用方负责传入副本）
+ * 返回 ABI 编码的返回值与产生的事件；revert 时抛出 DemoRevert
+ */
+export function executeCall(
+  contracts: DemoContracts,
+  state: DemoState,
+  call: DemoCall,
+  timestamp: bigint,
+): { returnData: Hex; logs: DemoLog[] } {
+  const contract = contracts[key(call.to)];
+  // 普通账户没有代码：调用成功且不返回数据
+  if (!contract) return { returnData: '0x', logs: [] };
+
+  let decoded: { functionName: string; args?: readonly unknown[] };
+  try {
+    decoded = decodeFunctionData({ abi: contract.abi, data: call.data });
+  } catch {
+    // 合约没有对应的函数（也没有 fallback）
+    throw new DemoRevert('0x');
+  }
+  const handler = contract.functions[decoded.functionName];
+  if (!handler) throw new DemoRevert('0x', `execution reverted: ${decoded.functionName} is not simulated`);
+
+  const ctx: Context = { state, sender: call.from, timestamp, logs: [] };
+  const result = handler(ctx, decoded.args ?? []);
+  const returnData = encodeFunctionResult({ abi: contract.abi, functionName: decoded.functionName, result } as Parameters<
+    typeof encodeFunctionResult
+  >[0]);
+  return { returnData, logs: ctx.logs };
+}
+
+export function hasCode(contracts: DemoContracts, address: Address): boolean {
+  return key(address) in contracts;
+}
@@ -0,0 +1,188 @@
+// 部署注册表：从 Foundry broadcast 清单与环境变量解析各链的合约地址
+// 纯函数模块，不依赖 Vite / wagmi，便于 keeper、CLI 等 Node 脚本复用
+import { getAddress, isAddress, type Address } from 'viem';
+
+/** 单个 MinimalVault 实例及其关联合约 */
+export interface VaultDeployment {
+  vault: Address;
+  vaultToken: Address;
+  asset: Address;
+  /** 部署时设置的 Strategy；Vault 之后可能通过 setStrategy 更换 */
+  strategy?: Address;
+}
+
+/** 一条链上的完整部署：多个 Vault 共用同一套 FeeManager / AccessControl */
+export interface Deployment {
+  chainId: number;
+  vaults: VaultDeployment[];
+  feeManager: Address;
+  accessControl: Address;
+}
+
+export type DeploymentRegistry = Readonly<Record<number, Deployment>>;
+
+export interface PartialDeployment {
+  vaults: VaultDeployment[];
+  feeManager?: Address;
+  accessControl?: Address;
+}
+
+/** `forge script --broadcast` 生成的 run-latest.json 中用到的字段 */
+export interface BroadcastManifest {
+  chain: number;
+  transactions: {
+    transactionType: string;
+    contractName?: string | null;
+    contractAddress?: string | null;
+    function?: string | null;
+    arguments?: string[] | null;
+  }[];
+}
+
+// 环境变量名中的网络后缀，如 VITE_VAULT_ADDRESS_SEPOLIA
+export const NETWORK_ENV_NAMES: Record<number, string> = {
+  1: 'MAINNET',
+  11155111: 'SEPOLIA',
+  31337: 'HARDHAT',
+};
+
+const toAddress = (value: string | null | undefined): Address | undefined =>
+  value && isAddress(value, { strict: false }) ? getAddress(value) : undefined;
+
+/**
+ * 从 broadcast 清单中提取部署的合约地址
+ * Vault 与 Strategy 的关联优先使用构造参数 / setStrategy 调用参数，缺失时按部署顺序推断
+ */
+export function parseBroadcast(manifest: BroadcastManifest): PartialDeployment {
+  const result: PartialDeployment = { vaults: [] };
+  const latest: Record<string, Address> = {};
+  const vaultFor = (address: Address | undefined) =>
+    result.vaults.find((v) => v.vault === address) ?? result.vaults.at(-1);
+
+  for (const tx of manifest.transactions) {
+    const address = toAddress(tx.contractAddress);
+    if (!address || !tx.contractName) continue;
+    const args = tx.arguments ?? [];
+
+    if (tx.transactionType === 'CALL') {
+      if (tx.contractName === 'MinimalVault' && tx.function?.startsWith('setStrategy(')) {
+        const vault = result.vaults.find((v) => v.vault === address);
+        if (vault) vault.strategy = toAddress(args[0]);
+      }
+      continue;
+    }
+    if (tx.transactionType !== 'CREATE' && tx.transactionType !== 'CREATE2') continue;
+
+    switch (tx.contractName) {
+      case 'MinimalVault': {
+        // constructor(asset, shares, investRatioBps)
+        const asset = toAddress(args[0]) ?? latest.MockERC20;
+        const vaultToken = toAddress(args[1]) ?? latest.VaultToken;
+        if (asset && vaultToken) result.vaults.push({ vault: address, vaultToken, asset });
+        break;
+      }
+      case 'MockStrategy': {
+        // constructor(vault, asset, apyBps)
+        const vault = vaultFor(toAddress(args[0]));
+        if (vault) vault.strategy = address;
+        break;
+      }
+      case 'FeeManager':
+        result.feeManager = address;
+        break;
+      case 'VaultAccessControl':
+        result.accessControl = address;
+        break;
+    }
+    latest[tx.contractName] = address;
+  }
+  return result;
+}
+
+/**
+ * 读取某条链的环境变量覆盖，格式为 <prefix><CONTRACT>_ADDRESS_<NETWORK>
+ * 环境变量最多描述一个 Vault（VAULT / VAULT_TOKEN / ASSET / STRATEGY）
+ * @param prefix Vite 中为 'VITE_'，Node 脚本中可为 ''
+ */
+export function parseEnvOverrides(
+  env: Record<string, string | undefined>,
+  chainId: number,
+  prefix = 'VITE_',
+): PartialDeployment {
+  const network = NETWORK_ENV_NAMES[chainId];
+  if (!network) return { vaults: [] };
+
+  const read = (name: string): Address | undefined => {
+    const key = `${prefix}${name}_ADDRESS_${network}`;
+    const value = env[key]?.trim();
+    if (!value) return undefined;
+    if (!isAddress(value, { strict: false })) throw new Error(`Invalid address in ${key}: ${value}`);
+    return getAddress(value);
+  };
+
+  const vault = read('VAULT');
+  const vaultToken = read('VAULT_TOKEN');
+  const asset = read('ASSET');
+  const strategy = read('STRATEGY');
+  return {
+    vaults: vault && vaultToken && asset ? [{ vault, vaultToken, asset, ...(strategy && { strategy }) }] : [],
+    feeManager: read('FEE_MANAGER'),
+    accessControl: read('ACCESS_CONTROL'),
+  };
+}
+
+// 合并两份部署信息：同地址的 Vault 以后者为准，其余 Vault 追加
+function mergePartial(base: PartialDeployment | undefined, next: PartialDeployment): PartialDeployment {
+  const vaults = [...(base?.vaults ?? [])];
+  for (const vault of next.vaults) {
+    const index = vaults.findIndex((v) => v.vault === vault.vault);
+    if (index >= 0) vaults[index] = vault;
+    else vaults.push(vault);
+  }
+  return {
+    vaults,
+    feeManager: next.feeManager ?? base?.feeManager,
+    accessControl: next.accessControl ?? base?.accessControl,
+  };
+}
+
+/** 至少有一个 Vault 且共享合约齐全时返回完整的 Deployment，否则返回 undefined */
+export function toDeployment(chainId: number, partial: PartialDeployment): Deployment | undefined {
+  const { vaults, feeManager, accessControl } = partial;
+  if (vaults.length === 0 || !feeManager || !accessControl) return undefined;
+  return { chainId, vaults, feeManager, accessControl };
+}
+
+/**
+ * 合并 broadcast 清单与环境变量，构建 chainId -> Deployment 的注册表
+ * 同一条链上环境变量优先于 broadcast；缺少必需合约的链不会出现在注册表中
+ */
+export function createDeploymentRegistry(
+  manifests: BroadcastManifest[],
+  env: Record<string, string | undefined> = {},
+  prefix = 'VITE_',
+): DeploymentRegistry {
+  const partials = new Map<number, PartialDeployment>();
+  for (const manifest of manifests) {
+    partials.set(manifest.chain, mergePartial(partials.get(manifest.chain), parseBroadcast(manifest)));
+  }
+  for (const key of Object.keys(NETWORK_ENV_NAMES)) {
+    const chainId = Number(key);
+    const overrides = parseEnvOverrides(env, chainId, prefix);
+    if (overrides.vaults.length > 0 || overrides.feeManager || overrides.accessControl) {
+      partials.set(chainId, mergePartial(partials.get(chainId), overrides));
+    }
+  }
+
+  const registry: Record<number, Deployment> = {};
+  for (const [chainId, partial] of partials) {
+    const deployment = toDeployment(chainId, partial);
+    if (deployment) registry[chainId] = deployment;
+  }
+  return registry;
+}
+
+/** 在部署中按地址查找 Vault（忽略大小写） */
+export function findVault(deployment: Deployment | undefined, vault: string): VaultDeployment | undefined {
+  return deployment?.vaults.find((v) => v.vault.toLowerCase() === vault.toLowerCase());
+}
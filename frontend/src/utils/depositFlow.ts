@@ -0,0 +1,36 @@
+// 存款 / 赎回流程中与界面无关的部分：授权额度、approve + deposit 调用、从回执读取成交数量
+// 前端 DepositWithdraw 与命令行客户端（scripts/cli）共用
+import { maxUint256, parseEventLogs, type Address, type TransactionReceipt } from 'viem';
+import { ERC20_ABI, VAULT_ABI } from '../config/abis';
+
+export type AllowanceMode = 'exact' | 'unlimited';
+
+/** 精确授权只覆盖本次存款；无限授权之后的存款无需再授权 */
+export function approvalAmount(assets: bigint, mode: AllowanceMode): bigint {
+  return mode === 'unlimited' ? maxUint256 : assets;
+}
+
+/** 当前授权不足以覆盖本次存款时需要先授权 */
+export function needsApproval(assets: bigint | undefined, allowance: bigint | undefined): boolean {
+  return assets !== undefined && allowance !== undefined ? assets > allowance : false;
+}
+
+/** approve + deposit 两个调用（EIP-5792 批量发送，或依次发送） */
+export function approveAndDepositCalls(asset: Address, vault: Address, assets: bigint, mode: AllowanceMode) {
+  return [
+    { to: asset, abi: ERC20_ABI, functionName: 'approve', args: [vault, approvalAmount(assets, mode)] },
+    { to: vault, abi: VAULT_ABI, functionName: 'deposit', args: [assets] },
+  ] as const;
+}
+
+/** 从回执中读取本账户 Deposit 事件的 shares */
+export function realizedShares(receipt: TransactionReceipt, user: Address): bigint | undefined {
+  const [log] = parseEventLogs({ abi: VAULT_ABI, eventName: 'Deposit', logs: receipt.logs, args: { user } });
+  return log?.args.shares;
+}
+
+/** 从回执中读取本账户 Redeem 事件的资产数量 */
+export function realizedAssets(receipt: TransactionReceipt, user: Address): bigint | undefined {
+  const [log] = parseEventLogs({ abi: VAULT_ABI, eventName: 'Redeem', logs: receipt.logs, args: { user } });
+  return log?.args.assets;
+}
@@ -0,0 +1,10 @@
+import type { Chain, Hash } from 'viem';
+
+// 本地链（Anvil / Hardhat）没有区块浏览器，不生成链接
+const LOCAL_CHAIN_ID = 31337;
+
+export function explorerTxUrl(chain: Chain | undefined, hash: Hash): string | undefined {
+  const url = chain?.blockExplorers?.default.url;
+  if (!url || chain.id === LOCAL_CHAIN_ID) return undefined;
+  return `${url.replace(/\/$/, '')}/tx/${hash}`;
+}
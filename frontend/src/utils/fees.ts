@@ -0,0 +1,18 @@
+// 费率输入校验（与 FeeManager 的 FeeTooHigh 检查保持一致）
+
+export const MAX_BPS = 10_000n;
+
+export function formatBps(bps: bigint): string {
+  return `${(Number(bps) / 100).toFixed(2)}%`;
+}
+
+/**
+ * 解析基点输入，返回 { bps } 或 { error }
+ */
+export function parseFeeBps(input: string, maxBps: bigint): { bps: bigint; error?: undefined } | { bps?: undefined; error: string } {
+  const trimmed = input.trim();
+  if (!/^\d+$/.test(trimmed)) return { error: 'Fee must be a whole number of basis points' };
+  const bps = BigInt(trimmed);
+  if (bps > maxBps) return { error: `Fee cannot exceed ${maxBps} bps (${formatBps(maxBps)})` };
+  return { bps };
+}
@@ -0,0 +1,50 @@
+import { formatUnits } from 'viem';
+import { toUsdValue, type UsdPrice } from './pricing';
+import type { TokenMetadata } from './tokens';
+
+// 金额展示 helpers（统一千分位与小数位）
+
+export function formatAmount(value: bigint, decimals: number, fractionDigits = 2): string {
+  return Number(formatUnits(value, decimals)).toLocaleString('en-US', {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  });
+}
+
+export function formatUsd(value: bigint, decimals: number, fractionDigits = 2): string {
+  const sign = value < 0n ? '-' : '';
+  return `${sign}$${formatAmount(value < 0n ? -value : value, decimals, fractionDigits)}`;
+}
+
+// 带正负号的金额，例如 +$12.34 / -$5.00
+export function formatSignedUsd(value: bigint, decimals: number, fractionDigits = 2): string {
+  return value < 0n ? formatUsd(value, decimals, fractionDigits) : `+${formatUsd(value, decimals, fractionDigits)}`;
+}
+
+// 带 symbol 的代币数量，例如 1,234.56 USDC
+export function formatToken(value: bigint, token: Pick<TokenMetadata, 'decimals' | 'symbol'>, fractionDigits = 2): string {
+  const amount = formatAmount(value, token.decimals, fractionDigits);
+  return token.symbol ? `${amount} ${token.symbol}` : amount;
+}
+
+// 资产价值：有 USD 价格时显示美元，否则显示代币数量（不再假设资产等于 $1）
+export function formatAssetValue(
+  value: bigint,
+  token: Pick<TokenMetadata, 'decimals' | 'symbol'>,
+  price: UsdPrice | undefined,
+  signed = false,
+  fractionDigits = 2,
+): string {
+  if (price) {
+    const usd = toUsdValue(value, price);
+    return signed ? formatSignedUsd(usd, token.decimals, fractionDigits) : formatUsd(usd, token.decimals, fractionDigits);
+  }
+  const text = formatToken(value < 0n ? -value : value, token, fractionDigits);
+  if (value < 0n) return `-${text}`;
+  return signed ? `+${text}` : text;
+}
+
+export function formatPercent(value: number, signed = false): string {
+  const text = `${value.toFixed(2)}%`;
+  return signed && value >= 0 ? `+${text}` : text;
+}
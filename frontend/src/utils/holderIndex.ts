@@ -0,0 +1,117 @@
+import { zeroAddress, type Address } from 'viem';
+
+// 持有人索引：回放 VaultToken Transfer 与 Vault Deposit / Redeem 事件得到持有人集合
+
+export const HOLDER_INDEX_VERSION = 1;
+
+export interface HolderRecord {
+  balance: bigint;
+  /** 第一次收到 shares 的区块 */
+  firstSeenBlock: bigint;
+  /** 通过 Vault 累计存入 / 赎回的资产 */
+  deposited: bigint;
+  redeemed: bigint;
+}
+
+export interface HolderIndexState {
+  version: number;
+  /** 已经索引到的区块（包含） */
+  lastIndexedBlock: bigint;
+  holders: Record<Address, HolderRecord>;
+}
+
+export interface TransferLog {
+  from: Address;
+  to: Address;
+  value: bigint;
+  blockNumber: bigint;
+}
+
+export interface VaultFlowLog {
+  user: Address;
+  assets: bigint;
+  blockNumber: bigint;
+}
+
+export interface HolderStanding {
+  address: Address;
+  balance: bigint;
+  /** 占总供应量的比例（百分比） */
+  shareOfSupply: number;
+  deposited: bigint;
+  redeemed: bigint;
+}
+
+export function emptyHolderIndex(): HolderIndexState {
+  return { version: HOLDER_INDEX_VERSION, lastIndexedBlock: -1n, holders: {} };
+}
+
+function holder(state: HolderIndexState, address: Address, blockNumber: bigint): HolderRecord {
+  const key = address.toLowerCase() as Address;
+  state.holders[key] ??= { balance: 0n, firstSeenBlock: blockNumber, deposited: 0n, redeemed: 0n };
+  return state.holders[key];
+}
+
+/**
+ * 把一段区块范围内的事件合并到索引中（返回新对象，不修改入参）
+ */
+export function applyHolderLogs(
+  previous: HolderIndexState,
+  toBlock: bigint,
+  transfers: TransferLog[],
+  deposits: VaultFlowLog[],
+  redeems: VaultFlowLog[],
+): HolderIndexState {
+  const state: HolderIndexState = {
+    ...previous,
+    lastIndexedBlock: toBlock,
+    holders: Object.fromEntries(
+      Object.entries(previous.holders).map(([key, record]) => [key, { ...record }]),
+    ) as Record<Address, HolderRecord>,
+  };
+
+  for (const log of transfers) {
+    if (log.from !== zeroAddress) holder(state, log.from, log.blockNumber).balance -= log.value;
+    if (log.to !== zeroAddress) {
+      const record = holder(state, log.to, log.blockNumber);
+      record.balance += log.value;
+      if (log.blockNumber < record.firstSeenBlock) record.firstSeenBlock = log.blockNumber;
+    }
+  }
+  for (const log of deposits) holder(state, log.user, log.blockNumber).deposited += log.assets;
+  for (const log of redeems) holder(state, log.user, log.blockNumber).redeemed += log.assets;
+
+  return state;
+}
+
+export function totalSupplyOf(state: HolderIndexState): bigint {
+  return Object.values(state.holders).reduce((sum, record) => sum + (record.balance > 0n ? record.balance : 0n), 0n);
+}
+
+export function currentHolders(state: HolderIndexState): Address[] {
+  return (Object.keys(state.holders) as Address[]).filter((key) => state.holders[key].balance > 0n);
+}
+
+/**
+ * 在 sinceBlock 之后首次出现、且目前仍持有 shares 的地址数量
+ */
+export function countNewHolders(state: HolderIndexState, sinceBlock: bigint): number {
+  return currentHolders(state).filter((key) => state.holders[key].firstSeenBlock > sinceBlock).length;
+}
+
+export function topHolders(state: HolderIndexState, limit: number): HolderStanding[] {
+  const supply = totalSupplyOf(state);
+  return currentHolders(state)
+    .map((address) => {
+      const record = state.holders[address];
+      return {
+        address,
+        balance: record.balance,
+        shareOfSupply: supply === 0n ? 0 : Number((record.balance * 1_000_000n) / supply) / 10_000,
+        deposited: record.deposited,
+        redeemed: record.redeemed,
+      };
+    })
+    .sort((a, b) => (a.balance === b.balance ? 0 : a.balance > b.balance ? -1 : 1))
+    .slice(0, limit);
+}
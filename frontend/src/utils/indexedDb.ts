@@ -0,0 +1,56 @@
+// 轻量的 IndexedDB key-value 封装，用来缓存链上索引结果（刷新页面后无需从头扫描）
+
+const DB_NAME = 'yield-vault';
+const DB_VERSION = 1;
+export const INDEXER_STORE = 'indexer';
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(INDEXER_STORE)) {
+          request.result.createObjectStore(INDEXER_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = undefined;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const request = action(db.transaction(INDEXER_STORE, mode).objectStore(INDEXER_STORE));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+      }),
+  );
+}
+
+// 读取失败（隐私模式、浏览器不支持等）时当作没有缓存
+export async function idbGet<T>(key: string): Promise<T | undefined> {
+  if (typeof indexedDB === 'undefined') return undefined;
+  try {
+    return await run<T | undefined>('readonly', (store) => store.get(key));
+  } catch {
+    return undefined;
+  }
+}
+
+export async function idbSet<T>(key: string, value: T): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  try {
+    await run('readwrite', (store) => store.put(value, key));
+  } catch {
+    // 缓存写入失败不影响功能，下次重新扫描即可
+  }
+}
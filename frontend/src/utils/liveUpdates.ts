@@ -0,0 +1,178 @@
+// 实时数据：把新区块与链上事件映射为受影响的 React Query 缓存，只刷新这些查询
+// wagmi 的合约读取 key 为 ['readContract', { address, functionName, args, chainId }]
+// 与 ['readContracts', { contracts: [...] }]，其余为各 hook 自定义的 [name, chainId, vault, ...]
+import type { Address } from 'viem';
+
+/** 一个合约上受影响的只读函数；account 存在时只匹配第一个参数为该账户的调用（balanceOf / allowance 等） */
+export interface ReadTarget {
+  address: Address;
+  functionNames: readonly string[];
+  account?: Address;
+}
+
+export interface Invalidation {
+  reads: ReadTarget[];
+  /** 自定义 query key 的前缀 */
+  keys: readonly unknown[][];
+}
+
+export interface LiveContext {
+  chainId: number;
+  vault: Address;
+  vaultToken: Address;
+  asset: Address;
+  /** 当前 Strategy；未设置时为 undefined */
+  strategy?: Address;
+  user?: Address;
+}
+
+// 随 Vault 总资产变化的读取（MockStrategy 的 totalAssets 按 block.timestamp 累积收益，每个新区块都会变化）
+const VAULT_VALUE_READS = ['totalAssets', 'sharePrice', 'previewDeposit', 'previewRedeem', 'balanceOfAssets'] as const;
+const VAULT_ALLOCATION_READS = ['totalIdleAssets', 'totalInvestedAssets', 'getStrategyInfo'] as const;
+const STRATEGY_VALUE_READS = ['totalAssets', 'estimatedProfit', 'pendingYield'] as const;
+const STRATEGY_STATE_READS = [...STRATEGY_VALUE_READS, 'investedAssets', 'lastHarvestTime', 'totalYieldHarvested', 'expectedYearlyYield'] as const;
+
+const sameAddress = (a: unknown, b: Address) => typeof a === 'string' && a.toLowerCase() === b.toLowerCase();
+
+const strategyReads = (ctx: LiveContext, functionNames: readonly string[]): ReadTarget[] =>
+  ctx.strategy ? [{ address: ctx.strategy, functionNames }] : [];
+
+/** 新区块：只有与时间相关的估值会变化 */
+export function blockInvalidation(ctx: LiveContext): Invalidation {
+  return {
+    reads: [{ address: ctx.vault, functionNames: VAULT_VALUE_READS }, ...strategyReads(ctx, STRATEGY_VALUE_READS)],
+    keys: [],
+  };
+}
+
+/** Vault 事件（Deposit / Redeem / Harvested / Invested，其余配置类事件刷新该 Vault 的全部读取） */
+export function vaultEventInvalidation(ctx: LiveContext, eventName: string | undefined, user?: Address): Invalidation {
+  const isUser = Boolean(user && ctx.user && sameAddress(user, ctx.user));
+  switch (eventName) {
+    case 'Deposit':
+    case 'Redeem':
+      return {
+        reads: [
+          { address: ctx.vault, functionNames: [...VAULT_VALUE_READS, ...VAULT_ALLOCATION_READS] },
+          { address: ctx.vaultToken, functionNames: ['totalSupply'] },
+          // 存款会自动按比例投资到 Strategy，赎回可能从 Strategy 取回资产
+          ...strategyReads(ctx, STRATEGY_STATE_READS),
+        ],
+        keys: isUser ? [['positionHistory', ctx.chainId, ctx.vault, ctx.vaultToken, ctx.user]] : [],
+      };
+    case 'Harvested':
+      return {
+        reads: [
+          { address: ctx.vault, functionNames: [...VAULT_VALUE_READS, ...VAULT_ALLOCATION_READS] },
+          ...strategyReads(ctx, STRATEGY_STATE_READS),
+        ],
+        keys: [
+          ['yieldAnalytics', ctx.chainId, ctx.vault],
+          ['vaultHistory', ctx.chainId, ctx.vault],
+          ['lastHarvest', ctx.chainId, ctx.vault],
+        ],
+      };
+    case 'Invested':
+      return {
+        reads: [
+          { address: ctx.vault, functionNames: [...VAULT_VALUE_READS, ...VAULT_ALLOCATION_READS] },
+          ...strategyReads(ctx, STRATEGY_STATE_READS),
+        ],
+        keys: [],
+      };
+    default:
+      return { reads: [{ address: ctx.vault, functionNames: [] }], keys: [['vaultHistory', ctx.chainId, ctx.vault]] };
+  }
+}
+
+/** 用户相关的 Transfer / Approval：资产或 VaultToken 的余额、授权额度与持仓历史 */
+export function tokenEventInvalidation(ctx: LiveContext, token: Address, eventName: 'Transfer' | 'Approval'): Invalidation {
+  if (!ctx.user) return { reads: [], keys: [] };
+  const isShare = sameAddress(token, ctx.vaultToken);
+  if (eventName === 'Approval') return { reads: [{ address: token, functionNames: ['allowance'], account: ctx.user }], keys: [] };
+  return {
+    reads: [
+      // transferFrom 同时消耗授权额度
+      { address: token, functionNames: ['balanceOf', 'allowance'], account: ctx.user },
+      ...(isShare ? [{ address: ctx.vault, functionNames: ['balanceOfAssets'], account: ctx.user }] : []),
+    ],
+    keys: isShare ? [['positionHistory', ctx.chainId, ctx.vault, ctx.vaultToken, ctx.user]] : [],
+  };
+}
+
+/**
+ * 本页发出的交易确认后：交易目标合约与回执中产生事件的合约的全部读取
+ * 依赖事件的自定义查询（持仓历史等）由事件监听负责刷新
+ */
+export function receiptInvalidation(receipt: { to: Address | null; logs: readonly { address: Address }[] }): Invalidation {
+  const addresses = [...(receipt.to ? [receipt.to] : []), ...receipt.logs.map((log) => log.address)];
+  const unique = [...new Map(addresses.map((address) => [address.toLowerCase(), address])).values()];
+  return { reads: unique.map((address) => ({ address, functionNames: [] })), keys: [] };
+}
+
+export function mergeInvalidations(items: Invalidation[]): Invalidation {
+  return { reads: items.flatMap((i) => i.reads), keys: items.flatMap((i) => i.keys) };
+}
+
+interface ContractReadKey {
+  address?: unknown;
+  functionName?: unknown;
+  args?: unknown;
+  chainId?: unknown;
+}
+
+function matchesRead(read: ContractReadKey, chainId: number, targets: ReadTarget[]): boolean {
+  if (read.chainId !== undefined && read.chainId !== chainId) return false;
+  return targets.some((target) => {
+    if (!sameAddress(read.address, target.address)) return false;
+    // functionNames 为空表示该合约的全部读取
+    if (target.functionNames.length > 0 && !target.functionNames.includes(String(read.functionName))) return false;
+    if (!target.account) return true;
+    return Array.isArray(read.args) && sameAddress(read.args[0], target.account);
+  });
+}
+
+/** 判断一个 query key 是否受影响；用作 queryClient.invalidateQueries 的 predicate */
+export function matchesInvalidation(queryKey: readonly unknown[], chainId: number, invalidation: Invalidation): boolean {
+  const [name, params] = queryKey;
+  if (name === 'readContract' && params && typeof params === 'object') {
+    return matchesRead(params as ContractReadKey, chainId, invalidation.reads);
+  }
+  if (name === 'readContracts' && params && typeof params === 'object') {
+    const contracts = (params as { contracts?: ContractReadKey[] }).contracts ?? [];
+    return contracts.some((c) => matchesRead(c, chainId, invalidation.reads));
+  }
+  return invalidation.keys.some((prefix) =>
+    prefix.every((part, i) => part === queryKey[i] || (typeof part === 'string' && sameAddress(queryKey[i], part as Address))),
+  );
+}
+
+/**
+ * query key 是否属于指定链：自定义 key 的第二项为 chainId，wagmi 的 key 在参数对象（或其中的 contracts）里带 chainId
+ * 用于链状态整体变化（快照恢复、时间推进）后只刷新该链的查询
+ */
+export function matchesChain(queryKey: readonly unknown[], chainId: number): boolean {
+  const [, params] = queryKey;
+  if (params === chainId) return true;
+  if (!params || typeof params !== 'object') return false;
+  const { chainId: keyChainId, contracts } = params as { chainId?: unknown; contracts?: ContractReadKey[] };
+  return keyChainId === chainId || (Array.isArray(contracts) && contracts.some((c) => c.chainId === chainId));
+}
+
+/** Client 上的传输信息（viem 把 transport 的 config 与 value 合并在 client.transport 上） */
+export interface TransportInfo {
+  type: string;
+  transports?: readonly { config: { type: string } }[];
+}
+
+const SUBSCRIPTION_TRANSPORTS = ['webSocket', 'ipc'];
+
+/**
+ * 传输层是否支持 eth_subscribe（WebSocket / IPC）；不支持时改为轮询
+ * fallback 传输以第一个传输为准（与 viem 的 watch* 判断一致）
+ */
+export function supportsSubscriptions(transport: TransportInfo | undefined): boolean {
+  if (!transport) return false;
+  if (transport.type === 'fallback') return SUBSCRIPTION_TRANSPORTS.includes(transport.transports?.[0]?.config.type ?? '');
+  return SUBSCRIPTION_TRANSPORTS.includes(transport.type);
+}
@@ -0,0 +1,94 @@
+import { zeroAddress, type Address } from 'viem';
+
+// 运维操作的预期状态变化（按 MinimalVault 的逻辑在本地推算，用于确认弹窗展示）
+
+const MAX_BPS = 10_000n;
+
+export type OperatorAction =
+  | { kind: 'invest' }
+  | { kind: 'harvest' }
+  | { kind: 'setStrategy'; strategy: Address }
+  | { kind: 'setInvestRatio'; bps: bigint };
+
+export interface VaultOperatorState {
+  totalIdleAssets: bigint;
+  totalInvestedAssets: bigint;
+  investRatioBps: bigint;
+  maxInvestRatioBps: bigint;
+  strategy: Address;
+  strategyActive: boolean;
+  strategyTotalAssets: bigint;
+  estimatedProfit: bigint;
+  estimatedLoss: bigint;
+}
+
+export type StateChange =
+  | { label: string; format: 'assets'; before: bigint; after: bigint }
+  | { label: string; format: 'bps'; before: bigint; after: bigint }
+  | { label: string; format: 'address'; before: Address; after: Address };
+
+export interface ActionPreview {
+  changes: StateChange[];
+  /** 不会产生任何变化时的说明（例如没有活跃的 Strategy） */
+  note?: string;
+}
+
+const hasActiveStrategy = (state: VaultOperatorState) => state.strategy !== zeroAddress && state.strategyActive;
+
+export function previewOperatorAction(action: OperatorAction, state: VaultOperatorState): ActionPreview {
+  switch (action.kind) {
+    case 'invest': {
+      if (!hasActiveStrategy(state)) return { changes: [], note: 'No active strategy: invest() is a no-op.' };
+      const toInvest = (state.totalIdleAssets * state.investRatioBps) / MAX_BPS;
+      if (toInvest === 0n) return { changes: [], note: 'Nothing to invest at the current ratio.' };
+      return {
+        changes: [
+          { label: 'Idle assets', format: 'assets', before: state.totalIdleAssets, after: state.totalIdleAssets - toInvest },
+          { label: 'Invested assets', format: 'assets', before: state.totalInvestedAssets, after: state.totalInvestedAssets + toInvest },
+        ],
+      };
+    }
+    case 'harvest': {
+      if (!hasActiveStrategy(state)) return { changes: [], note: 'No active strategy: harvest() is a no-op.' };
+      const { estimatedProfit: profit, estimatedLoss: loss, totalInvestedAssets: invested } = state;
+      let after = invested;
+      if (profit > loss) after = invested + (profit - loss);
+      else if (loss > profit) after = invested > loss - profit ? invested - (loss - profit) : 0n;
+      return {
+        changes: [{ label: 'Invested assets', format: 'assets', before: invested, after }],
+        note: profit === 0n && loss === 0n ? 'Strategy reports no pending profit or loss.' : undefined,
+      };
+    }
+    case 'setStrategy': {
+      const changes: StateChange[] = [
+        { label: 'Strategy', format: 'address', before: state.strategy, after: action.strategy },
+      ];
+      // 替换旧 Strategy 时会 emergencyWithdraw 全部资金回到 Vault
+      if (state.strategy !== zeroAddress) {
+        changes.push(
+          { label: 'Idle assets', format: 'assets', before: state.totalIdleAssets, after: state.totalIdleAssets + state.strategyTotalAssets },
+          { label: 'Invested assets', format: 'assets', before: state.totalInvestedAssets, after: 0n },
+        );
+      }
+      return { changes };
+    }
+    case 'setInvestRatio':
+      return {
+        changes: [{ label: 'Invest ratio', format: 'bps', before: state.investRatioBps, after: action.bps }],
+      };
+  }
+}
+
+/**
+ * 客户端校验，返回错误信息；通过时返回 undefined
+ */
+export function validateOperatorAction(action: OperatorAction, state: VaultOperatorState): string | undefined {
+  if (action.kind === 'setStrategy' && action.strategy === zeroAddress) return 'Strategy cannot be the zero address';
+  if (action.kind === 'setStrategy' && action.strategy.toLowerCase() === state.strategy.toLowerCase()) {
+    return 'This strategy is already active';
+  }
+  if (action.kind === 'setInvestRatio' && action.bps > state.maxInvestRatioBps) {
+    return `Invest ratio cannot exceed ${state.maxInvestRatioBps} bps`;
+  }
+  return undefined;
+}
@@ -0,0 +1,84 @@
+// EIP-2612 permit：检测资产是否支持签名授权，并构造待签名的 typed data
+import {
+  domainSeparator,
+  getAbiItem,
+  maxUint256,
+  toFunctionSelector,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type TypedDataDomain,
+} from 'viem';
+import { ERC20_ABI, ERC20_PERMIT_ABI, ERC5267_ABI, VAULT_ABI } from '../config/abis';
+
+// 签名有效期：足够在钱包中确认，又不会留下长期有效的授权
+export const PERMIT_VALIDITY_SECONDS = 20 * 60;
+
+// 授权额度超过该值时视为"无限授权"（部分代币会在 transferFrom 时递减 max 授权）
+export const UNLIMITED_ALLOWANCE_THRESHOLD = maxUint256 / 2n;
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+/**
+ * 检测代币是否支持 permit，返回其 EIP-712 域；不支持或无法可靠还原域时返回 null
+ * 优先读取 ERC-5267 的 eip712Domain()，否则按 OpenZeppelin 默认值 (name(), "1") 推断，
+ * 最后与链上 DOMAIN_SEPARATOR() 比对，避免签出无效的签名
+ */
+export async function detectPermitDomain(client: PublicClient, token: Address): Promise<TypedDataDomain | null> {
+  let separator: Hex;
+  try {
+    separator = await client.readContract({ address: token, abi: ERC20_PERMIT_ABI, functionName: 'DOMAIN_SEPARATOR' });
+  } catch {
+    return null;
+  }
+
+  let domain: TypedDataDomain;
+  try {
+    const [, name, version, chainId, verifyingContract] = await client.readContract({
+      address: token,
+      abi: ERC5267_ABI,
+      functionName: 'eip712Domain',
+    });
+    domain = { name, version, chainId: Number(chainId), verifyingContract };
+  } catch {
+    const name = await client.readContract({ address: token, abi: ERC20_ABI, functionName: 'name' });
+    domain = { name, version: '1', chainId: await client.getChainId(), verifyingContract: token };
+  }
+
+  return domainSeparator({ domain }) === separator ? domain : null;
+}
+
+/**
+ * 检测 Vault 是否实现了 depositWithPermit：在运行时字节码中查找其函数选择器（PUSH4 <selector>）
+ * 代理合约的字节码中找不到选择器，同样返回 false，退回 approve
+ */
+export async function detectDepositWithPermit(client: PublicClient, vault: Address): Promise<boolean> {
+  const selector = toFunctionSelector(getAbiItem({ abi: VAULT_ABI, name: 'depositWithPermit' }));
+  const code = await client.getCode({ address: vault });
+  return Boolean(code?.toLowerCase().includes(`63${selector.slice(2)}`));
+}
+
+export interface PermitMessage {
+  owner: Address;
+  spender: Address;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+/** 构造 signTypedData 的参数 */
+export function buildPermitTypedData(domain: TypedDataDomain, message: PermitMessage) {
+  return { domain, types: PERMIT_TYPES, primaryType: 'Permit', message } as const;
+}
+
+export function permitDeadline(nowMs = Date.now()): bigint {
+  return BigInt(Math.floor(nowMs / 1000) + PERMIT_VALIDITY_SECONDS);
+}
@@ -0,0 +1,148 @@
+// 仓位核算：根据链上 Deposit / Redeem / Transfer 事件计算用户的成本与盈亏
+// 所有数值都以资产的最小单位（bigint）计算，share price 与合约一致使用 1e18 精度
+
+export const PRICE_PRECISION = 10n ** 18n;
+
+export type PositionEvent =
+  | { kind: 'deposit'; blockNumber: bigint; logIndex: number; assets: bigint; shares: bigint }
+  | { kind: 'redeem'; blockNumber: bigint; logIndex: number; assets: bigint; shares: bigint }
+  // VaultToken 的普通转账（mint / burn 已由 Deposit / Redeem 覆盖）
+  // priceAtBlock 为转账所在区块的 sharePrice，用来给转入的 shares 计成本
+  | { kind: 'transferIn'; blockNumber: bigint; logIndex: number; shares: bigint; priceAtBlock: bigint }
+  | { kind: 'transferOut'; blockNumber: bigint; logIndex: number; shares: bigint };
+
+export interface PositionSummary {
+  /** 累计存入的资产 */
+  totalDeposited: bigint;
+  /** 累计赎回取得的资产 */
+  totalRedeemed: bigint;
+  /** 净存入 = 存入 - 赎回（可能为负） */
+  netDeposited: bigint;
+  /** 按事件回放得到的 shares（用于和链上余额核对） */
+  trackedShares: bigint;
+  /** 当前持仓的成本（平均成本法） */
+  costBasis: bigint;
+  /** 每 share 的平均成本（1e18 精度） */
+  averageCostPerShare: bigint;
+  /** 当前持仓按最新 sharePrice 计算的价值 */
+  currentValue: bigint;
+  /** 已实现盈亏（赎回时确认） */
+  realizedPnl: bigint;
+  /** 未实现盈亏 = 当前价值 - 成本 */
+  unrealizedPnl: bigint;
+  /** 总盈亏 = 已实现 + 未实现 */
+  totalPnl: bigint;
+}
+
+export const EMPTY_POSITION: PositionSummary = {
+  totalDeposited: 0n,
+  totalRedeemed: 0n,
+  netDeposited: 0n,
+  trackedShares: 0n,
+  costBasis: 0n,
+  averageCostPerShare: 0n,
+  currentValue: 0n,
+  realizedPnl: 0n,
+  unrealizedPnl: 0n,
+  totalPnl: 0n,
+};
+
+// 按区块号、日志序号排序，保证回放顺序与链上一致
+export function sortPositionEvents(events: PositionEvent[]): PositionEvent[] {
+  return [...events].sort((a, b) => {
+    if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+    return a.logIndex - b.logIndex;
+  });
+}
+
+/**
+ * 以平均成本法回放用户的仓位事件
+ * @param events 用户相关的事件（可以是乱序）
+ * @param shareBalance 链上当前的 share 余额，用于计算当前价值
+ * @param sharePrice 当前 sharePrice（1e18 精度）
+ */
+export function computePosition(
+  events: PositionEvent[],
+  shareBalance: bigint,
+  sharePrice: bigint,
+): PositionSummary {
+  let totalDeposited = 0n;
+  let totalRedeemed = 0n;
+  let shares = 0n;
+  let costBasis = 0n;
+  let realizedPnl = 0n;
+
+  // 按比例移除成本，返回被移除的那部分成本
+  const removeCost = (amount: bigint) => {
+    if (shares === 0n) return 0n;
+    const portion = amount >= shares ? costBasis : (costBasis * amount) / shares;
+    costBasis -= portion;
+    shares = amount >= shares ? 0n : shares - amount;
+    return portion;
+  };
+
+  for (const event of sortPositionEvents(events)) {
+    switch (event.kind) {
+      case 'deposit':
+        totalDeposited += event.assets;
+        costBasis += event.assets;
+        shares += event.shares;
+        break;
+      case 'transferIn':
+        costBasis += (event.shares * event.priceAtBlock) / PRICE_PRECISION;
+        shares += event.shares;
+        break;
+      case 'redeem': {
+        totalRedeemed += event.assets;
+        const cost = removeCost(event.shares);
+        realizedPnl += event.assets - cost;
+        break;
+      }
+      case 'transferOut':
+        // 转出不是卖出，只按比例移除成本，不确认盈亏
+        removeCost(event.shares);
+        break;
+    }
+  }
+
+  // 链上余额才是准确的持仓；事件缺失时（例如 RPC 日志范围受限）按余额缩放成本
+  if (shares > 0n && shareBalance !== shares) {
+    costBasis = (costBasis * shareBalance) / shares;
+  }
+
+  const currentValue = (shareBalance * sharePrice) / PRICE_PRECISION;
+  const heldCost = shareBalance === 0n ? 0n : costBasis;
+  const unrealizedPnl = shareBalance === 0n ? 0n : currentValue - heldCost;
+
+  return {
+    totalDeposited,
+    totalRedeemed,
+    netDeposited: totalDeposited - totalRedeemed,
+    trackedShares: shares,
+    costBasis: heldCost,
+    averageCostPerShare: shareBalance === 0n ? 0n : (heldCost * PRICE_PRECISION) / shareBalance,
+    currentValue,
+    realizedPnl,
+    unrealizedPnl,
+    totalPnl: realizedPnl + unrealizedPnl,
+  };
+}
+
+/**
+ * 收益率（百分比数值），以累计投入的成本为分母
+ */
+export function returnPercent(summary: PositionSummary): number {
+  const invested = summary.costBasis + (summary.totalRedeemed - summary.realizedPnl);
+  if (invested <= 0n) return 0;
+  return (Number(summary.totalPnl) / Number(invested)) * 100;
+}
+
+/**
+ * 按持有时间年化的收益率（百分比数值）
+ * @param heldSeconds 从首次获得 shares 到现在的秒数
+ */
+export function annualizedReturnPercent(summary: PositionSummary, heldSeconds: number): number {
+  if (heldSeconds <= 0) return 0;
+  const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+  return returnPercent(summary) * (SECONDS_PER_YEAR / heldSeconds);
+}
@@ -0,0 +1,162 @@
+// USD 价格来源：可插拔的 PriceSource，按顺序尝试，第一个给出价格的来源生效
+// 纯函数模块（不依赖 Vite），keeper / CLI 等 Node 脚本也可复用
+import { getAddress, isAddress, parseAbi, type Address, type PublicClient } from 'viem';
+import { NETWORK_ENV_NAMES } from './deployments';
+import type { TokenMetadata } from './tokens';
+
+/** 定点数表示的 USD 价格：1 个完整代币 = value / 10^decimals 美元 */
+export interface UsdPrice {
+  value: bigint;
+  decimals: number;
+  /** 给出价格的来源名称，用于界面提示 */
+  source: string;
+}
+
+export interface PriceContext {
+  client: PublicClient;
+  chainId: number;
+}
+
+export interface PriceSource {
+  name: string;
+  /** 无法给出价格时返回 undefined，交给下一个来源 */
+  getPrice(token: TokenMetadata, context: PriceContext): Promise<UsdPrice | undefined>;
+}
+
+// 静态 / JSON 价格转换为定点数时使用的精度
+const PRICE_DECIMALS = 8;
+
+// 预言机价格超过该时长未更新时视为不可用
+export const MAX_ORACLE_AGE_SECONDS = 24 * 60 * 60;
+
+// Chainlink AggregatorV3Interface（外部合约，不在本仓库的编译产物中）
+const AGGREGATOR_V3_ABI = parseAbi([
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+]);
+
+/** 价格表的键可以是代币地址或 symbol（均忽略大小写） */
+export type PriceTable = Record<string, number>;
+
+function lookup(table: PriceTable, token: TokenMetadata): number | undefined {
+  const normalized = new Map(Object.entries(table).map(([key, value]) => [key.toLowerCase(), value]));
+  return normalized.get(token.address.toLowerCase()) ?? normalized.get(token.symbol.toLowerCase());
+}
+
+function fromNumber(price: number | undefined, source: string): UsdPrice | undefined {
+  if (price === undefined || !Number.isFinite(price) || price < 0) return undefined;
+  return { value: BigInt(Math.round(price * 10 ** PRICE_DECIMALS)), decimals: PRICE_DECIMALS, source };
+}
+
+/** 静态价格配置（如稳定币固定为 $1） */
+export function staticPriceSource(table: PriceTable): PriceSource {
+  return {
+    name: 'static',
+    getPrice: async (token) => fromNumber(lookup(table, token), 'static'),
+  };
+}
+
+// JSON 价格文件的缓存时长：同一来源内所有代币共用一次下载，过期后再重新读取
+const JSON_PRICE_MAX_AGE_MS = 60_000;
+
+/**
+ * 本地 JSON 价格文件，格式为 { "<symbol 或地址>": 1.23 }，也可以按 chainId 分组 { "31337": { ... } }
+ * 文件不存在或格式错误时不提供价格
+ */
+export function jsonPriceSource(url: string, fetcher: typeof fetch = fetch, maxAgeMs = JSON_PRICE_MAX_AGE_MS): PriceSource {
+  let cached: { body: Promise<unknown>; fetchedAt: number } | undefined;
+
+  // 读取失败时不缓存，下一次查询重新下载
+  const load = (): Promise<unknown> => {
+    if (cached && Date.now() - cached.fetchedAt < maxAgeMs) return cached.body;
+    const body = fetcher(url)
+      .then((response) => (response.ok ? response.json() : undefined))
+      .catch(() => undefined)
+      .then((result: unknown) => {
+        if (result === undefined && cached?.body === body) cached = undefined;
+        return result;
+      });
+    cached = { body, fetchedAt: Date.now() };
+    return body;
+  };
+
+  return {
+    name: 'json',
+    getPrice: async (token, { chainId }) => {
+      const body = await load();
+      if (!body || typeof body !== 'object') return undefined;
+      const perChain = (body as Record<string, unknown>)[String(chainId)];
+      const table = (perChain && typeof perChain === 'object' ? perChain : body) as PriceTable;
+      const price = lookup(table, token);
+      return typeof price === 'number' ? fromNumber(price, 'json') : undefined;
+    },
+  };
+}
+
+/** 链上预言机（Chainlink AggregatorV3 接口），feeds 为 chainId -> { symbol 或地址 -> feed 地址 } */
+export function oraclePriceSource(feeds: Record<number, Record<string, Address>>): PriceSource {
+  return {
+    name: 'oracle',
+    getPrice: async (token, { client, chainId }) => {
+      const table = feeds[chainId];
+      if (!table) return undefined;
+      const entry = Object.entries(table).find(
+        ([key]) => key.toLowerCase() === token.address.toLowerCase() || key.toLowerCase() === token.symbol.toLowerCase(),
+      );
+      if (!entry) return undefined;
+
+      const feed = { address: entry[1], abi: AGGREGATOR_V3_ABI } as const;
+      const [decimals, [, answer, , updatedAt]] = await Promise.all([
+        client.readContract({ ...feed, functionName: 'decimals' }),
+        client.readContract({ ...feed, functionName: 'latestRoundData' }),
+      ]);
+      const age = Date.now() / 1000 - Number(updatedAt);
+      if (answer <= 0n || age > MAX_ORACLE_AGE_SECONDS) return undefined;
+      return { value: answer, decimals, source: 'oracle' };
+    },
+  };
+}
+
+/**
+ * 解析预言机配置：<prefix>PRICE_FEED_<SYMBOL>_<NETWORK>=<feed 地址>，如 VITE_PRICE_FEED_WETH_SEPOLIA
+ */
+export function parsePriceFeeds(
+  env: Record<string, string | undefined>,
+  prefix = 'VITE_',
+): Record<number, Record<string, Address>> {
+  const networks = new Map(Object.entries(NETWORK_ENV_NAMES).map(([chainId, name]) => [name, Number(chainId)]));
+  const pattern = new RegExp(`^${prefix}PRICE_FEED_([A-Z0-9]+)_(${[...networks.keys()].join('|')})$`);
+  const feeds: Record<number, Record<string, Address>> = {};
+
+  for (const [key, raw] of Object.entries(env)) {
+    const match = pattern.exec(key);
+    const value = raw?.trim();
+    if (!match || !value) continue;
+    if (!isAddress(value, { strict: false })) throw new Error(`Invalid address in ${key}: ${value}`);
+    const chainId = networks.get(match[2])!;
+    feeds[chainId] = { ...feeds[chainId], [match[1]]: getAddress(value) };
+  }
+  return feeds;
+}
+
+/** 依次尝试各来源；单个来源出错时跳过，全部失败时返回 undefined */
+export async function resolvePrice(
+  sources: PriceSource[],
+  token: TokenMetadata,
+  context: PriceContext,
+): Promise<UsdPrice | undefined> {
+  for (const source of sources) {
+    try {
+      const price = await source.getPrice(token, context);
+      if (price) return price;
+    } catch {
+      // 预言机地址错误、RPC 异常等：继续尝试下一个来源
+    }
+  }
+  return undefined;
+}
+
+/** 代币数量（最小单位）换算为 USD，结果仍使用代币的 decimals，便于直接格式化 */
+export function toUsdValue(amount: bigint, price: UsdPrice): bigint {
+  return (amount * price.value) / 10n ** BigInt(price.decimals);
+}
@@ -0,0 +1,56 @@
+// 滑点保护：MinimalVault 的 deposit / redeem 没有 minOut 参数，只能在发送前由前端检查
+
+const MAX_BPS = 10_000n;
+
+export const DEFAULT_SLIPPAGE_BPS = 50; // 0.5%
+export const SLIPPAGE_PRESETS_BPS = [10, 50, 100] as const;
+// 超过 50% 的容忍度基本等于关闭保护，不允许设置
+export const MAX_SLIPPAGE_BPS = 5_000;
+
+const STORAGE_KEY = 'yield-vault:slippageBps';
+
+export function loadSlippageBps(): number {
+  const stored = Number(localStorage.getItem(STORAGE_KEY));
+  return Number.isInteger(stored) && stored > 0 && stored <= MAX_SLIPPAGE_BPS ? stored : DEFAULT_SLIPPAGE_BPS;
+}
+
+export function saveSlippageBps(bps: number): void {
+  localStorage.setItem(STORAGE_KEY, String(bps));
+}
+
+/** 解析用户输入的百分比（如 "0.5"）为 bps */
+export function parseSlippagePercent(input: string): { bps?: number; error?: string } {
+  const value = Number(input);
+  if (input.trim() === '' || !Number.isFinite(value)) return { error: 'Enter a percentage' };
+  const bps = Math.round(value * 100);
+  if (bps <= 0) return { error: 'Tolerance must be greater than 0%' };
+  if (bps > MAX_SLIPPAGE_BPS) return { error: `Tolerance cannot exceed ${MAX_SLIPPAGE_BPS / 100}%` };
+  return { bps };
+}
+
+/**
+ * 实际数量相对预期数量的偏差（bps）；正数表示比预期少（对用户不利）
+ */
+export function deviationBps(expected: bigint, actual: bigint): number {
+  if (expected === 0n) return 0;
+  return Number(((expected - actual) * MAX_BPS) / expected);
+}
+
+export interface SlippageCheck {
+  ok: boolean;
+  deviationBps: number;
+  /** 在容忍度内可接受的最小数量 */
+  minAcceptable: bigint;
+}
+
+/** 比较发送前模拟得到的数量与用户看到的预览数量 */
+export function checkSlippage(expected: bigint, simulated: bigint, toleranceBps: number): SlippageCheck {
+  const minAcceptable = (expected * (MAX_BPS - BigInt(toleranceBps))) / MAX_BPS;
+  return { ok: simulated >= minAcceptable, deviationBps: deviationBps(expected, simulated), minAcceptable };
+}
+
+export function formatDeviation(bps: number): string {
+  const pct = Math.abs(bps) / 100;
+  if (bps === 0) return 'exactly as expected';
+  return bps > 0 ? `${pct.toFixed(2)}% less than expected` : `${pct.toFixed(2)}% more than expected`;
+}
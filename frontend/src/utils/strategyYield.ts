@@ -0,0 +1,45 @@
+// Strategy 收益推算（与 MockStrategy 的线性 APY 公式保持一致）
+
+const MAX_BPS = 10_000n;
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+
+export interface MockYieldParams {
+  investedAssets: bigint;
+  apyBps: bigint;
+  /** 上次收获的链上时间（秒） */
+  lastHarvestTime: bigint;
+  shouldSimulateLoss: boolean;
+}
+
+/**
+ * 按 MockStrategy.pendingYield() 的公式推算任意时刻的未收获收益
+ * @param chainNow 估算的链上当前时间（秒）
+ */
+export function projectPendingYield(params: MockYieldParams, chainNow: number): bigint {
+  if (params.investedAssets === 0n || params.shouldSimulateLoss) return 0n;
+  const now = BigInt(Math.floor(chainNow));
+  const elapsed = now > params.lastHarvestTime ? now - params.lastHarvestTime : 0n;
+  return (params.investedAssets * params.apyBps * elapsed) / (MAX_BPS * SECONDS_PER_YEAR);
+}
+
+/**
+ * 根据最近一次读取的区块时间，推算当前的链上时间（本地链可能被 evm_increaseTime 调整过）
+ * @param blockTimestamp 最近读取的区块时间（秒）
+ * @param fetchedAt 读取该区块时的本地时间（毫秒）
+ * @param now 当前本地时间（毫秒）
+ */
+export function estimateChainNow(blockTimestamp: bigint, fetchedAt: number, now: number): number {
+  return Number(blockTimestamp) + Math.max(0, now - fetchedAt) / 1000;
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 0) return '—';
+  const s = Math.floor(seconds);
+  const days = Math.floor(s / 86_400);
+  const hours = Math.floor((s % 86_400) / 3_600);
+  const minutes = Math.floor((s % 3_600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${s % 60}s`;
+  return `${s % 60}s`;
+}
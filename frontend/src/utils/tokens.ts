@@ -0,0 +1,37 @@
+// 代币元数据：资产与 VaultToken 的 name / symbol / decimals，所有金额展示都以此为准
+import type { Address, PublicClient } from 'viem';
+import { ERC20_ABI } from '../config/abis';
+
+export interface TokenMetadata {
+  address: Address;
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+// sharePrice 与合约一致使用 1e18 精度
+const SHARE_PRICE_PRECISION = 10n ** 18n;
+
+/** 读取 ERC20 元数据（逐个 readContract，Anvil 默认没有 Multicall3） */
+export async function fetchTokenMetadata(client: PublicClient, address: Address): Promise<TokenMetadata> {
+  const contract = { address, abi: ERC20_ABI } as const;
+  const [name, symbol, decimals] = await Promise.all([
+    client.readContract({ ...contract, functionName: 'name' }),
+    client.readContract({ ...contract, functionName: 'symbol' }),
+    client.readContract({ ...contract, functionName: 'decimals' }),
+  ]);
+  return { address, name, symbol, decimals };
+}
+
+/** 元数据尚未加载时的占位（与合约默认的 18 位小数一致） */
+export function placeholderToken(address: Address): TokenMetadata {
+  return { address, name: '', symbol: '', decimals: 18 };
+}
+
+/**
+ * 1 个完整 share 可兑换的资产数量（资产最小单位）
+ * sharePrice = totalAssets * 1e18 / totalSupply，两者 decimals 不同时需按 share decimals 换算
+ */
+export function assetsPerShare(sharePrice: bigint, shareDecimals: number): bigint {
+  return (sharePrice * 10n ** BigInt(shareDecimals)) / SHARE_PRICE_PRECISION;
+}
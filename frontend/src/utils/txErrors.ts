@@ -0,0 +1,112 @@
+// 交易错误解码：把钱包拒绝、自定义 error、revert 字符串转换成可读的提示
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  RawContractError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  type Abi,
+  type Hex,
+} from 'viem';
+import {
+  VAULT_ABI,
+  VAULT_TOKEN_ABI,
+  STRATEGY_ABI,
+  MOCK_STRATEGY_ABI,
+  FEE_MANAGER_ABI,
+  ACCESS_CONTROL_ABI,
+} from '../config/abis';
+
+// 所有合约的 error 定义；Vault 调用 Strategy 时 revert 会原样冒泡，需要合并后再解码
+const ERROR_ABI: Abi = [
+  ...VAULT_ABI,
+  ...VAULT_TOKEN_ABI,
+  ...STRATEGY_ABI,
+  ...MOCK_STRATEGY_ABI,
+  ...FEE_MANAGER_ABI,
+  ...ACCESS_CONTROL_ABI,
+].filter((item) => item.type === 'error');
+
+// 自定义 error -> 用户可读的说明
+export const ERROR_MESSAGES: Record<string, string> = {
+  // MinimalVault
+  ZeroAmount: 'Amount must be greater than zero.',
+  ZeroShares: 'Amount is too small to mint or redeem any shares.',
+  InsufficientAssets: 'Not enough assets available to cover this withdrawal.',
+  FirstDepositTooSmall: 'The first deposit is too small to mint the minimum number of shares.',
+  InvalidInvestRatio: 'Invest ratio is above the 95% maximum.',
+  InvalidStrategy: 'Strategy address is invalid.',
+  PermitFailed: 'The permit signature is invalid or expired. Sign again and retry.',
+  // BaseStrategy / MockStrategy
+  OnlyVault: 'Only the vault can call the strategy.',
+  StrategyNotActive: 'The strategy is not active.',
+  StrategyAlreadyActive: 'The strategy is already active.',
+  InvalidAPY: 'APY is above the 1000% maximum.',
+  InvalidLossRate: 'Loss rate cannot exceed 100%.',
+  // VaultToken
+  VaultAlreadySet: 'The vault token is already bound to a vault.',
+  // FeeManager
+  FeeTooHigh: 'Fee is above the allowed maximum.',
+  InvalidFeeAmount: 'Fee amount is larger than the underlying amount.',
+  // VaultAccessControl
+  ZeroAddress: 'Address cannot be the zero address.',
+  NotWhitelisted: 'This address is not whitelisted.',
+  OnlyStrategist: 'Only the strategist can do this.',
+  OnlyGuardian: 'Only the guardian can do this.',
+  OnlyKeeper: 'Only the keeper can do this.',
+  OnlyStrategistOrOwner: 'Only the strategist or owner can do this.',
+  OnlyGuardianOrOwner: 'Only the guardian or owner can do this.',
+  EnforcedPause: 'The contract is paused.',
+  ExpectedPause: 'The contract is not paused.',
+  // OpenZeppelin
+  OwnableUnauthorizedAccount: 'Only the contract owner can do this.',
+  OwnableInvalidOwner: 'Owner address is invalid.',
+  ReentrancyGuardReentrantCall: 'Reentrant call rejected.',
+  ERC20InsufficientBalance: 'Insufficient token balance.',
+  ERC20InsufficientAllowance: 'Insufficient allowance. Approve the vault first.',
+  SafeERC20FailedOperation: 'Token transfer failed. Check your balance and allowance.',
+};
+
+/** 用合并后的 ABI 解码原始 revert 数据；无法识别时返回 undefined */
+export function decodeRevertData(data: Hex): string | undefined {
+  if (data === '0x') return undefined;
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: ERROR_ABI, data });
+    return describeError(errorName, args);
+  } catch {
+    return undefined;
+  }
+}
+
+function describeError(errorName: string, args: readonly unknown[] | undefined): string {
+  if (errorName === 'Error' && typeof args?.[0] === 'string') return args[0];
+  if (errorName === 'Panic') return `Contract panicked (code ${String(args?.[0])}).`;
+  return ERROR_MESSAGES[errorName] ?? `${errorName}(${(args ?? []).map(String).join(', ')})`;
+}
+
+function rawRevertData(err: BaseError): Hex | undefined {
+  const raw = err.walk((e) => e instanceof RawContractError);
+  if (!(raw instanceof RawContractError)) return undefined;
+  return typeof raw.data === 'object' ? raw.data.data : raw.data;
+}
+
+/**
+ * 把 wagmi / viem 抛出的任意错误转换成一句可读的提示
+ */
+export function decodeTxError(err: unknown): string {
+  if (!(err instanceof BaseError)) return err instanceof Error ? err.message : String(err);
+
+  if (err.walk((e) => e instanceof UserRejectedRequestError)) return 'Transaction was rejected in the wallet.';
+
+  const reverted = err.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError) {
+    if (reverted.data) return describeError(reverted.data.errorName, reverted.data.args);
+    const decoded = reverted.raw ? decodeRevertData(reverted.raw) : undefined;
+    if (decoded) return decoded;
+    if (reverted.reason) return reverted.reason;
+  }
+
+  const raw = rawRevertData(err);
+  const decoded = raw ? decodeRevertData(raw) : undefined;
+  return decoded ?? err.shortMessage;
+}
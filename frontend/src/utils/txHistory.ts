@@ -0,0 +1,46 @@
+// 交易历史：按账户保存在 localStorage，刷新页面后继续跟踪未确认的交易
+import type { Address, Hash } from 'viem';
+
+export type TxStatus = 'pending' | 'confirmed' | 'failed';
+
+export interface TxRecord {
+  hash: Hash;
+  chainId: number;
+  account: Address;
+  title: string;
+  status: TxStatus;
+  /** 提交时间（毫秒） */
+  submittedAt: number;
+  /** 确认 / 失败时间（毫秒） */
+  settledAt?: number;
+  error?: string;
+}
+
+// 每个账户最多保留的记录数
+export const MAX_TX_HISTORY = 50;
+
+const storageKey = (account: Address) => `yield-vault:txs:${account.toLowerCase()}`;
+
+export function loadTxHistory(account: Address): TxRecord[] {
+  try {
+    const raw = localStorage.getItem(storageKey(account));
+    return raw ? (JSON.parse(raw) as TxRecord[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveTxHistory(account: Address, records: TxRecord[]): void {
+  try {
+    localStorage.setItem(storageKey(account), JSON.stringify(records.slice(0, MAX_TX_HISTORY)));
+  } catch {
+    // 存储已满或被禁用时只保留内存中的记录
+  }
+}
+
+/** 新记录插入到最前面；已存在的记录（同 hash）原地更新 */
+export function upsertTx(records: TxRecord[], record: TxRecord): TxRecord[] {
+  const index = records.findIndex((r) => r.hash === record.hash);
+  if (index < 0) return [record, ...records].slice(0, MAX_TX_HISTORY);
+  return records.map((r, i) => (i === index ? record : r));
+}
@@ -0,0 +1,117 @@
+import type { Address } from 'viem';
+import { YIELD_WINDOWS, type VaultSample } from './yieldAnalytics';
+
+// Vault 历史曲线：按区块采样 sharePrice / totalAssets，并记录 Harvested / StrategySet / InvestRatioUpdated 事件
+// 采样点与事件都缓存在 IndexedDB 中，每次只补齐缺失的采样与新区块的事件
+
+export const VAULT_HISTORY_VERSION = 1;
+
+export const CHART_RANGES = { ...YIELD_WINDOWS, all: undefined } as const;
+export type ChartRange = keyof typeof CHART_RANGES;
+
+// 每个范围内期望的采样数；缓存中距离计划区块足够近的采样点会被复用
+export const TARGET_POINTS = 60;
+// 缓存中最多保留的采样点，超出后均匀稀疏（事件所在区块的采样点始终保留）
+export const MAX_CACHED_POINTS = 2_000;
+
+export type HistoryMarker =
+  | { kind: 'harvest'; blockNumber: bigint; profit: bigint; loss: bigint }
+  | { kind: 'strategy'; blockNumber: bigint; oldStrategy: Address; newStrategy: Address }
+  | { kind: 'investRatio'; blockNumber: bigint; oldRatio: bigint; newRatio: bigint };
+
+export interface VaultHistoryState {
+  version: number;
+  /** Vault 合约部署所在区块（之前的区块无法读取） */
+  deployBlock?: bigint;
+  /** 事件已经索引到的区块（包含） */
+  lastIndexedBlock: bigint;
+  /** 按区块升序排列 */
+  points: VaultSample[];
+  markers: HistoryMarker[];
+}
+
+export function emptyVaultHistory(): VaultHistoryState {
+  return { version: VAULT_HISTORY_VERSION, lastIndexedBlock: -1n, points: [], markers: [] };
+}
+
+/** 在 [start, end] 内均匀选取 count 个区块（包含两端） */
+export function planSamples(start: bigint, end: bigint, count = TARGET_POINTS): bigint[] {
+  if (end <= start || count < 2) return [end];
+  const span = end - start;
+  const steps = BigInt(count - 1) > span ? span : BigInt(count - 1);
+  const blocks: bigint[] = [];
+  for (let i = 0n; i <= steps; i++) blocks.push(start + (span * i) / steps);
+  return blocks;
+}
+
+/**
+ * 计划区块中缓存里没有可复用采样点的部分
+ * @param tolerance 采样点与计划区块的最大距离（区块数）
+ */
+export function missingSamples(points: VaultSample[], planned: bigint[], tolerance: bigint): bigint[] {
+  return planned.filter((block) => {
+    const nearest = nearestPoint(points, block);
+    if (!nearest) return true;
+    const distance = nearest.blockNumber > block ? nearest.blockNumber - block : block - nearest.blockNumber;
+    return distance > tolerance;
+  });
+}
+
+// 二分查找最接近 block 的采样点（points 按区块升序）
+function nearestPoint(points: VaultSample[], block: bigint): VaultSample | undefined {
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (points[mid].blockNumber < block) low = mid + 1;
+    else high = mid;
+  }
+  const candidates = [points[low - 1], points[low]].filter(Boolean);
+  return candidates.sort((a, b) => {
+    const da = a.blockNumber > block ? a.blockNumber - block : block - a.blockNumber;
+    const db = b.blockNumber > block ? b.blockNumber - block : block - b.blockNumber;
+    return da < db ? -1 : da > db ? 1 : 0;
+  })[0];
+}
+
+/**
+ * 合并新的采样点（按区块去重、排序），超过上限时均匀稀疏，但保留事件所在区块
+ */
+export function mergePoints(
+  state: VaultHistoryState,
+  samples: VaultSample[],
+  maxPoints = MAX_CACHED_POINTS,
+): VaultHistoryState {
+  const byBlock = new Map(state.points.map((p) => [p.blockNumber, p]));
+  for (const sample of samples) byBlock.set(sample.blockNumber, sample);
+  let points = [...byBlock.values()].sort((a, b) => (a.blockNumber < b.blockNumber ? -1 : 1));
+
+  if (points.length > maxPoints) {
+    const pinned = new Set(state.markers.map((m) => m.blockNumber));
+    const last = points[points.length - 1];
+    points = points.filter((p, i) => i % 2 === 0 || p === last || pinned.has(p.blockNumber));
+  }
+  return { ...state, points };
+}
+
+/** 合并一段区块范围内的事件 */
+export function applyMarkers(state: VaultHistoryState, toBlock: bigint, markers: HistoryMarker[]): VaultHistoryState {
+  const merged = [...state.markers, ...markers].sort((a, b) => (a.blockNumber < b.blockNumber ? -1 : 1));
+  return { ...state, lastIndexedBlock: toBlock, markers: merged };
+}
+
+export interface HistorySeries {
+  points: VaultSample[];
+  /** 事件及其所在区块的采样点（用于在图上定位） */
+  markers: (HistoryMarker & { point: VaultSample })[];
+}
+
+/** 取出 startBlock 之后的采样点与事件 */
+export function selectRange(state: VaultHistoryState, startBlock: bigint): HistorySeries {
+  const points = state.points.filter((p) => p.blockNumber >= startBlock);
+  const byBlock = new Map(points.map((p) => [p.blockNumber, p]));
+  const markers = state.markers
+    .filter((m) => m.blockNumber >= startBlock && byBlock.has(m.blockNumber))
+    .map((m) => ({ ...m, point: byBlock.get(m.blockNumber)! }));
+  return { points, markers };
+}
@@ -0,0 +1,142 @@
+// Vault 快照：一次读取 Vault、VaultToken、FeeManager、AccessControl 与当前账户的全部状态
+// 有 Multicall3 的链合并为一次 eth_call；没有时（如 Anvil）逐个读取，由 transport 的 JSON-RPC batch 合并为一次请求，都固定在同一个区块
+import {
+  zeroAddress,
+  type Address,
+  type ContractFunctionParameters,
+  type MulticallReturnType,
+  type PublicClient,
+} from 'viem';
+import { ACCESS_CONTROL_ABI, ERC20_ABI, FEE_MANAGER_ABI, VAULT_ABI } from '../config/abis';
+import type { AccessState } from './accessControl';
+import type { Deployment, VaultDeployment } from './deployments';
+
+export type SnapshotAddresses = Pick<VaultDeployment, 'vault' | 'vaultToken' | 'asset'> &
+  Pick<Deployment, 'feeManager' | 'accessControl'>;
+
+export interface FeeRates {
+  performanceFeeBps: bigint;
+  withdrawalFeeBps: bigint;
+  recipient: Address;
+  performanceFeeEnabled: boolean;
+  withdrawalFeeEnabled: boolean;
+}
+
+export interface AccountSnapshot {
+  address: Address;
+  assetBalance: bigint;
+  shareBalance: bigint;
+  /** 按当前 share 价格折算的资产（balanceOfAssets） */
+  assetsValue: bigint;
+  /** 对 Vault 的授权额度 */
+  allowance: bigint;
+}
+
+export interface VaultSnapshot {
+  /** 所有数值读取自该区块 */
+  blockNumber: bigint;
+  totalAssets: bigint;
+  sharePrice: bigint;
+  totalIdleAssets: bigint;
+  totalInvestedAssets: bigint;
+  investRatioBps: bigint;
+  totalSupply: bigint;
+  owner: Address;
+  strategy: Address;
+  fees: FeeRates;
+  /** 不含 shutdown（需要查询事件，由 useAccessState 补充） */
+  access: Omit<AccessState, 'shutdown'>;
+  /** 未连接钱包时为 undefined */
+  account?: AccountSnapshot;
+}
+
+function snapshotContracts({ vault, vaultToken, asset, feeManager, accessControl }: SnapshotAddresses, user: Address) {
+  const vaultContract = { address: vault, abi: VAULT_ABI } as const;
+  const access = { address: accessControl, abi: ACCESS_CONTROL_ABI } as const;
+  return [
+    { ...vaultContract, functionName: 'totalAssets' },
+    { ...vaultContract, functionName: 'sharePrice' },
+    { ...vaultContract, functionName: 'totalIdleAssets' },
+    { ...vaultContract, functionName: 'totalInvestedAssets' },
+    { ...vaultContract, functionName: 'investRatioBps' },
+    { ...vaultContract, functionName: 'owner' },
+    { ...vaultContract, functionName: 'strategy' },
+    { address: vaultToken, abi: ERC20_ABI, functionName: 'totalSupply' },
+    { address: feeManager, abi: FEE_MANAGER_ABI, functionName: 'getFeeConfiguration' },
+    { ...access, functionName: 'getAccessControlState' },
+    { ...access, functionName: 'getRoles' },
+    { ...access, functionName: 'canDeposit', args: [user] },
+    { ...access, functionName: 'whitelisted', args: [user] },
+    // 账户相关（未连接时读取零地址，结果丢弃）
+    { address: asset, abi: ERC20_ABI, functionName: 'balanceOf', args: [user] },
+    { address: vaultToken, abi: ERC20_ABI, functionName: 'balanceOf', args: [user] },
+    { ...vaultContract, functionName: 'balanceOfAssets', args: [user] },
+    { address: asset, abi: ERC20_ABI, functionName: 'allowance', args: [user, vault] },
+  ] as const;
+}
+
+/**
+ * 在指定区块读取一组合约调用；任何一个失败都会抛出异常
+ * 没有 Multicall3 时同时发出全部 eth_call，transport 开启 batch 时（见 config/wagmi）合并为一次 HTTP 请求
+ */
+export async function readContractsAt<const contracts extends readonly ContractFunctionParameters[]>(
+  client: PublicClient,
+  contracts: contracts,
+  blockNumber: bigint,
+): Promise<MulticallReturnType<contracts, false>> {
+  if (client.chain?.contracts?.multicall3) {
+    return client.multicall({ contracts: contracts as readonly ContractFunctionParameters[], allowFailure: false, blockNumber }) as Promise<
+      MulticallReturnType<contracts, false>
+    >;
+  }
+  const results = await Promise.all(contracts.map((contract) => client.readContract({ ...contract, blockNumber })));
+  return results as MulticallReturnType<contracts, false>;
+}
+
+export async function fetchVaultSnapshot(
+  client: PublicClient,
+  addresses: SnapshotAddresses,
+  user: Address | undefined,
+  blockNumber: bigint,
+): Promise<VaultSnapshot> {
+  const [
+    totalAssets,
+    sharePrice,
+    totalIdleAssets,
+    totalInvestedAssets,
+    investRatioBps,
+    owner,
+    strategy,
+    totalSupply,
+    [performanceFeeBps, withdrawalFeeBps, recipient, performanceFeeEnabled, withdrawalFeeEnabled],
+    [paused, publicDeposits],
+    [roleOwner, strategist, guardian, keeper],
+    canDeposit,
+    isWhitelisted,
+    assetBalance,
+    shareBalance,
+    assetsValue,
+    allowance,
+  ] = await readContractsAt(client, snapshotContracts(addresses, user ?? zeroAddress), blockNumber);
+
+  return {
+    blockNumber,
+    totalAssets,
+    sharePrice,
+    totalIdleAssets,
+    totalInvestedAssets,
+    investRatioBps,
+    totalSupply,
+    owner,
+    strategy,
+    fees: { performanceFeeBps, withdrawalFeeBps, recipient, performanceFeeEnabled, withdrawalFeeEnabled },
+    access: {
+      paused,
+      publicDeposits,
+      canDeposit,
+      isWhitelisted,
+      roles: { owner: roleOwner, strategist, guardian, keeper },
+    },
+    account: user ? { address: user, assetBalance, shareBalance, assetsValue, allowance } : undefined,
+  };
+}
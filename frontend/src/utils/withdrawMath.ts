@@ -0,0 +1,43 @@
+// 提款数量换算：按资产数量 / 百分比计算需要赎回的 shares
+import { parseUnits } from 'viem';
+
+const PRICE_PRECISION = 10n ** 18n;
+
+export const WITHDRAW_PERCENTS = [25, 50, 75, 100] as const;
+
+export interface ParsedAmount {
+  value?: bigint;
+  error?: string;
+}
+
+/**
+ * 安全解析输入金额：不会抛出异常，超出余额或小数位过多时返回错误说明
+ */
+export function parseAmountInput(input: string, decimals: number, max?: bigint): ParsedAmount {
+  const text = input.trim();
+  if (text === '' || text === '.') return {};
+  if (!/^\d*\.?\d*$/.test(text)) return { error: 'Enter a valid number' };
+  const fraction = text.split('.')[1] ?? '';
+  if (fraction.length > decimals) return { error: `Too many decimals (max ${decimals})` };
+
+  const value = parseUnits(text, decimals);
+  if (value === 0n) return { error: 'Amount must be greater than zero' };
+  if (max !== undefined && value > max) return { error: 'Amount exceeds your balance' };
+  return { value };
+}
+
+/**
+ * 取回指定数量资产所需的 shares（向上取整，保证 previewRedeem 的结果不少于目标）
+ * sharePrice 本身是向下取整的，因此估算结果只会偏多不会偏少；最终不超过持有的 shares
+ */
+export function sharesForAssets(assets: bigint, sharePrice: bigint, shareBalance: bigint): bigint {
+  if (sharePrice === 0n) return 0n;
+  const shares = (assets * PRICE_PRECISION + sharePrice - 1n) / sharePrice;
+  return shares > shareBalance ? shareBalance : shares;
+}
+
+/** 按百分比赎回；100% 直接使用完整余额，避免留下灰尘 */
+export function sharesForPercent(shareBalance: bigint, percent: number): bigint {
+  if (percent >= 100) return shareBalance;
+  return (shareBalance * BigInt(Math.round(percent * 100))) / 10_000n;
+}
@@ -0,0 +1,83 @@
+// 收益分析：根据不同区块的 sharePrice / totalAssets 采样和 Harvested 事件计算 APY 与变化
+
+export const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+export const YIELD_WINDOWS = {
+  '24h': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60,
+  '30d': 30 * 24 * 60 * 60,
+} as const;
+
+export type YieldWindow = keyof typeof YIELD_WINDOWS;
+
+export interface VaultSample {
+  blockNumber: bigint;
+  timestamp: number;
+  sharePrice: bigint;
+  totalAssets: bigint;
+}
+
+export interface HarvestRecord {
+  blockNumber: bigint;
+  profit: bigint;
+  loss: bigint;
+}
+
+export interface WindowStats {
+  window: YieldWindow;
+  /** 历史数据是否覆盖整个窗口（Vault 太新时为 false） */
+  available: boolean;
+  /** 年化收益率（百分比），按 sharePrice 变化简单年化 */
+  apy?: number;
+  /** sharePrice 变化（百分比） */
+  sharePriceChange?: number;
+  /** TVL 变化（百分比） */
+  tvlChange?: number;
+  harvestedProfit: bigint;
+  harvestedLoss: bigint;
+  harvestCount: number;
+}
+
+export function percentChange(from: bigint, to: bigint): number | undefined {
+  if (from === 0n) return undefined;
+  // 先放大再转 number，避免大数直接相除丢失精度
+  return Number(((to - from) * 1_000_000n) / from) / 10_000;
+}
+
+export function annualize(changePercent: number, seconds: number): number {
+  if (seconds <= 0) return 0;
+  return changePercent * (SECONDS_PER_YEAR / seconds);
+}
+
+/**
+ * 计算某个窗口的统计
+ * @param start 窗口起点的采样；历史不足时为 undefined
+ * @param current 最新采样
+ */
+export function computeWindowStats(
+  window: YieldWindow,
+  current: VaultSample,
+  start: VaultSample | undefined,
+  harvests: HarvestRecord[],
+): WindowStats {
+  const inWindow = start ? harvests.filter((h) => h.blockNumber > start.blockNumber) : harvests;
+  const harvestedProfit = inWindow.reduce((sum, h) => sum + h.profit, 0n);
+  const harvestedLoss = inWindow.reduce((sum, h) => sum + h.loss, 0n);
+
+  if (!start || start.sharePrice === 0n) {
+    return { window, available: false, harvestedProfit, harvestedLoss, harvestCount: inWindow.length };
+  }
+
+  const sharePriceChange = percentChange(start.sharePrice, current.sharePrice) ?? 0;
+
+  return {
+    window,
+    available: true,
+    apy: annualize(sharePriceChange, current.timestamp - start.timestamp),
+    sharePriceChange,
+    tvlChange: percentChange(start.totalAssets, current.totalAssets),
+    harvestedProfit,
+    harvestedLoss,
+    harvestCount: inWindow.length,
+  };
+}
@@ -1,7 +1,14 @@
-import { defineConfig } from 'vite'
+import { fileURLToPath } from 'node:url'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    fs: {
+      // 允许读取仓库根目录下 Foundry 生成的 broadcast/ 部署记录
+      allow: [searchForWorkspaceRoot(process.cwd()), fileURLToPath(new URL('../broadcast', import.meta.url))],
+    },
+  },
 })
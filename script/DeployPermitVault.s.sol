@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Script} from "forge-std/Script.sol";
+import "forge-std/console.sol";
+import {MinimalVault} from "../src/core/MinimalVault.sol";
+import {VaultToken} from "../src/core/VaultToken.sol";
+import {MockStrategy} from "../src/strategies/MockStrategy.sol";
+import {MockPermitToken} from "../src/mocks/MockPermitToken.sol";
+
+/**
+ * @title DeployPermitVault Script
+ * @notice 部署一个以 EIP-2612 permit 代币为资产的 Vault，用于测试前端的签名存款流程
+ * @dev 需要先运行 Deploy.s.sol（FeeManager / AccessControl 与其共用）
+ *      本地 Anvil: forge script script/DeployPermitVault.s.sol --rpc-url http://localhost:8545 --broadcast
+ */
+contract DeployPermitVault is Script {
+    uint256 constant INITIAL_MINT = 1_000_000 * 1e18;
+
+    function run() external {
+        uint256 deployerPrivateKey = getDeployerPrivateKey();
+        address deployer = vm.addr(deployerPrivateKey);
+
+        console.log("===========================================");
+        console.log("Deploying Permit Asset Vault");
+        console.log("===========================================");
+        console.log("Deployer:", deployer);
+        console.log("Chain ID:", block.chainid);
+
+        vm.startBroadcast(deployerPrivateKey);
+
+        // 1. 支持 permit 的 Mock 资产
+        MockPermitToken asset = new MockPermitToken("Permit USDC", "pUSDC", 18);
+
+        // 2. Vault Token + MinimalVault
+        VaultToken vaultToken = new VaultToken("Permit Vault Token", "pVLT");
+        MinimalVault vault = new MinimalVault(address(asset), address(vaultToken), 9500);
+        vaultToken.setVault(address(vault));
+
+        // 3. Strategy
+        MockStrategy strategy = new MockStrategy(address(vault), address(asset), 1000); // 10% APY
+        vault.setStrategy(address(strategy));
+
+        // 4. 测试代币（仅测试网/本地）
+        if (block.chainid == 31337 || block.chainid == 11155111) {
+            asset.mint(deployer, INITIAL_MINT);
+        }
+
+        vm.stopBroadcast();
+
+        console.log("");
+        console.log("Contracts:");
+        console.log("  Permit Asset (pUSDC):", address(asset));
+        console.log("  Vault Token:", address(vaultToken));
+        console.log("  MinimalVault:", address(vault));
+        console.log("  MockStrategy:", address(strategy));
+        console.log("===========================================");
+    }
+
+    /**
+     * @notice 获取部署者私钥（与 Deploy.s.sol 相同的回退顺序）
+     */
+    function getDeployerPrivateKey() internal view returns (uint256) {
+        try vm.envUint("PRIVATE_KEY") returns (uint256 privateKey) {
+            return privateKey;
+        } catch {
+            try vm.envUint("PRIVATE_KEY_FOX") returns (uint256 privateKey2) {
+                return privateKey2;
+            } catch {
+                console.log("No PRIVATE_KEY/_FOX found, using Anvil default account");
+                return 0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80;
+            }
+        }
+    }
+}
@@ -2,6 +2,7 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
@@ -63,6 +64,7 @@ contract MinimalVault is ReentrancyGuard, Ownable {
     error FirstDepositTooSmall();
     error InvalidInvestRatio();
     error InvalidStrategy();
+    error PermitFailed();
 
     // ============ Constructor ============
     constructor(address _asset, address _shares, uint256 _investRatioBps) Ownable(msg.sender) {
@@ -81,31 +83,26 @@ contract MinimalVault is ReentrancyGuard, Ownable {
      * @return sharesAmount 获得的 shares 数量
      */
     function deposit(uint256 assets) external nonReentrant returns (uint256 sharesAmount) {
-        if (assets == 0) revert ZeroAmount();
-
-        // 计算应该 mint 多少 shares
-        sharesAmount = previewDeposit(assets);
-        if (sharesAmount == 0) revert ZeroShares();
+        sharesAmount = _deposit(assets);
+    }
 
-        // 首次存款保护
-        if (!initialized) {
-            if (sharesAmount < MINIMUM_SHARES) revert FirstDepositTooSmall();
-            initialized = true;
+    /**
+     * @notice 使用 EIP-2612 permit 签名授权并存入资产（一笔交易完成 approve + deposit）
+     * @dev permit 可能已被他人抢先提交（签名被消费），此时只要授权额度足够仍继续存款
+     * @param assets 存入的资产数量（同时也是 permit 的授权数量）
+     * @param deadline 签名过期时间
+     * @return sharesAmount 获得的 shares 数量
+     */
+    function depositWithPermit(uint256 assets, uint256 deadline, uint8 v, bytes32 r, bytes32 s)
+        external
+        nonReentrant
+        returns (uint256 sharesAmount)
+    {
+        try IERC20Permit(address(asset)).permit(msg.sender, address(this), assets, deadline, v, r, s) {}
+        catch {
+            if (asset.allowance(msg.sender, address(this)) < assets) revert PermitFailed();
         }
-
-        // 转入资产
-        asset.safeTransferFrom(msg.sender, address(this), assets);
-
-        // 更新闲置资产
-        totalIdleAssets += assets;
-
-        // Mint shares
-        shares.mint(msg.sender, sharesAmount);
-
-        emit Deposit(msg.sender, assets, sharesAmount);
-
-        // 如果有 Strategy 且闲置资金足够，自动投资
-        _autoInvest();
+        sharesAmount = _deposit(assets);
     }
 
     /**
@@ -190,6 +187,37 @@ contract MinimalVault is ReentrancyGuard, Ownable {
 
     // ============ Internal Functions ============
 
+    /**
+     * @dev 存款逻辑（deposit 与 depositWithPermit 共用）
+     */
+    function _deposit(uint256 assets) internal returns (uint256 sharesAmount) {
+        if (assets == 0) revert ZeroAmount();
+
+        // 计算应该 mint 多少 shares
+        sharesAmount = previewDeposit(assets);
+        if (sharesAmount == 0) revert ZeroShares();
+
+        // 首次存款保护
+        if (!initialized) {
+            if (sharesAmount < MINIMUM_SHARES) revert FirstDepositTooSmall();
+            initialized = true;
+        }
+
+        // 转入资产
+        asset.safeTransferFrom(msg.sender, address(this), assets);
+
+        // 更新闲置资产
+        totalIdleAssets += assets;
+
+        // Mint shares
+        shares.mint(msg.sender, sharesAmount);
+
+        emit Deposit(msg.sender, assets, sharesAmount);
+
+        // 如果有 Strategy 且闲置资金足够，自动投资
+        _autoInvest();
+    }
+
     /**
      * @dev 自动投资逻辑
      */
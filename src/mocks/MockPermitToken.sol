@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+/**
+ * @title MockPermitToken
+ * @notice 支持 EIP-2612 permit 的测试资产（本地 Anvil / 测试网用）
+ * @dev 任何人都可以 mint；EIP-712 域为 (name, "1", chainId, address)
+ */
+contract MockPermitToken is ERC20, ERC20Permit {
+    uint8 private immutable _decimals;
+
+    constructor(string memory _name, string memory _symbol, uint8 decimals_)
+        ERC20(_name, _symbol)
+        ERC20Permit(_name)
+    {
+        _decimals = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
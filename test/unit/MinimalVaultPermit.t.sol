@@ -0,0 +1,108 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../../src/core/MinimalVault.sol";
+import "../../src/core/VaultToken.sol";
+import "../../src/mocks/MockPermitToken.sol";
+
+/**
+ * @title MinimalVaultPermitTest
+ * @notice depositWithPermit：EIP-2612 签名授权 + 存款
+ */
+contract MinimalVaultPermitTest is Test {
+    MinimalVault public vault;
+    VaultToken public vaultToken;
+    MockPermitToken public asset;
+
+    address public owner = address(1);
+    uint256 public userKey = 0xA11CE;
+    address public user;
+
+    uint256 constant INITIAL_BALANCE = 10000e18;
+    bytes32 constant PERMIT_TYPEHASH =
+        keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+
+    function setUp() public {
+        user = vm.addr(userKey);
+        asset = new MockPermitToken("Mock USDC", "USDC", 18);
+
+        vm.startPrank(owner);
+        vaultToken = new VaultToken("Vault Shares", "vShares");
+        vault = new MinimalVault(address(asset), address(vaultToken), 0);
+        vaultToken.setVault(address(vault));
+        vm.stopPrank();
+
+        asset.mint(user, INITIAL_BALANCE);
+    }
+
+    function _sign(uint256 value, uint256 deadline) internal view returns (uint8 v, bytes32 r, bytes32 s) {
+        bytes32 structHash =
+            keccak256(abi.encode(PERMIT_TYPEHASH, user, address(vault), value, asset.nonces(user), deadline));
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", asset.DOMAIN_SEPARATOR(), structHash));
+        return vm.sign(userKey, digest);
+    }
+
+    function test_DepositWithPermit() public {
+        uint256 amount = 1000e18;
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _sign(amount, deadline);
+
+        vm.prank(user);
+        uint256 sharesReceived = vault.depositWithPermit(amount, deadline, v, r, s);
+
+        assertEq(sharesReceived, amount);
+        assertEq(vaultToken.balanceOf(user), amount);
+        assertEq(asset.balanceOf(address(vault)), amount);
+        assertEq(asset.allowance(user, address(vault)), 0);
+        assertEq(asset.nonces(user), 1);
+    }
+
+    function test_DepositWithPermit_FrontRunPermit() public {
+        uint256 amount = 1000e18;
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _sign(amount, deadline);
+
+        // 攻击者抢先提交 permit，签名已被消费，但授权仍然有效
+        asset.permit(user, address(vault), amount, deadline, v, r, s);
+
+        vm.prank(user);
+        vault.depositWithPermit(amount, deadline, v, r, s);
+
+        assertEq(vaultToken.balanceOf(user), amount);
+    }
+
+    function test_DepositWithPermit_RevertExpired() public {
+        uint256 amount = 1000e18;
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _sign(amount, deadline);
+
+        vm.warp(deadline + 1);
+        vm.prank(user);
+        vm.expectRevert(MinimalVault.PermitFailed.selector);
+        vault.depositWithPermit(amount, deadline, v, r, s);
+    }
+
+    function test_DepositWithPermit_RevertWrongAmount() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _sign(1000e18, deadline);
+
+        // 签名的数量与存款数量不一致，permit 校验失败
+        vm.prank(user);
+        vm.expectRevert(MinimalVault.PermitFailed.selector);
+        vault.depositWithPermit(2000e18, deadline, v, r, s);
+    }
+
+    function test_DepositWithPermit_ExistingAllowance() public {
+        uint256 amount = 1000e18;
+
+        vm.prank(user);
+        asset.approve(address(vault), amount);
+
+        // 已有足够授权时，无效签名不影响存款
+        vm.prank(user);
+        vault.depositWithPermit(amount, block.timestamp, 0, bytes32(0), bytes32(0));
+
+        assertEq(vaultToken.balanceOf(user), amount);
+    }
+}